@@ -1,5 +1,5 @@
 import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
-import { Stage, Layer, Rect, Text, Group, Line, Circle, Path } from 'react-konva';
+import { Stage, Layer, Rect, Text, Group, Line, Circle, Path, Arrow, Arc, Image as KonvaImage } from 'react-konva';
 import { motion } from 'framer-motion';
 import { 
   ZoomIn, 
@@ -11,36 +11,248 @@ import {
   Copy,
   Trash2,
   Settings,
-  Route
+  Route,
+  Undo2,
+  Redo2,
+  Eye,
+  EyeOff,
+  Waypoints,
+  Flame,
+  Play,
+  Pause,
+  Truck,
+  DoorOpen,
+  Footprints
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { useAppStore } from '@/lib/store';
-import { Block, MODULE_DEFINITIONS } from '@/lib/types';
-import { cn, snapToGrid } from '@/lib/utils';
+import { Block, BlockSide, MODULE_DEFINITIONS } from '@/lib/types';
+import { getIOPoints, rotateBlock } from '@/lib/io-points';
+import { cn, formatNumber, snapToGrid } from '@/lib/utils';
 import { PathMask, GridIndex, checkPlacementLegality, nudgeToNearestLegal } from '@/lib/grid';
+import { buildPathMask, getSiteObstacles, getSiteRect } from '@/lib/site';
+import { routedFlows } from '@/lib/flows';
+import { Point } from '@/lib/routing';
+import { computeTraffic } from '@/lib/traffic';
+import { simulateShift, vehiclePositions, VehicleState } from '@/lib/simulation';
+import { computeEgress, egressLimitsFromRules, exitSegment, nearestExitPlacement } from '@/lib/egress';
+import { useRules } from '@/lib/use-rules';
+import { dockDesignFromRules, dockDoorSegment } from '@/lib/docks';
+import { checkTurning, turningDesignFromRules } from '@/lib/turning';
+import { vehicleProfilesFromRules } from '@/lib/vehicle-profiles';
+import { checkWalkways, DEFAULT_WALKWAY_WIDTH_M, orthogonalPoint, walkwayLimitsFromRules, walkwayWidth } from '@/lib/walkways';
 import Konva from 'konva';
 
+// Outward unit normal of each block side (canvas y points down)
+const SIDE_NORMALS: Record<BlockSide, [number, number]> = {
+  top: [0, -1],
+  right: [1, 0],
+  bottom: [0, 1],
+  left: [-1, 0]
+};
+
+const IO_COLORS = { in: '#059669', out: '#2563eb', inout: '#7c3aed' };
+
+interface FlowRoute {
+  from: Block;
+  to: Block;
+  moves: number; // per hour
+  distance: number; // m, as routed
+  cost: number; // moves × distance, this flow's part of the MHC
+  points: Point[];
+}
+
+// Green for cheap flows through amber to red for the costliest
+function flowCostColor(share: number): string {
+  const hue = 120 * (1 - Math.max(0, Math.min(1, share)));
+  return `hsl(${hue}, 80%, 42%)`;
+}
+
+// Heatmap colour for a cell's load as a share of the limit: blue when
+// quiet, through yellow, to red at and beyond the limit
+function trafficColor(utilization: number): [number, number, number, number] {
+  const u = Math.max(0, Math.min(1, utilization));
+  const stops: Array<[number, number, number]> = [[59, 130, 246], [250, 204, 21], [220, 38, 38]];
+  const t = u * (stops.length - 1);
+  const i = Math.min(stops.length - 2, Math.floor(t));
+  const f = t - i;
+  const [r, g, b] = stops[i].map((v, k) => Math.round(v + f * (stops[i + 1][k] - v)));
+  return [r, g, b, Math.round(255 * (0.35 + 0.5 * u))];
+}
+
+// Point halfway along a polyline, where its label goes
+// Load colour of a replayed vehicle per state
+const VEHICLE_STATE_COLORS: Record<VehicleState, string> = {
+  idle: '#9ca3af',
+  empty: '#3b82f6',
+  loading: '#f59e0b',
+  loaded: '#16a34a',
+  blocked: '#dc2626',
+  unloading: '#f59e0b',
+};
+
+// Simulated seconds per real second
+const PLAYBACK_SPEEDS = [10, 60, 300, 600];
+
+// Wall-clock time `seconds` into a shift starting at `startHour`
+function shiftClock(startHour: number, seconds: number): string {
+  const minutes = Math.floor(startHour * 60 + seconds / 60) % (24 * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// Egress colour for a walk `share` of the limit long: green to amber, red
+// beyond the limit
+function egressColor(share: number): [number, number, number, number] {
+  if (share > 1) return [220, 38, 38, 150];
+  const stops: Array<[number, number, number]> = [[34, 197, 94], [245, 158, 11]];
+  const [r, g, b] = stops[0].map((v, k) => Math.round(v + share * (stops[1][k] - v)));
+  return [r, g, b, 90];
+}
+
+// Clicks this close to a wall place an exit in the egress view (m)
+const EXIT_SNAP_M = 3;
+
+function polylineMidpoint(points: Point[]): Point {
+  const lengths = points.slice(1).map((p, i) => Math.abs(p.x - points[i].x) + Math.abs(p.y - points[i].y));
+  let remaining = lengths.reduce((a, l) => a + l, 0) / 2;
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const t = remaining / lengths[i];
+      return { x: points[i].x + t * (points[i + 1].x - points[i].x), y: points[i].y + t * (points[i + 1].y - points[i].y) };
+    }
+    remaining -= lengths[i];
+  }
+  return points[points.length - 1];
+}
+
 // Interactive 2D canvas with warehouse layout editor
 const CanvasPanel: React.FC = () => {
   const {
-    currentPlan,
+    currentPlan: editedPlan,
+    optimizationResult,
+    currentRequest,
     canvasState,
     updateCanvasState,
     updateBlock,
+    removeBlocks,
+    checkpointPlan,
+    undo,
+    redo,
+    planHistory,
     setSelectedBlocks,
     clearSelection,
+    addExit,
+    removeExit,
+    addWalkway,
+    updateWalkway,
+    removeWalkway,
     isSidebarCollapsed,
     isChatSidebarCollapsed
   } = useAppStore();
+  const rules = useRules();
+
+  // While the optimizer runs, optionally show its best-so-far layout instead
+  // of the plan being edited; the preview is read-only
+  const optimizationProgress = optimizationResult?.isOptimizing ? optimizationResult.progress : undefined;
+  const previewPlan = optimizationResult?.isOptimizing ? optimizationResult.previewPlan : undefined;
+  const isPreviewing = !!previewPlan && canvasState.showOptimizerPreview;
+  const isParetoRun = optimizationResult?.mode === 'pareto';
+  const currentPlan = isPreviewing ? previewPlan : editedPlan;
 
   const stageRef = useRef<Konva.Stage>(null);
   const [stageSize, setStageSize] = useState({ width: 800, height: 600 });
   const [isDragging, setIsDragging] = useState(false);
   const [isResizing, setIsResizing] = useState(false);
-  const [animationTime, setAnimationTime] = useState(0);
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState(PLAYBACK_SPEEDS[1]);
   const [violations, setViolations] = useState<Record<string, string | undefined>>({});
+  const [walkwayDraft, setWalkwayDraft] = useState<Point[]>([]);
+  const [draftCursor, setDraftCursor] = useState<Point | undefined>();
+  const [selectedWalkway, setSelectedWalkway] = useState<number | undefined>();
+
+  // Trips of every non-zero From-To cell, routed the way scoring routes them;
+  // cheapest first so the costliest flows draw on top
+  const flowRoutes = useMemo<FlowRoute[]>(() => {
+    if (!currentPlan || !canvasState.showFlows) return [];
+    return (routedFlows(currentPlan, currentRequest) ?? [])
+      .filter(({ path }) => path.points.length >= 2)
+      .map(({ from, to, moves, path: { distance, points } }) => ({ from, to, moves, distance, cost: moves * distance, points }))
+      .sort((a, b) => a.cost - b.cost);
+  }, [currentPlan, currentRequest, canvasState.showFlows]);
+  const totalFlowCost = flowRoutes.reduce((sum, r) => sum + r.cost, 0);
+
+  // Traffic heatmap: one pixel per routing cell, scaled up onto the floor
+  const traffic = useMemo(
+    () => currentPlan && canvasState.showTraffic ? computeTraffic(currentPlan, currentRequest) : undefined,
+    [currentPlan, currentRequest, canvasState.showTraffic]
+  );
+  // Shift replay: the simulation with every vehicle's legs recorded
+  const trace = useMemo(
+    () => currentPlan && canvasState.showPlayback
+      ? simulateShift(currentPlan, currentRequest, { trace: true })?.trace
+      : undefined,
+    [currentPlan, currentRequest, canvasState.showPlayback]
+  );
+  const vehicles = useMemo(
+    () => trace ? vehiclePositions(trace, Math.min(playbackTime, trace.duration)) : [],
+    [trace, playbackTime]
+  );
+
+  const trafficImage = useMemo(() => {
+    if (!traffic || traffic.peakLoad === 0) return undefined;
+    const canvas = document.createElement('canvas');
+    canvas.width = traffic.cols;
+    canvas.height = traffic.rows;
+    const ctx = canvas.getContext('2d')!;
+    const image = ctx.createImageData(traffic.cols, traffic.rows);
+    traffic.load.forEach((load, i) => {
+      if (load <= 0) return;
+      const [r, g, b, a] = trafficColor(load / traffic.limit);
+      image.data.set([r, g, b, a], i * 4);
+    });
+    ctx.putImageData(image, 0, 0);
+    return canvas;
+  }, [traffic]);
+
+  // Walking distance to the exits; narrow passages show in purple
+  const egressLimits = useMemo(() => egressLimitsFromRules(rules), [rules]);
+  const dockDesign = useMemo(() => dockDesignFromRules(rules), [rules]);
+  const egress = useMemo(
+    () => currentPlan && canvasState.showEgress ? computeEgress(currentPlan, currentRequest, egressLimits) : undefined,
+    [currentPlan, currentRequest, canvasState.showEgress, egressLimits]
+  );
+  // Walkway crossings of forklift aisles, marked on the canvas
+  const walkwayLimits = useMemo(() => walkwayLimitsFromRules(rules), [rules]);
+  const walkwayReport = useMemo(
+    () => currentPlan?.walkways?.length ? checkWalkways(currentPlan, currentRequest, walkwayLimits) : undefined,
+    [currentPlan, currentRequest, walkwayLimits]
+  );
+  // Swept paths of the site's forklift class at aisle corners and dead-ends
+  const turning = useMemo(
+    () => currentPlan && canvasState.showConstraints
+      ? checkTurning(currentPlan, currentRequest, vehicleProfilesFromRules(rules), turningDesignFromRules(rules))
+      : undefined,
+    [currentPlan, currentRequest, canvasState.showConstraints, rules]
+  );
+  const egressImage = useMemo(() => {
+    if (!egress) return undefined;
+    const canvas = document.createElement('canvas');
+    canvas.width = egress.cols;
+    canvas.height = egress.rows;
+    const ctx = canvas.getContext('2d')!;
+    const image = ctx.createImageData(egress.cols, egress.rows);
+    egress.distance.forEach((d, i) => {
+      if (d < 0) return;
+      const color = egress.narrow[i] ? [147, 51, 234, 150] : egressColor(d / egress.limits.maxTravelM);
+      image.data.set(color, i * 4);
+    });
+    ctx.putImageData(image, 0, 0);
+    return canvas;
+  }, [egress]);
 
   // Update stage size on window resize and sidebar changes
   useEffect(() => {
@@ -67,13 +279,51 @@ const CanvasPanel: React.FC = () => {
     };
   }, [isSidebarCollapsed, isChatSidebarCollapsed]);
 
-  // Animation loop for warehouse activity
+  // Playback clock for the simulated shift; stops at the end
   useEffect(() => {
+    if (!isPlaying || !trace) return;
     const interval = setInterval(() => {
-      setAnimationTime(prev => prev + 0.1);
+      setPlaybackTime(prev => Math.min(trace.duration, prev + 0.1 * playbackSpeed));
     }, 100);
     return () => clearInterval(interval);
-  }, []);
+  }, [isPlaying, playbackSpeed, trace]);
+
+  useEffect(() => {
+    if (isPlaying && trace && playbackTime >= trace.duration) setIsPlaying(false);
+  }, [isPlaying, playbackTime, trace]);
+
+  // Keyboard shortcuts: undo/redo and deleting the selection
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const mod = e.ctrlKey || e.metaKey;
+      const key = e.key.toLowerCase();
+      if (mod && key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo(); else undo();
+      } else if (mod && key === 'y') {
+        e.preventDefault();
+        redo();
+      } else if (canvasState.editWalkways && e.key === 'Enter') {
+        e.preventDefault();
+        finishWalkway();
+      } else if (canvasState.editWalkways && e.key === 'Escape') {
+        setWalkwayDraft([]);
+        setSelectedWalkway(undefined);
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && canvasState.editWalkways && selectedWalkway !== undefined) {
+        e.preventDefault();
+        removeWalkway(selectedWalkway);
+        setSelectedWalkway(undefined);
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && canvasState.selectedBlockIds.length > 0) {
+        e.preventDefault();
+        removeBlocks(canvasState.selectedBlockIds);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, removeBlocks, canvasState.selectedBlockIds, canvasState.editWalkways, selectedWalkway, removeWalkway, walkwayDraft]);
 
   const handleWheel = (e: any) => {
     e.evt.preventDefault();
@@ -100,7 +350,60 @@ const CanvasPanel: React.FC = () => {
     });
   };
 
+  // Pointer position on the floor in meters, on the grid when snapping
+  const floorPoint = (e: any): Point => {
+    const pointer = e.target.getStage().getRelativePointerPosition();
+    const point = { x: pointer.x / 20, y: pointer.y / 20 };
+    if (!canvasState.snapToGrid) return point;
+    return { x: snapToGrid(point.x, canvasState.gridSize), y: snapToGrid(point.y, canvasState.gridSize) };
+  };
+
+  // Next walkway point: straight across or down from the last one
+  const draftPoint = (e: any): Point => {
+    const point = floorPoint(e);
+    const last = walkwayDraft[walkwayDraft.length - 1];
+    return last ? orthogonalPoint(last, point) : point;
+  };
+
+  // A walkway needs two distinct points; repeated clicks add nothing
+  const finishWalkway = () => {
+    if (walkwayDraft.length >= 2) {
+      addWalkway({ polyline: walkwayDraft.map(p => [p.x, p.y] as [number, number]), widthM: DEFAULT_WALKWAY_WIDTH_M });
+    }
+    setWalkwayDraft([]);
+    setDraftCursor(undefined);
+  };
+
+  const handleStageMouseMove = (e: any) => {
+    if (canvasState.editWalkways && walkwayDraft.length > 0) setDraftCursor(draftPoint(e));
+  };
+
+  const handleStageDblClick = () => {
+    if (canvasState.editWalkways) finishWalkway();
+  };
+
   const handleStageClick = (e: any) => {
+    // While editing walkways a click adds a point to the one being drawn
+    if (canvasState.editWalkways && editedPlan && !isPreviewing) {
+      const point = draftPoint(e);
+      const last = walkwayDraft[walkwayDraft.length - 1];
+      if (!last || Math.hypot(point.x - last.x, point.y - last.y) > 1e-6) {
+        setWalkwayDraft([...walkwayDraft, point]);
+      }
+      setSelectedWalkway(undefined);
+      return;
+    }
+    // In the egress view a click by a wall places an exit there
+    const site = currentRequest.site;
+    if (canvasState.showEgress && site) {
+      const pointer = e.target.getStage().getRelativePointerPosition();
+      const point = { x: pointer.x / 20, y: pointer.y / 20 };
+      const toWall = Math.min(point.x, point.y, site.widthM - point.x, site.heightM - point.y);
+      if (Math.abs(toWall) <= EXIT_SNAP_M) {
+        addExit(nearestExitPlacement(site, point));
+        return;
+      }
+    }
     // If clicked on empty area, clear selection
     if (e.target === e.target.getStage()) {
       clearSelection();
@@ -108,6 +411,8 @@ const CanvasPanel: React.FC = () => {
   };
 
   const handleBlockClick = (blockId: string, e: any) => {
+    // Walkways are drawn over equipment too; let the stage take the click
+    if (canvasState.editWalkways) return;
     e.cancelBubble = true;
     
     if (e.evt.ctrlKey || e.evt.metaKey) {
@@ -124,6 +429,18 @@ const CanvasPanel: React.FC = () => {
     }
   };
 
+  // Turn the selected blocks 90° clockwise; their I/O points turn with them
+  const handleRotateSelection = () => {
+    if (!editedPlan || isPreviewing) return;
+    const selected = editedPlan.blocks.filter(b => canvasState.selectedBlockIds.includes(b.id));
+    if (selected.length === 0) return;
+    checkpointPlan();
+    selected.forEach(block => {
+      const { w, h, rot } = rotateBlock(block);
+      updateBlock(block.id, { w, h, rot });
+    });
+  };
+
   const handleBlockDragMove = (blockId: string, e: any) => {
     const { x, y } = e.target.position();
     // Convert pixels back to meters (20px per meter)
@@ -138,17 +455,12 @@ const CanvasPanel: React.FC = () => {
     const moving = currentPlan?.blocks.find(b => b.id === blockId);
     if (!currentPlan || !moving) return;
     const others = currentPlan.blocks.filter(b => b.id !== blockId).map(b => ({ x: b.x, y: b.y, w: b.w, h: b.h }));
-    const siteBounds = currentPlan.blocks.reduce((acc, block) => ({
-      minX: Math.min(acc.minX, block.x),
-      minY: Math.min(acc.minY, block.y),
-      maxX: Math.max(acc.maxX, block.x + block.w),
-      maxY: Math.max(acc.maxY, block.y + block.h)
-    }), { minX: 0, minY: 0, maxX: 100, maxY: 60 });
-    const site = { x: siteBounds.minX - 5, y: siteBounds.minY - 5, w: (siteBounds.maxX - siteBounds.minX) + 10, h: (siteBounds.maxY - siteBounds.minY) + 10 };
-    const pathMask = buildPathMask(currentPlan);
+    const site = getSiteRect(currentRequest.site, currentPlan.blocks);
+    const pathMask = buildPathMask(currentPlan.blocks, site, 0.25, currentPlan.walkways);
     const candidate = { x: snappedX, y: snappedY, w: moving.w, h: moving.h };
     const minAisle = 3.0;
-    const res = checkPlacementLegality(candidate, others, pathMask, { minAisle, site });
+    const obstructions = getSiteObstacles(currentRequest.site);
+    const res = checkPlacementLegality(candidate, others, pathMask, { minAisle, site, obstructions });
     setViolations(v => ({ ...v, [blockId]: res.ok ? undefined : res.reason }));
   };
 
@@ -165,19 +477,14 @@ const CanvasPanel: React.FC = () => {
       const moving = currentPlan.blocks.find(b => b.id === blockId);
       if (moving) {
         const others = currentPlan.blocks.filter(b => b.id !== blockId).map(b => ({ x: b.x, y: b.y, w: b.w, h: b.h }));
-        const siteBounds = currentPlan.blocks.reduce((acc, block) => ({
-          minX: Math.min(acc.minX, block.x),
-          minY: Math.min(acc.minY, block.y),
-          maxX: Math.max(acc.maxX, block.x + block.w),
-          maxY: Math.max(acc.maxY, block.y + block.h)
-        }), { minX: 0, minY: 0, maxX: 100, maxY: 60 });
-        const site = { x: siteBounds.minX - 5, y: siteBounds.minY - 5, w: (siteBounds.maxX - siteBounds.minX) + 10, h: (siteBounds.maxY - siteBounds.minY) + 10 };
-        const pathMask = buildPathMask(currentPlan);
+        const site = getSiteRect(currentRequest.site, currentPlan.blocks);
+        const pathMask = buildPathMask(currentPlan.blocks, site, 0.25, currentPlan.walkways);
         const minAisle = 3.0;
         const candidate = { x: snappedX, y: snappedY, w: moving.w, h: moving.h };
-        const legal = checkPlacementLegality(candidate, others, pathMask, { minAisle, site });
+        const obstructions = getSiteObstacles(currentRequest.site);
+        const legal = checkPlacementLegality(candidate, others, pathMask, { minAisle, site, obstructions });
         if (!legal.ok) {
-          const nudged = nudgeToNearestLegal(candidate, others, pathMask, { minAisle, site }, 20);
+          const nudged = nudgeToNearestLegal(candidate, others, pathMask, { minAisle, site, obstructions }, 20);
           updateBlock(blockId, { x: nudged.x, y: nudged.y });
           setViolations(v => ({ ...v, [blockId]: undefined }));
         } else {
@@ -192,6 +499,7 @@ const CanvasPanel: React.FC = () => {
   };
 
   const handleResizeStart = () => {
+    checkpointPlan();
     setIsResizing(true);
   };
 
@@ -270,6 +578,30 @@ const CanvasPanel: React.FC = () => {
     updateCanvasState({ showConstraints: !canvasState.showConstraints });
   };
 
+  const toggleFlows = () => {
+    updateCanvasState({ showFlows: !canvasState.showFlows });
+  };
+
+  const toggleTraffic = () => {
+    updateCanvasState({ showTraffic: !canvasState.showTraffic });
+  };
+
+  const toggleWalkways = () => {
+    setWalkwayDraft([]);
+    setDraftCursor(undefined);
+    setSelectedWalkway(undefined);
+    updateCanvasState({ editWalkways: !canvasState.editWalkways });
+  };
+
+  const toggleEgress = () => {
+    updateCanvasState({ showEgress: !canvasState.showEgress });
+  };
+
+  const togglePlayback = () => {
+    if (canvasState.showPlayback) setIsPlaying(false);
+    updateCanvasState({ showPlayback: !canvasState.showPlayback });
+  };
+
   // Helper function to ensure child elements are not draggable
   const makeNonDraggable = (element: any): any => {
     if (React.isValidElement(element)) {
@@ -321,7 +653,7 @@ const CanvasPanel: React.FC = () => {
 
   const renderWarehouseEquipment = (block: Block) => {
     const moduleInfo = MODULE_DEFINITIONS[block.key];
-    const isSelected = canvasState.selectedBlockIds.includes(block.id);
+    const isSelected = !isPreviewing && canvasState.selectedBlockIds.includes(block.id);
     
     // Convert meters to pixels (20px per meter)
     const pixelX = block.x * 20;
@@ -393,7 +725,7 @@ const CanvasPanel: React.FC = () => {
             );
           }
         }
-        // Crane system with animation
+        // Crane system
         equipment.push(
           <Line
             key="crane-rail"
@@ -404,8 +736,8 @@ const CanvasPanel: React.FC = () => {
             draggable={false}
           />
         );
-        // Animated crane position
-        const cranePosition = pixelW/2 + Math.sin(animationTime) * 50;
+        // Crane parked mid-rail
+        const cranePosition = pixelW/2;
         equipment.push(
           <Group key="crane-system" draggable={false}>
             <Rect
@@ -616,10 +948,10 @@ const CanvasPanel: React.FC = () => {
                 stroke="#374151"
                 strokeWidth={1}
               />
-              {/* Moving belt pattern */}
+              {/* Belt pattern */}
               <Line
                 points={[
-                  stationX - 5 + (animationTime * 10) % 20, pixelH/2,
+                  stationX - 5, pixelH/2,
                   stationX + 55, pixelH/2
                 ]}
                 stroke="#6b7280"
@@ -871,6 +1203,30 @@ const CanvasPanel: React.FC = () => {
       );
     }
 
+    // I/O points: arrows point the way material moves, circles go both ways
+    getIOPoints(block).forEach((point, index) => {
+      const px = (point.x - block.x) * 20;
+      const py = (point.y - block.y) * 20;
+      const [nx, ny] = SIDE_NORMALS[point.side];
+      const dir = point.kind === 'in' ? -1 : 1;
+      equipment.push(
+        <Group key={`io-${index}`}>
+          <Circle x={px} y={py} radius={5} fill="white" stroke={IO_COLORS[point.kind]} strokeWidth={2} />
+          {point.kind !== 'inout' && (
+            <Line
+              points={[
+                px + nx * dir * 10, py + ny * dir * 10,
+                px + ny * 5, py - nx * 5,
+                px - ny * 5, py + nx * 5
+              ]}
+              closed
+              fill={IO_COLORS[point.kind]}
+            />
+          )}
+        </Group>
+      );
+    });
+
     // Violation overlay
     if (violations[block.id]) {
       equipment.push(
@@ -900,10 +1256,13 @@ const CanvasPanel: React.FC = () => {
         key={block.id}
         x={pixelX}
         y={pixelY}
-        draggable
+        draggable={!isPreviewing}
         onClick={(e) => handleBlockClick(block.id, e)}
         onDragMove={(e) => handleBlockDragMove(block.id, e)}
-        onDragStart={() => setIsDragging(true)}
+        onDragStart={() => {
+          checkpointPlan();
+          setIsDragging(true);
+        }}
         onDragEnd={(e) => handleBlockDragEnd(block.id, e)}
       >
         {equipment.map(makeNonDraggable)}
@@ -919,18 +1278,12 @@ const CanvasPanel: React.FC = () => {
 
     const floorElements = [];
     
-    // Overall warehouse floor
-    const bounds = currentPlan.blocks.reduce((acc, block) => ({
-      minX: Math.min(acc.minX, block.x),
-      minY: Math.min(acc.minY, block.y),
-      maxX: Math.max(acc.maxX, block.x + block.w),
-      maxY: Math.max(acc.maxY, block.y + block.h)
-    }), { minX: 0, minY: 0, maxX: 100, maxY: 60 });
-
-    const floorW = (bounds.maxX - bounds.minX + 10) * 20;
-    const floorH = (bounds.maxY - bounds.minY + 10) * 20;
-    const floorX = (bounds.minX - 5) * 20;
-    const floorY = (bounds.minY - 5) * 20;
+    // Warehouse floor is the request's site (or the block extent as a fallback)
+    const site = getSiteRect(currentRequest.site, currentPlan.blocks);
+    const floorW = site.w * 20;
+    const floorH = site.h * 20;
+    const floorX = site.x * 20;
+    const floorY = site.y * 20;
 
     // Main warehouse floor
     floorElements.push(
@@ -971,25 +1324,147 @@ const CanvasPanel: React.FC = () => {
       );
     }
 
-    return floorElements;
-  };
+    // Building walls along the site boundary (only for a real site)
+    if (currentRequest.site) {
+      floorElements.push(
+        <Rect
+          key="site-walls"
+          x={floorX}
+          y={floorY}
+          width={floorW}
+          height={floorH}
+          stroke="#334155"
+          strokeWidth={6}
+          listening={false}
+        />
+      );
+    }
 
-  // Build a path mask from aisle blocks to prevent placement overlaps
-  const buildPathMask = (plan?: { blocks: Block[] }) => {
-    if (!plan) return new PathMask({ cellSize: 0.25, width: 200, height: 120 });
-    const bounds = plan.blocks.reduce((acc, block) => ({
-      minX: Math.min(acc.minX, block.x),
-      minY: Math.min(acc.minY, block.y),
-      maxX: Math.max(acc.maxX, block.x + block.w),
-      maxY: Math.max(acc.maxY, block.y + block.h)
-    }), { minX: 0, minY: 0, maxX: 100, maxY: 60 });
-    const mask = new PathMask({ cellSize: 0.25, width: (bounds.maxX - bounds.minX) + 20, height: (bounds.maxY - bounds.minY) + 20 });
-    for (const b of plan.blocks) {
-      if (b.key === 'aisle') {
-        mask.fillRect({ x: b.x, y: b.y, w: b.w, h: b.h }, 1);
+    // Exits as gaps in the wall; in the egress view a click removes one
+    (currentRequest.site?.exits || []).forEach(exit => {
+      const [a, b] = exitSegment(exit, currentRequest.site!);
+      const horizontal = exit.side === 'top' || exit.side === 'bottom';
+      const inward = exit.side === 'top' ? 1 : exit.side === 'left' ? 1 : -1;
+      floorElements.push(
+        <Group
+          key={`exit-${exit.id}`}
+          listening={canvasState.showEgress}
+          onClick={(e) => {
+            e.cancelBubble = true;
+            removeExit(exit.id);
+          }}
+        >
+          <Line
+            points={[a.x * 20, a.y * 20, b.x * 20, b.y * 20]}
+            stroke="#16a34a"
+            strokeWidth={10}
+            hitStrokeWidth={20}
+          />
+          <Text
+            x={(horizontal ? (a.x + b.x) / 2 * 20 - 20 : a.x * 20 + (inward > 0 ? 8 : -48))}
+            y={(horizontal ? a.y * 20 + (inward > 0 ? 8 : -20) : (a.y + b.y) / 2 * 20 - 6)}
+            width={40}
+            text="EXIT"
+            fontSize={11}
+            fontFamily="Inter, sans-serif"
+            fontStyle="bold"
+            fill="#16a34a"
+            align="center"
+          />
+        </Group>
+      );
+    });
+
+    // Dock doors in the wall with the truck apron outside each one
+    (currentRequest.site?.docks || []).forEach(door => {
+      const [a, b] = dockDoorSegment(door, currentRequest.site!);
+      const horizontal = door.side === 'top' || door.side === 'bottom';
+      const outward = door.side === 'top' || door.side === 'left' ? -1 : 1;
+      const color = MODULE_DEFINITIONS[door.role].color;
+      const apron = dockDesign.apronDepthM * 20;
+      const doorW = door.widthM * 20;
+      const apronX = horizontal ? a.x * 20 : outward > 0 ? a.x * 20 : a.x * 20 - apron;
+      const apronY = horizontal ? (outward > 0 ? a.y * 20 : a.y * 20 - apron) : a.y * 20;
+      floorElements.push(
+        <Group key={`dock-${door.id}`} listening={false}>
+          <Rect
+            x={apronX}
+            y={apronY}
+            width={horizontal ? doorW : apron}
+            height={horizontal ? apron : doorW}
+            stroke={color}
+            strokeWidth={1}
+            dash={[6, 4]}
+            opacity={0.6}
+          />
+          <Line
+            points={[a.x * 20, a.y * 20, b.x * 20, b.y * 20]}
+            stroke={color}
+            strokeWidth={10}
+          />
+          <Text
+            x={horizontal ? apronX : apronX + (apron - 40) / 2}
+            y={horizontal ? apronY + (apron - 12) / 2 : apronY + (doorW - 12) / 2}
+            width={horizontal ? doorW : 40}
+            text={door.role === 'inbound' ? 'IN' : 'OUT'}
+            fontSize={10}
+            fontFamily="Inter, sans-serif"
+            fontStyle="bold"
+            fill={color}
+            align="center"
+          />
+        </Group>
+      );
+    });
+
+    // Obstructions as hatched no-go zones
+    (currentRequest.site?.obstructions || []).forEach((o, index) => {
+      const ox = o.x * 20;
+      const oy = o.y * 20;
+      const ow = Math.max(o.w * 20, 2);
+      const oh = Math.max(o.h * 20, 2);
+      const hatchSpacing = 10;
+      const hatch = [];
+      for (let d = -oh; d < ow; d += hatchSpacing) {
+        hatch.push(
+          <Line
+            key={`hatch-${d}`}
+            points={[ox + d, oy + oh, ox + d + oh, oy]}
+            stroke="#dc2626"
+            strokeWidth={1}
+            opacity={0.5}
+          />
+        );
       }
-    }
-    return mask;
+      floorElements.push(
+        <Group key={`obstruction-${index}`} listening={false}>
+          <Rect x={ox} y={oy} width={ow} height={oh} fill="rgba(220,38,38,0.06)" />
+          <Group clipX={ox} clipY={oy} clipWidth={ow} clipHeight={oh}>
+            {hatch}
+          </Group>
+          <Rect x={ox} y={oy} width={ow} height={oh} stroke="#b91c1c" strokeWidth={1.5} />
+        </Group>
+      );
+    });
+
+    // Building columns
+    (currentRequest.site?.columns || []).forEach((c, index) => {
+      floorElements.push(
+        <Rect
+          key={`column-${index}`}
+          x={c.x * 20}
+          y={c.y * 20}
+          width={Math.max(c.w * 20, 4)}
+          height={Math.max(c.h * 20, 4)}
+          fill="#475569"
+          stroke="#1e293b"
+          strokeWidth={1}
+          listening={false}
+        />
+      );
+    });
+
+    return floorElements;
   };
 
   const renderCentralSpine = () => {
@@ -1093,263 +1568,349 @@ const CanvasPanel: React.FC = () => {
     return spineElements;
   };
 
+  // Approach lanes in front of each block's I/O points
   const renderEquipmentConnections = () => {
     if (!currentPlan) return null;
 
     const connections = [];
-    const bounds = currentPlan.blocks.reduce((acc, block) => ({
-      minX: Math.min(acc.minX, block.x),
-      minY: Math.min(acc.minY, block.y),
-      maxX: Math.max(acc.maxX, block.x + block.w),
-      maxY: Math.max(acc.maxY, block.y + block.h)
-    }), { minX: 0, minY: 0, maxX: 100, maxY: 60 });
+    const stubLength = 2; // meters of clear approach in front of the point
+    const stubWidth = 1.5;
 
-    const spineY = (bounds.minY + bounds.maxY) / 2;
-    const spineWidth = 3;
+    currentPlan.blocks.forEach((block) => {
+      getIOPoints(block).forEach((point, index) => {
+        const [nx, ny] = SIDE_NORMALS[point.side];
+        const endX = point.x + nx * stubLength;
+        const endY = point.y + ny * stubLength;
+        const key = `${block.id}-io-${index}`;
 
-    // Connect each equipment block to the central spine
-    currentPlan.blocks.forEach((block, index) => {
-      if (block.key === 'aisle') return; // Skip aisle blocks
+        connections.push(
+          <Rect
+            key={`connection-${key}`}
+            x={(Math.min(point.x, endX) - (nx === 0 ? stubWidth / 2 : 0)) * 20}
+            y={(Math.min(point.y, endY) - (ny === 0 ? stubWidth / 2 : 0)) * 20}
+            width={(nx === 0 ? stubWidth : stubLength) * 20}
+            height={(ny === 0 ? stubWidth : stubLength) * 20}
+            fill="#d1d5db"
+            stroke="#9ca3af"
+            strokeWidth={1}
+            opacity={0.8}
+          />
+        );
 
-      const blockCenterX = block.x + block.w / 2;
-      const blockCenterY = block.y + block.h / 2;
-      
-      // Determine connection point on spine
-      const spineConnectionX = blockCenterX;
-      const spineConnectionY = spineY;
-      
-      // Connection path from equipment to spine
-      const connectionWidth = 1.5; // 1.5m wide connection paths
-      
-      // Determine if equipment is above or below spine
-      const isAbove = blockCenterY < spineY;
-      const connectionY = isAbove ? 
-        (block.y + block.h) : // Connect from bottom of equipment if above spine
-        (block.y); // Connect from top of equipment if below spine
-      
-      // Perpendicular connection to spine
-      connections.push(
-        <Rect
-          key={`connection-${index}`}
-          x={(spineConnectionX - connectionWidth/2) * 20}
-          y={Math.min(connectionY, spineY - spineWidth/2) * 20}
-          width={connectionWidth * 20}
-          height={Math.abs(connectionY - (spineY - (isAbove ? spineWidth/2 : -spineWidth/2))) * 20}
-          fill="#d1d5db"
-          stroke="#9ca3af"
-          strokeWidth={1}
-          opacity={0.8}
-        />
-      );
+        // Connection markings
+        connections.push(
+          <Line
+            key={`connection-line-${key}`}
+            points={[point.x * 20, point.y * 20, endX * 20, endY * 20]}
+            stroke="#6b7280"
+            strokeWidth={2}
+            dash={[8, 4]}
+            opacity={0.6}
+          />
+        );
 
-      // Connection markings
-      connections.push(
-        <Line
-          key={`connection-line-${index}`}
-          points={[
-            spineConnectionX * 20, connectionY * 20,
-            spineConnectionX * 20, (spineY + (isAbove ? -spineWidth/2 : spineWidth/2)) * 20
-          ]}
-          stroke="#6b7280"
-          strokeWidth={2}
-          dash={[8, 4]}
-          opacity={0.6}
-        />
-      );
+        // Label at the end of the lane, e.g. "Dock door"
+        connections.push(
+          <Text
+            key={`connection-label-${key}`}
+            x={endX * 20 - 40}
+            y={endY * 20 + (ny < 0 ? -12 : ny > 0 ? 4 : -4)}
+            text={point.label}
+            fontSize={8}
+            fontFamily="Inter, sans-serif"
+            fontWeight="600"
+            fill="#374151"
+            align="center"
+            width={80}
+          />
+        );
+      });
+    });
 
-      // Entry/exit points with proper CAD-style symbols
-      const entryY = spineY + (isAbove ? -spineWidth/2 : spineWidth/2);
-      connections.push(
-        <Circle
-          key={`entry-point-${index}`}
-          x={spineConnectionX * 20}
-          y={entryY * 20}
-          radius={6}
-          fill="#059669"
-          stroke="#047857"
-          strokeWidth={2}
+    return connections;
+  };
+
+  // One arrow per material flow along the path it is scored on: thickness by
+  // moves/hour, colour by its share of the material handling cost
+  // Replayed vehicles: a body with its load square coloured by what it is doing
+  const renderVehicles = () => {
+    if (!canvasState.showPlayback) return null;
+    return vehicles.map((vehicle, i) => (
+      <Group key={`vehicle-${i}`} x={vehicle.x * 20} y={vehicle.y * 20} listening={false}>
+        <Rect
+          x={-10}
+          y={-10}
+          width={20}
+          height={20}
+          fill="#1f2937"
+          stroke="#ffffff"
+          strokeWidth={1.5}
+          cornerRadius={4}
+          shadowColor="black"
+          shadowBlur={4}
+          shadowOpacity={0.3}
         />
-      );
+        <Rect
+          x={-6}
+          y={-6}
+          width={12}
+          height={12}
+          fill={VEHICLE_STATE_COLORS[vehicle.state]}
+          cornerRadius={2}
+        />
+      </Group>
+    ));
+  };
 
-      // Equipment ID labels at connection points
-      connections.push(
-        <Group key={`connection-label-${index}`}>
+  const renderFlowArrows = () => {
+    if (flowRoutes.length === 0) return null;
+    const maxMoves = Math.max(...flowRoutes.map(r => r.moves));
+    const maxCost = Math.max(...flowRoutes.map(r => r.cost), 1e-9);
+
+    return flowRoutes.map(route => {
+      const color = flowCostColor(route.cost / maxCost);
+      const width = 2 + 8 * route.moves / maxMoves;
+      const mid = polylineMidpoint(route.points);
+      const label = `${formatNumber(route.moves, 0)}/h · ${formatNumber(route.distance, 0)} m`;
+      return (
+        <Group key={`flow-${route.from.id}-${route.to.id}`} listening={false}>
+          <Arrow
+            points={route.points.flatMap(p => [p.x * 20, p.y * 20])}
+            stroke={color}
+            fill={color}
+            strokeWidth={width}
+            pointerLength={8 + width}
+            pointerWidth={8 + width}
+            lineCap="round"
+            lineJoin="round"
+            opacity={0.75}
+          />
           <Rect
-            x={(spineConnectionX - 1) * 20}
-            y={(connectionY + (isAbove ? -1.5 : 0.5)) * 20}
-            width={40}
+            x={mid.x * 20 - 40}
+            y={mid.y * 20 - 8}
+            width={80}
             height={16}
-            fill="white"
-            stroke="#6b7280"
+            fill="rgba(255, 255, 255, 0.95)"
+            stroke={color}
             strokeWidth={1}
-            cornerRadius={4}
-            opacity={0.95}
+            cornerRadius={8}
           />
           <Text
-            x={spineConnectionX * 20}
-            y={(connectionY + (isAbove ? -1 : 1)) * 20}
-            text={block.key.toUpperCase()}
-            fontSize={8}
+            x={mid.x * 20 - 40}
+            y={mid.y * 20 - 4}
+            text={label}
+            fontSize={9}
             fontFamily="Inter, sans-serif"
             fontWeight="600"
-            fill="#374151"
+            fill={color}
             align="center"
-            width={40}
+            width={80}
           />
         </Group>
       );
     });
+  };
 
-    return connections;
+  // Load per routing cell, with segments over the aisle load limit outlined
+  // Walkways as yellow corridors at their width; marked ones carry a dashed
+  // centre line.  While editing, a click on one selects it.
+  const renderWalkways = () => {
+    if (!currentPlan?.walkways?.length) return null;
+    return currentPlan.walkways.map((walkway, index) => {
+      const points = walkway.polyline.flatMap(([x, y]) => [x * 20, y * 20]);
+      const selected = canvasState.editWalkways && selectedWalkway === index;
+      return (
+        <Group
+          key={`walkway-${index}`}
+          listening={canvasState.editWalkways && !isPreviewing}
+          onClick={(e) => {
+            if (walkwayDraft.length > 0) return;
+            e.cancelBubble = true;
+            setSelectedWalkway(index);
+          }}
+        >
+          <Line
+            points={points}
+            stroke={selected ? '#eab308' : '#fde047'}
+            strokeWidth={walkwayWidth(walkway) * 20}
+            opacity={selected ? 0.8 : 0.55}
+            lineCap="square"
+            lineJoin="miter"
+          />
+          {walkway.marked && (
+            <Line
+              points={points}
+              stroke="#a16207"
+              strokeWidth={1.5}
+              dash={[8, 6]}
+              listening={false}
+            />
+          )}
+        </Group>
+      );
+    });
   };
 
-  const renderSpineFlowPaths = () => {
-    if (!currentPlan || !canvasState.showConstraints) return null;
+  // Aisle crossings, the walkway being drawn and the draggable points of
+  // the selected walkway
+  const renderWalkwayOverlay = () => {
+    const elements: React.ReactNode[] = [];
 
-    const paths = [];
-    const bounds = currentPlan.blocks.reduce((acc, block) => ({
-      minX: Math.min(acc.minX, block.x),
-      minY: Math.min(acc.minY, block.y),
-      maxX: Math.max(acc.maxX, block.x + block.w),
-      maxY: Math.max(acc.maxY, block.y + block.h)
-    }), { minX: 0, minY: 0, maxX: 100, maxY: 60 });
+    walkwayReport?.crossings.forEach((crossing, i) => {
+      elements.push(
+        <Group key={`walkway-crossing-${i}`} x={crossing.at.x * 20} y={crossing.at.y * 20} listening={false}>
+          <Circle radius={9} fill="#ffffff" stroke="#dc2626" strokeWidth={2} />
+          <Text x={-9} y={-5} width={18} text="!" fontSize={11} fontStyle="bold" fill="#dc2626" align="center" />
+        </Group>
+      );
+    });
 
-    const spineY = (bounds.minY + bounds.maxY) / 2;
-    
-    // Define material flow sequences along the spine
-    const flowSequences = [
-      {
-        path: ['inbound', 'depalletizer', 'pallet_asrs'],
-        color: '#3b82f6',
-        width: 6,
-        label: 'Pallet Flow',
-        direction: 1 // Left to right
-      },
-      {
-        path: ['tote_asrs', 'gtp', 'picking'],
-        color: '#f59e0b',
-        width: 4,
-        label: 'Tote Flow',
-        direction: 1
-      },
-      {
-        path: ['picking', 'consolidation', 'palletizer'],
-        color: '#8b5cf6',
-        width: 5,
-        label: 'Order Flow',
-        direction: 1
-      }
-    ];
+    if (canvasState.editWalkways && walkwayDraft.length > 0) {
+      const points = [...walkwayDraft, ...(draftCursor ? [draftCursor] : [])].flatMap(p => [p.x * 20, p.y * 20]);
+      elements.push(
+        <Line
+          key="walkway-draft"
+          points={points}
+          stroke="#ca8a04"
+          strokeWidth={DEFAULT_WALKWAY_WIDTH_M * 20}
+          opacity={0.4}
+          lineCap="square"
+          listening={false}
+        />
+      );
+    }
 
-    flowSequences.forEach((sequence, seqIndex) => {
-      for (let i = 0; i < sequence.path.length - 1; i++) {
-        const fromBlock = currentPlan.blocks.find(b => b.key === sequence.path[i]);
-        const toBlock = currentPlan.blocks.find(b => b.key === sequence.path[i + 1]);
-        
-        if (fromBlock && toBlock) {
-          const fromX = (fromBlock.x + fromBlock.w / 2) * 20;
-          const toX = (toBlock.x + toBlock.w / 2) * 20;
-          
-          // Create path along the spine
-          const pathY = spineY * 20 + (seqIndex - 1) * 8; // Offset different flows vertically
-          
-          // Spine segment path
-          paths.push(
-            <Line
-              key={`spine-flow-${seqIndex}-${i}`}
-              points={[fromX, pathY, toX, pathY]}
-              stroke={sequence.color}
-              strokeWidth={sequence.width}
-              opacity={0.7}
-              lineCap="round"
-              dash={[20, 10]}
-              dashOffset={-animationTime * 30}
-            />
-          );
+    const walkway = selectedWalkway !== undefined ? editedPlan?.walkways?.[selectedWalkway] : undefined;
+    if (canvasState.editWalkways && walkway && !isPreviewing) {
+      walkway.polyline.forEach(([x, y], i) => {
+        elements.push(
+          <Circle
+            key={`walkway-point-${i}`}
+            x={x * 20}
+            y={y * 20}
+            radius={6}
+            fill="#ffffff"
+            stroke="#a16207"
+            strokeWidth={2}
+            draggable
+            onDragStart={(e) => {
+              e.cancelBubble = true;
+              checkpointPlan();
+            }}
+            onDragMove={(e) => {
+              e.cancelBubble = true;
+              const mx = e.target.x() / 20;
+              const my = e.target.y() / 20;
+              const point: [number, number] = canvasState.snapToGrid
+                ? [snapToGrid(mx, canvasState.gridSize), snapToGrid(my, canvasState.gridSize)]
+                : [mx, my];
+              updateWalkway(selectedWalkway!, {
+                polyline: walkway.polyline.map((p, j) => (j === i ? point : p)),
+              });
+            }}
+            onDragEnd={(e) => {
+              e.cancelBubble = true;
+            }}
+          />
+        );
+      });
+    }
 
-          // Flow direction arrows
-          const midX = (fromX + toX) / 2;
-          paths.push(
-            <Group key={`spine-arrow-${seqIndex}-${i}`}>
-              <Line
-                points={[
-                  midX - 10, pathY - 5,
-                  midX + 10, pathY,
-                  midX - 10, pathY + 5
-                ]}
-                stroke={sequence.color}
-                strokeWidth={sequence.width - 1}
-                opacity={0.9}
-                lineCap="round"
-                lineJoin="round"
+    return elements;
+  };
+
+  const renderEgressOverlay = () => {
+    if (!egress || !egressImage) return null;
+    const cell = egress.cellSize * 20;
+    const outline = (zone: typeof egress.farZones[number], key: string, color: string, label: string) => (
+      <Group key={key}>
+        <Rect
+          x={zone.bounds.x * 20}
+          y={zone.bounds.y * 20}
+          width={zone.bounds.w * 20}
+          height={zone.bounds.h * 20}
+          stroke={color}
+          strokeWidth={2}
+          dash={[6, 4]}
+          cornerRadius={4}
+        />
+        <Text
+          x={zone.bounds.x * 20}
+          y={zone.bounds.y * 20 - 14}
+          text={label}
+          fontSize={10}
+          fontFamily="Inter, sans-serif"
+          fontWeight="600"
+          fill={color}
+        />
+      </Group>
+    );
+    return (
+      <Group listening={false}>
+        <KonvaImage
+          image={egressImage}
+          x={0}
+          y={0}
+          width={egress.cols * cell}
+          height={egress.rows * cell}
+        />
+        {egress.farZones.map((zone, i) => outline(
+          zone,
+          `egress-far-${i}`,
+          '#dc2626',
+          zone.worst === Infinity ? 'no exit' : `${formatNumber(zone.worst, 0)} m`
+        ))}
+        {egress.narrowZones.map((zone, i) => outline(zone, `egress-narrow-${i}`, '#9333ea', `${formatNumber(zone.worst, 1)} m wide`))}
+      </Group>
+    );
+  };
+
+  const renderTrafficHeatmap = () => {
+    if (!traffic || !trafficImage) return null;
+    const cell = traffic.cellSize * 20;
+    return (
+      <Group listening={false}>
+        <KonvaImage
+          image={trafficImage}
+          x={0}
+          y={0}
+          width={traffic.cols * cell}
+          height={traffic.rows * cell}
+        />
+        {traffic.overloads.map((segment, i) => {
+          const { x, y, w, h } = segment.bounds;
+          return (
+            <Group key={`overload-${i}`}>
+              <Rect
+                x={x * 20}
+                y={y * 20}
+                width={w * 20}
+                height={h * 20}
+                stroke="#dc2626"
+                strokeWidth={2}
+                dash={[6, 4]}
+                cornerRadius={4}
+              />
+              <Text
+                x={x * 20}
+                y={y * 20 - 14}
+                text={`${formatNumber(segment.peakLoad, 0)}/h`}
+                fontSize={10}
+                fontFamily="Inter, sans-serif"
+                fontWeight="600"
+                fill="#dc2626"
               />
             </Group>
           );
-
-          // Moving materials along spine
-          const t = (animationTime + seqIndex * 2 + i) % 8 / 8;
-          const materialX = fromX + t * (toX - fromX);
-          paths.push(
-            <Circle
-              key={`spine-material-${seqIndex}-${i}`}
-              x={materialX}
-              y={pathY}
-              radius={sequence.width - 2}
-              fill={sequence.color}
-              opacity={0.8}
-              shadowBlur={4}
-              shadowColor={sequence.color}
-            />
-          );
-        }
-      }
-
-      // Flow sequence label
-      const firstBlock = currentPlan.blocks.find(b => b.key === sequence.path[0]);
-      const lastBlock = currentPlan.blocks.find(b => b.key === sequence.path[sequence.path.length - 1]);
-      
-      if (firstBlock && lastBlock) {
-        const labelX = ((firstBlock.x + lastBlock.x + lastBlock.w) / 2) * 20;
-        const labelY = spineY * 20 + (seqIndex - 1) * 8 - 15;
-        
-        paths.push(
-          <Group key={`spine-label-${seqIndex}`}>
-            <Rect
-              x={labelX - 30}
-              y={labelY - 8}
-              width={60}
-              height={16}
-              fill="rgba(255, 255, 255, 0.95)"
-              stroke={sequence.color}
-              strokeWidth={1}
-              cornerRadius={8}
-            />
-            <Text
-              x={labelX}
-              y={labelY - 2}
-              text={sequence.label}
-              fontSize={9}
-              fontFamily="Inter, sans-serif"
-              fontWeight="600"
-              fill={sequence.color}
-              align="center"
-              width={60}
-            />
-          </Group>
-        );
-      }
-    });
-
-    return paths;
+        })}
+      </Group>
+    );
   };
 
   const renderConstraints = () => {
     if (!currentPlan || !canvasState.showConstraints) return null;
 
     const constraints = [];
-    
-    // Include spine flow paths
-    constraints.push(...renderSpineFlowPaths());
 
     // Safety zones and clearances
     currentPlan.blocks.forEach((block, index) => {
@@ -1357,33 +1918,6 @@ const CanvasPanel: React.FC = () => {
         const pixelX = block.x * 20;
         const pixelY = block.y * 20;
         const pixelW = block.w * 20;
-        const pixelH = block.h * 20;
-        
-        // Forklift turning radius indicators
-        constraints.push(
-          <Circle
-            key={`turn-radius-start-${index}`}
-            x={pixelX + 30}
-            y={pixelY + pixelH/2}
-            radius={25}
-            stroke="#fbbf24"
-            strokeWidth={2}
-            dash={[8, 4]}
-            opacity={0.5}
-          />
-        );
-        constraints.push(
-          <Circle
-            key={`turn-radius-end-${index}`}
-            x={pixelX + pixelW - 30}
-            y={pixelY + pixelH/2}
-            radius={25}
-            stroke="#fbbf24"
-            strokeWidth={2}
-            dash={[8, 4]}
-            opacity={0.5}
-          />
-        );
         
         // Speed limit zones
         constraints.push(
@@ -1425,6 +1959,44 @@ const CanvasPanel: React.FC = () => {
       }
     });
 
+    // Swept path at each aisle corner, red where equipment or a wall cuts
+    // into it; dead-ends too narrow to turn around in
+    turning?.corners.forEach((corner, i) => {
+      const [sx, sy] = corner.toward;
+      constraints.push(
+        <Arc
+          key={`turn-corner-${i}`}
+          x={corner.at.x * 20}
+          y={corner.at.y * 20}
+          innerRadius={0}
+          outerRadius={turning.requiredM * 20}
+          angle={90}
+          rotation={sx > 0 ? (sy > 0 ? 0 : 270) : (sy > 0 ? 90 : 180)}
+          fill={corner.ok ? undefined : '#dc2626'}
+          opacity={corner.ok ? 0.5 : 0.3}
+          stroke={corner.ok ? '#fbbf24' : '#dc2626'}
+          strokeWidth={2}
+          dash={corner.ok ? [8, 4] : undefined}
+          listening={false}
+        />
+      );
+    });
+    turning?.deadEnds.filter(end => !end.ok).forEach((end, i) => {
+      constraints.push(
+        <Circle
+          key={`turn-dead-end-${i}`}
+          x={end.at.x * 20}
+          y={end.at.y * 20}
+          radius={turning.requiredM * 20}
+          stroke="#dc2626"
+          strokeWidth={2}
+          dash={[8, 4]}
+          opacity={0.6}
+          listening={false}
+        />
+      );
+    });
+
     return constraints;
   };
 
@@ -1520,6 +2092,108 @@ const CanvasPanel: React.FC = () => {
             </TooltipTrigger>
             <TooltipContent>Show Constraints & Paths</TooltipContent>
           </Tooltip>
+
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant={canvasState.showFlows ? "default" : "ghost"}
+                size="sm"
+                onClick={toggleFlows}
+                className="h-8 w-8 p-0"
+              >
+                <Waypoints className="w-4 h-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Show Material Flows</TooltipContent>
+          </Tooltip>
+
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant={canvasState.showTraffic ? "default" : "ghost"}
+                size="sm"
+                onClick={toggleTraffic}
+                className="h-8 w-8 p-0"
+              >
+                <Flame className="w-4 h-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Show Traffic Heatmap</TooltipContent>
+          </Tooltip>
+
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant={canvasState.editWalkways ? "default" : "ghost"}
+                size="sm"
+                onClick={toggleWalkways}
+                className="h-8 w-8 p-0"
+              >
+                <Footprints className="w-4 h-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Edit Walkways (click to add points, double-click or Enter to finish)</TooltipContent>
+          </Tooltip>
+
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant={canvasState.showEgress ? "default" : "ghost"}
+                size="sm"
+                onClick={toggleEgress}
+                className="h-8 w-8 p-0"
+              >
+                <DoorOpen className="w-4 h-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Egress Distances (click a wall to add an exit)</TooltipContent>
+          </Tooltip>
+
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant={canvasState.showPlayback ? "default" : "ghost"}
+                size="sm"
+                onClick={togglePlayback}
+                className="h-8 w-8 p-0"
+              >
+                <Truck className="w-4 h-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Replay Simulated Shift</TooltipContent>
+          </Tooltip>
+
+          <div className="w-px h-6 bg-border/50" />
+
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={undo}
+                disabled={planHistory.past.length === 0}
+                className="h-8 w-8 p-0"
+              >
+                <Undo2 className="w-4 h-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Undo (Ctrl+Z)</TooltipContent>
+          </Tooltip>
+
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={redo}
+                disabled={planHistory.future.length === 0}
+                className="h-8 w-8 p-0"
+              >
+                <Redo2 className="w-4 h-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Redo (Ctrl+Shift+Z)</TooltipContent>
+          </Tooltip>
         </div>
 
         {canvasState.selectedBlockIds.length > 0 && (
@@ -1532,6 +2206,7 @@ const CanvasPanel: React.FC = () => {
               variant="ghost"
               size="sm"
               className="h-8 w-8 p-0"
+              onClick={handleRotateSelection}
             >
               <RotateCw className="w-4 h-4" />
             </Button>
@@ -1548,6 +2223,7 @@ const CanvasPanel: React.FC = () => {
               variant="ghost"
               size="sm"
               className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+              onClick={() => removeBlocks(canvasState.selectedBlockIds)}
             >
               <Trash2 className="w-4 h-4" />
             </Button>
@@ -1571,9 +2247,120 @@ const CanvasPanel: React.FC = () => {
             <span className="text-muted-foreground">Score:</span>
             <span className="font-medium">{currentPlan?.score.toFixed(2) || '0.00'}</span>
           </div>
+          {flowRoutes.length > 0 && (
+            <div className="flex justify-between space-x-3">
+              <span className="text-muted-foreground">MHC:</span>
+              <span className="font-medium">{formatNumber(totalFlowCost, 0)} m/h</span>
+            </div>
+          )}
         </div>
       </motion.div>
 
+      {/* Optimizer Progress */}
+      {optimizationProgress && (
+        <motion.div
+          initial={{ y: 50, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 w-80"
+        >
+          <div className="bg-card/90 backdrop-blur-sm rounded-lg border border-border/50 p-3 text-xs space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">
+                {isParetoRun ? 'Generation' : 'Optimizing'} {optimizationProgress.iteration}/{optimizationProgress.iterations}
+                {!isParetoRun && (
+                  <span className="text-muted-foreground font-normal"> · run {optimizationProgress.restart + 1}</span>
+                )}
+              </span>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant={canvasState.showOptimizerPreview ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => updateCanvasState({ showOptimizerPreview: !canvasState.showOptimizerPreview })}
+                    className="h-6 w-6 p-0"
+                  >
+                    {canvasState.showOptimizerPreview ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Preview best layout so far</TooltipContent>
+              </Tooltip>
+            </div>
+            <Progress value={optimizationProgress.iteration / optimizationProgress.iterations * 100} className="h-1.5" />
+            <div className="grid grid-cols-3 gap-2 text-muted-foreground">
+              <div>Current <span className="font-medium text-foreground">{optimizationProgress.currentScore.toFixed(2)}</span></div>
+              <div>Best <span className="font-medium text-foreground">{optimizationProgress.bestScore.toFixed(2)}</span></div>
+              <div>{isParetoRun ? 'Front' : 'Accepted'} <span className="font-medium text-foreground">{optimizationProgress.acceptedMoves}</span></div>
+            </div>
+          </div>
+        </motion.div>
+      )}
+
+      {/* Shift Playback */}
+      {canvasState.showPlayback && (
+        <motion.div
+          initial={{ y: 50, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          className="absolute bottom-4 left-4 z-10 w-96"
+        >
+          <div className="bg-card/90 backdrop-blur-sm rounded-lg border border-border/50 p-3 text-xs space-y-2">
+            {trace ? (
+              <>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      if (!isPlaying && playbackTime >= trace.duration) setPlaybackTime(0);
+                      setIsPlaying(!isPlaying);
+                    }}
+                    className="h-6 w-6 p-0"
+                  >
+                    {isPlaying ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+                  </Button>
+                  <input
+                    type="range"
+                    min={0}
+                    max={trace.duration}
+                    step={60}
+                    value={Math.min(playbackTime, trace.duration)}
+                    onChange={(e) => setPlaybackTime(Number(e.target.value))}
+                    className="flex-1"
+                  />
+                  <span className="font-mono font-medium w-10 text-right">
+                    {shiftClock(trace.startHour, Math.min(playbackTime, trace.duration))}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-1">
+                    {PLAYBACK_SPEEDS.map(speed => (
+                      <Button
+                        key={speed}
+                        variant={playbackSpeed === speed ? "default" : "ghost"}
+                        size="sm"
+                        onClick={() => setPlaybackSpeed(speed)}
+                        className="h-5 px-1.5 text-[10px]"
+                      >
+                        {speed}×
+                      </Button>
+                    ))}
+                  </div>
+                  <div className="flex items-center space-x-2 text-muted-foreground">
+                    {(['empty', 'loaded', 'loading', 'blocked', 'idle'] as const).map(state => (
+                      <div key={state} className="flex items-center space-x-1">
+                        <div className="w-2 h-2 rounded-sm" style={{ backgroundColor: VEHICLE_STATE_COLORS[state] }} />
+                        <span>{state}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </>
+            ) : (
+              <span className="text-muted-foreground">Set throughput or enter flows to replay a shift</span>
+            )}
+          </div>
+        </motion.div>
+      )}
+
       {/* Main Canvas */}
       <Stage
         ref={stageRef}
@@ -1585,6 +2372,8 @@ const CanvasPanel: React.FC = () => {
         y={canvasState.pan.y}
         onWheel={handleWheel}
         onClick={handleStageClick}
+        onDblClick={handleStageDblClick}
+        onMouseMove={handleStageMouseMove}
         draggable={!isDragging && !isResizing}
       >
         <Layer>
@@ -1602,12 +2391,30 @@ const CanvasPanel: React.FC = () => {
           
           {/* Constraints and Flow Paths */}
           {renderConstraints()}
+
+          {/* Traffic Heatmap */}
+          {renderTrafficHeatmap()}
+
+          {/* Egress distances */}
+          {renderEgressOverlay()}
           
           {/* Rulers */}
           {renderRulers()}
           
+          {/* Pedestrian walkways */}
+          {renderWalkways()}
+
           {/* Equipment */}
           {currentPlan?.blocks.map(renderBlock)}
+
+          {/* Material flows */}
+          {renderFlowArrows()}
+
+          {/* Simulated vehicles */}
+          {renderVehicles()}
+
+          {/* Walkway crossings and editing */}
+          {renderWalkwayOverlay()}
         </Layer>
       </Stage>
 
@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useAppStore } from '@/lib/store';
+import { useRules } from '@/lib/use-rules';
+import {
+  checkDocks,
+  deepenStaging,
+  dockDesignFromRules,
+  layoutDockDoors,
+  suggestedDockWall,
+} from '@/lib/docks';
+import { BlockSide, DockRole } from '@/lib/types';
+import { formatNumber } from '@/lib/utils';
+
+const WALLS: Array<{ key: BlockSide; label: string }> = [
+  { key: 'top', label: 'Top' },
+  { key: 'right', label: 'Right' },
+  { key: 'bottom', label: 'Bottom' },
+  { key: 'left', label: 'Left' },
+];
+
+const ROLE_LABELS: Record<DockRole, string> = {
+  inbound: 'Inbound',
+  outbound: 'Outbound',
+};
+
+// Dock doors each dock needs for its pallet rate, laid out along a chosen
+// wall, and whether the staging behind them is deep and large enough
+const DockCard: React.FC = () => {
+  const { currentPlan, currentRequest, setDockDoors, removeDockDoor, updateBlock, checkpointPlan } = useAppStore();
+  const rules = useRules();
+  const design = useMemo(() => dockDesignFromRules(rules), [rules]);
+  const [walls, setWalls] = useState<Partial<Record<DockRole, BlockSide>>>({});
+
+  const report = useMemo(
+    () => (currentPlan ? checkDocks(currentPlan, currentRequest, design) : undefined),
+    [currentPlan, currentRequest, design]
+  );
+
+  if (!currentPlan || !report) return null;
+
+  const site = currentRequest.site;
+  const wallFor = (role: DockRole) => walls[role] ?? suggestedDockWall(currentPlan, role);
+
+  const layOut = (role: DockRole, count: number) => {
+    if (!site) return;
+    setDockDoors(role, layoutDockDoors(site, currentPlan, role, wallFor(role), count, design));
+  };
+
+  const deepen = (blockId: string) => {
+    const block = currentPlan.blocks.find(b => b.id === blockId);
+    const dock = report.docks.find(d => d.role === block?.key);
+    if (!block || !dock) return;
+    checkpointPlan();
+    updateBlock(block.id, deepenStaging(block, dock.stagingDepthM));
+  };
+
+  const placed = report.docks.reduce((sum, d) => sum + d.placed, 0);
+  const required = report.docks.reduce((sum, d) => sum + d.required, 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.25 }}
+    >
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">Dock Doors</CardTitle>
+            {required > 0 && (
+              <Badge variant={placed >= required ? 'success' : 'warning'} className="text-xs">
+                {placed}/{required} doors
+              </Badge>
+            )}
+          </div>
+          <CardDescription>
+            {required > 0
+              ? `${formatNumber(design.palletsPerDoorPerH, 0)} pallets/h per door, ${formatNumber(design.doorWidthM, 1)} m doors at ${formatNumber(design.doorSpacingM, 1)} m spacing`
+              : 'Set inbound or outbound pallet rates to size the docks'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {report.docks.filter(dock => dock.rate > 0).map(dock => (
+            <div key={dock.role} className="space-y-2">
+              <div className="flex items-center justify-between text-xs">
+                <span className="font-medium">{ROLE_LABELS[dock.role]}</span>
+                <span className="text-muted-foreground">
+                  {formatNumber(dock.rate, 0)} pallets/h · {dock.placed} of {dock.required} doors
+                </span>
+              </div>
+              <div className="flex items-center justify-between text-xs">
+                <div className="flex items-center space-x-1">
+                  {WALLS.map(({ key, label }) => (
+                    <Button
+                      key={key}
+                      variant={wallFor(dock.role) === key ? 'default' : 'outline'}
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => setWalls(current => ({ ...current, [dock.role]: key }))}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+                <div className="flex items-center space-x-1">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-6 text-xs"
+                    disabled={!site}
+                    onClick={() => layOut(dock.role, dock.required)}
+                    title={site ? 'Lay out the doors along the chosen wall' : 'Set a site to place doors on its walls'}
+                  >
+                    Lay out
+                  </Button>
+                  {dock.placed > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => setDockDoors(dock.role, [])}
+                      title="Remove these doors"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <div className="flex justify-between text-xs">
+                <span className="text-muted-foreground">Staging depth / area needed</span>
+                <span className="font-medium">
+                  {formatNumber(dock.stagingDepthM, 1)} m / {formatNumber(dock.stagingAreaM2, 0)} m²
+                </span>
+              </div>
+            </div>
+          ))}
+
+          {(site?.docks ?? []).length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {site!.docks!.map((door, i) => (
+                <Badge
+                  key={door.id}
+                  variant="outline"
+                  className="text-xs cursor-pointer"
+                  onClick={() => removeDockDoor(door.id)}
+                  title="Remove this door"
+                >
+                  D{i + 1} {door.role === 'inbound' ? 'in' : 'out'} · {door.side} {formatNumber(door.offset, 1)} m
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {report.findings.map(finding => (
+            <div key={finding.id} className="flex items-start space-x-3 p-3 rounded-lg bg-muted/30">
+              <div className="w-6 h-6 rounded-full flex items-center justify-center text-safety-600 bg-safety-100">
+                <AlertTriangle className="w-3 h-3" />
+              </div>
+              <div className="flex-1">
+                <p className="text-sm font-medium text-foreground">{finding.message}</p>
+                <p className="text-xs text-muted-foreground mt-1">{finding.suggestion}</p>
+              </div>
+              {finding.blockId && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-6 text-xs"
+                  onClick={() => deepen(finding.blockId!)}
+                >
+                  Deepen
+                </Button>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default DockCard;
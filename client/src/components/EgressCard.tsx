@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, DoorOpen, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { useAppStore } from '@/lib/store';
+import { useRules } from '@/lib/use-rules';
+import { computeEgress, egressFindings, egressLimitsFromRules } from '@/lib/egress';
+import { formatNumber } from '@/lib/utils';
+
+// Walking distance to the nearest exit from every point of the floor, the
+// exits themselves, and the floor that is too far out or too narrow
+const EgressCard: React.FC = () => {
+  const { currentPlan, currentRequest, updateExit, removeExit, canvasState, updateCanvasState } = useAppStore();
+  const rules = useRules();
+  const limits = useMemo(() => egressLimitsFromRules(rules), [rules]);
+  const exits = currentRequest.site?.exits ?? [];
+
+  const egress = useMemo(
+    () => (currentPlan ? computeEgress(currentPlan, currentRequest, limits) : undefined),
+    [currentPlan, currentRequest, limits]
+  );
+
+  if (!currentPlan) return null;
+
+  const commitWidth = (exitId: string, current: number, raw: string) => {
+    const value = Number(raw.trim());
+    if (!Number.isFinite(value) || value <= 0 || value === current) return;
+    updateExit(exitId, { widthM: value });
+  };
+
+  const overLimit = !!egress && (egress.farZones.length > 0 || egress.blockedExits.length > 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.25 }}
+    >
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">Emergency Egress</CardTitle>
+            <div className="flex items-center space-x-2">
+              {egress && (
+                <Badge variant={overLimit ? 'destructive' : 'success'} className="text-xs">
+                  {egress.farZones.some(z => z.worst === Infinity)
+                    ? 'Cut off'
+                    : `Max ${formatNumber(egress.maxDistance, 0)} m`}
+                </Badge>
+              )}
+              <Button
+                variant={canvasState.showEgress ? 'default' : 'ghost'}
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => updateCanvasState({ showEgress: !canvasState.showEgress })}
+                title="Show egress on the canvas and place exits"
+              >
+                <DoorOpen className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+          <CardDescription>
+            {!currentRequest.site
+              ? 'Set a site to place exits on its walls'
+              : egress?.toWalls
+                ? `No exits placed, so walking distance runs to the nearest wall, limit ${formatNumber(limits.maxTravelM, 0)} m; turn on the egress view and click a wall to place an exit`
+                : `Walking distance to the nearest exit, limit ${formatNumber(limits.maxTravelM, 0)} m; egress paths ${formatNumber(limits.egressWidthM, 2)} m wide`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {egress && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span className="text-muted-foreground">Longest walk to {egress.toWalls ? 'a wall' : 'an exit'}</span>
+                <span className="font-medium">
+                  {formatNumber(egress.maxDistance, 0)} / {formatNumber(limits.maxTravelM, 0)} m
+                </span>
+              </div>
+              <Progress value={Math.min(100, egress.maxDistance / limits.maxTravelM * 100)} className="h-2" />
+            </div>
+          )}
+
+          {exits.map((exit, i) => (
+            <div key={exit.id} className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">
+                Exit {i + 1} · {exit.side} wall at {formatNumber(exit.offset, 1)} m
+              </span>
+              <div className="flex items-center space-x-1">
+                <input
+                  key={exit.widthM}
+                  defaultValue={exit.widthM}
+                  inputMode="decimal"
+                  onBlur={(e) => commitWidth(exit.id, exit.widthM, e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                  className="w-12 h-6 rounded border border-border/50 bg-background px-1 text-right font-mono"
+                />
+                <span className="text-muted-foreground">m</span>
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => removeExit(exit.id)}>
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {egress && egressFindings(egress, exits).map(finding => (
+            <div key={finding.id} className="flex items-start space-x-3 p-3 rounded-lg bg-muted/30">
+              <div className="w-6 h-6 rounded-full flex items-center justify-center text-safety-600 bg-safety-100">
+                <AlertTriangle className="w-3 h-3" />
+              </div>
+              <div className="flex-1">
+                <p className="text-sm font-medium text-foreground">{finding.message}</p>
+                <p className="text-xs text-muted-foreground mt-1">{finding.suggestion}</p>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default EgressCard;
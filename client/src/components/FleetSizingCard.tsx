@@ -0,0 +1,199 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { BatteryCharging } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useAppStore } from '@/lib/store';
+import { useRules } from '@/lib/use-rules';
+import { DEFAULT_FLEET, DEFAULT_ROBOT_CHARGING_FT2, sizeFleet } from '@/lib/fleet-sizing';
+import { MODULE_DEFINITIONS, ModuleKey, VehicleClass, VehicleSpec } from '@/lib/types';
+import { formatNumber } from '@/lib/utils';
+
+const VEHICLE_CLASSES: Array<{ key: VehicleClass; label: string }> = [
+  { key: 'forklift', label: 'Forklifts' },
+  { key: 'amr', label: 'AMRs' },
+];
+
+const SPEC_FIELDS: Array<{ key: Exclude<keyof VehicleSpec, 'vehicles'>; label: string }> = [
+  { key: 'speedMps', label: 'Speed m/s' },
+  { key: 'loadS', label: 'Load s' },
+  { key: 'unloadS', label: 'Unload s' },
+];
+
+const moduleName = (key: string) => MODULE_DEFINITIONS[key as ModuleKey]?.name ?? key;
+
+// Forklifts and AMRs the current plan needs for its flows at the target
+// utilization, per flow, with the charging area the AMR fleet calls for
+const FleetSizingCard: React.FC = () => {
+  const { currentPlan, currentRequest, updateRequest, updateBlock, checkpointPlan } = useAppStore();
+  const fleet = currentRequest.fleet ?? DEFAULT_FLEET;
+
+  // Charging area per ten robots comes from the server's rules.yaml
+  const rules = useRules();
+  const chargingFt2 = Number(rules?.automation?.robot_charging_area) || DEFAULT_ROBOT_CHARGING_FT2;
+
+  const result = useMemo(
+    () => (currentPlan ? sizeFleet(currentPlan, currentRequest, chargingFt2) : undefined),
+    [currentPlan, currentRequest, chargingFt2]
+  );
+
+  if (!currentPlan) return null;
+
+  const commitSpec = (vehicle: VehicleClass, field: keyof VehicleSpec, raw: string) => {
+    const value = Number(raw.trim());
+    if (!Number.isFinite(value) || value < 0 || (field === 'speedMps' && value === 0)) return;
+    if (value === fleet[vehicle][field]) return;
+    updateRequest({ fleet: { ...fleet, [vehicle]: { ...fleet[vehicle], [field]: value } } });
+  };
+
+  const commitUtilization = (raw: string) => {
+    const value = Number(raw.trim()) / 100;
+    if (!Number.isFinite(value) || value <= 0 || value > 1 || value === fleet.targetUtilization) return;
+    updateRequest({ fleet: { ...fleet, targetUtilization: value } });
+  };
+
+  // Grow or shrink the charging block to the required area, keeping its shape
+  const resizeCharging = () => {
+    const block = result?.charging.block;
+    if (!block || result.charging.areaM2 <= 0) return;
+    const w = Math.max(1, Math.round(block.w * Math.sqrt(result.charging.areaM2 / (block.w * block.h))));
+    const h = Math.max(1, Math.ceil(result.charging.areaM2 / w));
+    checkpointPlan();
+    updateBlock(block.id, { w, h });
+  };
+
+  const charging = result?.charging;
+  const chargingShort = !!charging && charging.currentAreaM2 < charging.areaM2;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.35 }}
+    >
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">Fleet Sizing</CardTitle>
+            {result && (
+              <div className="flex items-center space-x-1">
+                {VEHICLE_CLASSES.map(({ key, label }) => (
+                  <Badge key={key} variant="info" className="text-xs">
+                    {result.recommended[key]} {label}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+          <CardDescription>
+            {result
+              ? `Vehicles for the routed flows at ${formatNumber(fleet.targetUtilization * 100, 0)}% utilization, loaded out and empty back`
+              : 'Set throughput or enter flows to size the fleet'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid grid-cols-4 gap-2 text-xs items-end">
+            <span />
+            {SPEC_FIELDS.map(({ key, label }) => (
+              <span key={key} className="text-muted-foreground">{label}</span>
+            ))}
+            {VEHICLE_CLASSES.map(({ key: vehicle, label }) => (
+              <React.Fragment key={vehicle}>
+                <span className="text-muted-foreground self-center">{label}</span>
+                {SPEC_FIELDS.map(({ key }) => (
+                  <input
+                    key={`${key}-${fleet[vehicle][key]}`}
+                    defaultValue={fleet[vehicle][key]}
+                    inputMode="decimal"
+                    onBlur={(e) => commitSpec(vehicle, key, e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                    className="w-full h-6 rounded border border-border/50 bg-background px-1 text-right font-mono"
+                  />
+                ))}
+              </React.Fragment>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between text-xs">
+            <label htmlFor="fleet-target-utilization" className="text-muted-foreground">Target utilization</label>
+            <div className="flex items-center space-x-1">
+              <input
+                id="fleet-target-utilization"
+                key={fleet.targetUtilization}
+                defaultValue={formatNumber(fleet.targetUtilization * 100, 0)}
+                inputMode="decimal"
+                onBlur={(e) => commitUtilization(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                className="w-16 h-6 rounded border border-border/50 bg-background px-1 text-right font-mono"
+              />
+              <span className="text-muted-foreground">%</span>
+            </div>
+          </div>
+
+          {result && (
+            <>
+              <div className="space-y-1 text-xs">
+                <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-3 text-muted-foreground">
+                  <span>Flow</span>
+                  <span className="text-right">Moves/h</span>
+                  <span className="text-right">Cycle</span>
+                  <span className="text-right">Vehicles</span>
+                </div>
+                {result.flows.map(flow => (
+                  <div key={`${flow.fromKey}-${flow.toKey}`} className="grid grid-cols-[1fr_auto_auto_auto] gap-x-3">
+                    <span className="truncate" title={`${formatNumber(flow.distance, 0)} m one way`}>
+                      {moduleName(flow.fromKey)} → {moduleName(flow.toKey)}
+                    </span>
+                    <span className="text-right font-mono">{formatNumber(flow.moves, 0)}</span>
+                    <span className="text-right font-mono">{formatNumber(flow.cycleS, 0)} s</span>
+                    <span className="text-right font-mono">
+                      {formatNumber(flow.vehicles, 1)} {flow.vehicle === 'forklift' ? 'FL' : 'AMR'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                {VEHICLE_CLASSES.map(({ key, label }) => (
+                  <div key={key} className="flex justify-between">
+                    <span className="text-muted-foreground">{label} busy</span>
+                    <span className="font-medium">
+                      {formatNumber(result.busy[key], 1)} → {result.recommended[key]}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              {charging && charging.robots > 0 && (
+                <div className="flex items-start space-x-3 p-3 rounded-lg bg-muted/30">
+                  <div className="w-6 h-6 rounded-full flex items-center justify-center text-warehouse-600 bg-warehouse-100">
+                    <BatteryCharging className="w-3 h-3" />
+                  </div>
+                  <div className="flex-1">
+                    <p className="text-sm font-medium text-foreground">
+                      Charging needs {formatNumber(charging.areaM2, 0)} m² for {charging.robots} robots
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {charging.block
+                        ? `The charging block has ${formatNumber(charging.currentAreaM2, 0)} m²`
+                        : 'The layout has no charging block'}
+                      ; {formatNumber(chargingFt2, 0)} ft² per 10 robots
+                    </p>
+                  </div>
+                  {charging.block && chargingShort && (
+                    <Button variant="outline" size="sm" className="h-6 text-xs" onClick={resizeCharging}>
+                      Resize
+                    </Button>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default FleetSizingCard;
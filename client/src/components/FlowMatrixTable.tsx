@@ -0,0 +1,248 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { RotateCcw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useAppStore } from '@/lib/store';
+import { deriveFlowMatrix, FLOW_CHAIN, moduleFlowMatrix, planFlowMatrix } from '@/lib/flows';
+import { adjacencyKey, adjacencyWeight, resolveAdjacency } from '@/lib/adjacency';
+import { ADJACENCY_WEIGHTS, MODULE_DEFINITIONS, ModuleKey } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+type MatrixMode = 'flows' | 'adjacency';
+
+const PROCESS_ORDER: string[] = FLOW_CHAIN.flatMap(stage => stage.modules);
+
+// Modules in the layout, upstream first; support modules go last
+function layoutModules(keys: string[]): string[] {
+  const rank = (key: string) => {
+    const i = PROCESS_ORDER.indexOf(key);
+    return i === -1 ? PROCESS_ORDER.length : i;
+  };
+  return [...new Set(keys)].sort((a, b) => rank(a) - rank(b));
+}
+
+// Module×module matrix of material moves per hour and adjacency
+// desirability.  Flows start out derived from throughput and edits override
+// them on the plan; desirability edits are stored on the request.  Either
+// re-scores the plan and feeds the next optimization run.
+const FlowMatrixTable: React.FC = () => {
+  const {
+    currentPlan,
+    currentRequest,
+    setModuleFlow,
+    clearFlowOverrides,
+    setAdjacency,
+    resetAdjacency,
+  } = useAppStore();
+  const [mode, setMode] = useState<MatrixMode>('flows');
+
+  const blocks = useMemo(
+    () => (currentPlan?.blocks || []).filter(b => b.key !== 'aisle' && b.key !== 'dock'),
+    [currentPlan?.blocks]
+  );
+  const modules = useMemo(() => layoutModules(blocks.map(b => b.key)), [blocks]);
+  const counts = useMemo(() => {
+    const n: Record<string, number> = {};
+    for (const b of blocks) n[b.key] = (n[b.key] || 0) + 1;
+    return n;
+  }, [blocks]);
+  const derived = useMemo(
+    () => moduleFlowMatrix(blocks, deriveFlowMatrix(blocks, currentRequest)),
+    [blocks, currentRequest]
+  );
+  const flows = useMemo(
+    () => moduleFlowMatrix(blocks, (currentPlan ? planFlowMatrix(currentPlan, currentRequest) : undefined) || {}),
+    [blocks, currentPlan, currentRequest]
+  );
+  const adjacency = useMemo(() => resolveAdjacency(currentRequest), [currentRequest]);
+
+  if (!currentPlan || modules.length === 0) return null;
+
+  const overrides = currentPlan.flowOverrides || {};
+  const keyOf = new Map(blocks.map(b => [b.id, b.key]));
+  const overridden = new Set<string>();
+  for (const from in overrides) {
+    for (const to in overrides[from]) {
+      if (keyOf.has(from) && keyOf.has(to)) overridden.add(`${keyOf.get(from)}>${keyOf.get(to)}`);
+    }
+  }
+  const adjacencyEdits = currentRequest.adjacency || {};
+  const editCount = mode === 'flows' ? overridden.size : Object.keys(adjacencyEdits).length;
+
+  const totalMoves = Object.values(flows).reduce(
+    (sum, row) => sum + Object.values(row).reduce((a, v) => a + v, 0),
+    0
+  );
+  let keepApart = 0;
+  modules.forEach((a, i) => modules.slice(i + 1).forEach(b => { if (adjacencyWeight(adjacency, a, b) < 0) keepApart++; }));
+
+  const name = (key: string) => {
+    const label = MODULE_DEFINITIONS[key as ModuleKey]?.name ?? key;
+    return counts[key] > 1 ? `${label} ×${counts[key]}` : label;
+  };
+
+  const commitFlow = (from: string, to: string, raw: string) => {
+    const text = raw.trim();
+    const isOverride = overridden.has(`${from}>${to}`);
+    if (text === '') {
+      if (isOverride) setModuleFlow(from, to, undefined);
+      return;
+    }
+    const value = Number(text);
+    if (!Number.isFinite(value) || value < 0) return;
+    if (Math.abs(value - (flows[from]?.[to] || 0)) < 1e-9) return;
+    // Typing the derived value back in drops the override
+    const derivedValue = derived[from]?.[to] || 0;
+    setModuleFlow(from, to, Math.abs(value - derivedValue) < 1e-9 ? undefined : value);
+  };
+
+  const commitAdjacency = (a: string, b: string, raw: string) => {
+    const text = raw.trim();
+    const isEdited = adjacencyEdits[adjacencyKey(a, b)] !== undefined;
+    if (text === '') {
+      if (isEdited) setAdjacency(a, b, undefined);
+      return;
+    }
+    const value = Number(text);
+    if (!Number.isFinite(value)) return;
+    const clamped = Math.max(-1, Math.min(1, value));
+    if (Math.abs(clamped - adjacencyWeight(adjacency, a, b)) < 1e-9) return;
+    // Typing the default back in drops the edit
+    const defaultValue = adjacencyWeight(ADJACENCY_WEIGHTS, a, b);
+    setAdjacency(a, b, Math.abs(clamped - defaultValue) < 1e-9 ? undefined : clamped);
+  };
+
+  const renderCell = (from: string, to: string) => {
+    if (mode === 'flows') {
+      const value = flows[from]?.[to] || 0;
+      return (
+        <input
+          key={`${from}-${to}-${value}`}
+          defaultValue={value > 0 ? Number(value.toFixed(1)) : ''}
+          placeholder="·"
+          inputMode="decimal"
+          title={`${name(from)} → ${name(to)} (moves/h)`}
+          onBlur={(e) => commitFlow(from, to, e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+          className={cn(
+            'w-12 h-6 rounded border border-border/50 bg-background px-1 text-right font-mono',
+            overridden.has(`${from}>${to}`) && 'border-warehouse-500 bg-warehouse-50 font-semibold'
+          )}
+        />
+      );
+    }
+    const value = adjacencyWeight(adjacency, from, to);
+    return (
+      <input
+        key={`${from}-${to}-${value}`}
+        defaultValue={value !== 0 ? Number(value.toFixed(2)) : ''}
+        placeholder="·"
+        inputMode="decimal"
+        title={`${name(from)} ↔ ${name(to)} (−1 keep apart … 1 keep close)`}
+        onBlur={(e) => commitAdjacency(from, to, e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+        className={cn(
+          'w-12 h-6 rounded border border-border/50 bg-background px-1 text-right font-mono',
+          value > 0 && 'bg-success-50 text-success-700',
+          value < 0 && 'bg-safety-50 text-safety-700',
+          adjacencyEdits[adjacencyKey(from, to)] !== undefined && 'border-warehouse-500 font-semibold'
+        )}
+      />
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.1 }}
+    >
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">From-To Matrix</CardTitle>
+            <div className="flex items-center space-x-2">
+              {mode === 'flows' ? (
+                <Badge variant="info" className="text-xs">{totalMoves.toFixed(0)} moves/h</Badge>
+              ) : (
+                <Badge variant={keepApart > 0 ? 'warning' : 'secondary'} className="text-xs">
+                  {keepApart} keep apart
+                </Badge>
+              )}
+              {editCount > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={mode === 'flows' ? clearFlowOverrides : resetAdjacency}
+                >
+                  <RotateCcw className="w-3 h-3 mr-1" />
+                  Reset {editCount}
+                </Button>
+              )}
+            </div>
+          </div>
+          <CardDescription>
+            {mode === 'adjacency'
+              ? 'How much each pair wants to be close, from −1 (keep apart) to 1; edit a cell to change it'
+              : currentRequest.t
+                ? 'Moves/hour derived from throughput; edit a cell to override it'
+                : 'Set throughput to derive flows, or enter moves/hour by hand'}
+          </CardDescription>
+          <div className="flex rounded-md bg-muted/50 p-0.5 text-xs font-medium mt-2">
+            {(['flows', 'adjacency'] as MatrixMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={cn(
+                  'flex-1 rounded px-2 py-1 transition-colors',
+                  mode === m ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+                )}
+              >
+                {m === 'flows' ? 'Moves/h' : 'Adjacency'}
+              </button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr>
+                  <th className="p-1 text-left text-muted-foreground font-medium">
+                    {mode === 'flows' ? 'From \\ To' : ''}
+                  </th>
+                  {modules.map(key => (
+                    <th key={key} className="p-1 font-medium" title={name(key)}>
+                      {MODULE_DEFINITIONS[key as ModuleKey]?.icon ?? key}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {modules.map(from => (
+                  <tr key={from}>
+                    <th className="p-1 text-left font-medium whitespace-nowrap" title={name(from)}>
+                      {MODULE_DEFINITIONS[from as ModuleKey]?.icon} {name(from)}
+                    </th>
+                    {modules.map(to =>
+                      from === to ? (
+                        <td key={to} className="p-1 bg-muted/40" />
+                      ) : (
+                        <td key={to} className="p-0.5">{renderCell(from, to)}</td>
+                      )
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default FlowMatrixTable;
@@ -1,6 +1,7 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
+import ProjectMenu from '@/components/ProjectMenu';
 import { Badge } from '@/components/ui/badge';
 import { 
   LayoutGrid, 
@@ -9,30 +10,64 @@ import {
   Settings, 
   HelpCircle,
   Sparkles,
-  Play
+  Play,
+  FileJson,
+  FileSpreadsheet,
+  FileImage,
+  FileCode,
+  Upload,
+  StopCircle,
+  ScatterChart,
+  type LucideIcon
 } from 'lucide-react';
 import { useAppStore } from '@/lib/store';
 import { createDemoPlan, createDemoOptimizationResult } from '@/lib/demo-data';
-import { optimizeHeuristic } from '@/lib/optimizer';
-import { PathMask } from '@/lib/grid';
-import { ADJACENCY_WEIGHTS } from '@/lib/types';
-import { cn } from '@/lib/utils';
+import { useOptimization } from '@/lib/use-optimization';
+import { apiService, ExportFormat } from '@/lib/api';
+import { cn, downloadFile } from '@/lib/utils';
+import { importDxfSite } from '@/lib/dxf';
+import { DEFAULT_SITE } from '@/lib/site';
+
+const EXPORT_OPTIONS: Array<{ format: ExportFormat; label: string; description: string; icon: LucideIcon }> = [
+  { format: 'json', label: 'JSON', description: 'Full plan data', icon: FileJson },
+  { format: 'csv', label: 'CSV', description: 'Block schedule', icon: FileSpreadsheet },
+  { format: 'svg', label: 'SVG', description: 'Vector drawing', icon: FileImage },
+  { format: 'dxf', label: 'DXF', description: 'CAD import', icon: FileCode },
+];
 
 const Header: React.FC = () => {
   const { 
     currentPlan, 
+    currentRequest,
     optimizationResult, 
     isLoading,
+    updateRequest,
     setPlan,
     setOptimizationResult,
     addMessage
   } = useAppStore();
   const hasOptimizations = optimizationResult?.plans.length > 0;
+  const [isExportMenuOpen, setExportMenuOpen] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const dxfInputRef = useRef<HTMLInputElement>(null);
+  const exportMenuRef = useRef<HTMLDivElement>(null);
+  const { optimize, cancel: cancelOptimization } = useOptimization();
+
+  // A click anywhere outside the export menu closes it
+  useEffect(() => {
+    if (!isExportMenuOpen) return;
+    const closeOnOutsideClick = (e: MouseEvent) => {
+      if (!exportMenuRef.current?.contains(e.target as Node)) setExportMenuOpen(false);
+    };
+    document.addEventListener('mousedown', closeOnOutsideClick);
+    return () => document.removeEventListener('mousedown', closeOnOutsideClick);
+  }, [isExportMenuOpen]);
 
   const loadDemo = () => {
     const demoPlan = createDemoPlan();
     const demoOptimization = createDemoOptimizationResult();
     
+    updateRequest({ site: { ...DEFAULT_SITE, widthM: 120, heightM: 64 } });
     setPlan(demoPlan);
     setOptimizationResult(demoOptimization);
     
@@ -43,117 +78,51 @@ const Header: React.FC = () => {
     });
   };
 
-  const buildPathMask = (plan: any) => {
-    if (!plan) return new PathMask({ cellSize: 0.25, width: 200, height: 120 });
-    const bounds = plan.blocks.reduce((acc: any, block: any) => ({
-      minX: Math.min(acc.minX, block.x),
-      minY: Math.min(acc.minY, block.y),
-      maxX: Math.max(acc.maxX, block.x + block.w),
-      maxY: Math.max(acc.maxY, block.y + block.h)
-    }), { minX: 0, minY: 0, maxX: 100, maxY: 60 });
-    const mask = new PathMask({ cellSize: 0.25, width: (bounds.maxX - bounds.minX) + 20, height: (bounds.maxY - bounds.minY) + 20 });
-    for (const b of plan.blocks) {
-      if (b.key === 'aisle') mask.fillRect({ x: b.x, y: b.y, w: b.w, h: b.h }, 1);
-    }
-    return mask;
-  };
-
-  const handleOptimize = async () => {
+  const handleExport = async (format: ExportFormat) => {
     if (!currentPlan) return;
-    setOptimizationResult({ plans: [], selectedPlanId: undefined, isOptimizing: true });
-    
-    addMessage({ 
-      role: 'assistant', 
-      content: '🔄 **Optimization Starting**\n\nAnalyzing current layout inefficiencies...\n- Measuring travel distances between stations\n- Evaluating adjacency relationships\n- Checking safety compliance\n\n*Running AI-powered layout optimization...*', 
-      type: 'optimize' 
-    });
-
+    setExportMenuOpen(false);
+    setExportingFormat(format);
     try {
-      // Generate 3 meaningful variants with different optimization strategies
-      const optimizedPlans = createDemoOptimizationResult();
-      
-      // Simulate optimization process with delays for better UX
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      addMessage({ 
-        role: 'assistant', 
-        content: '⚡ **Pass 1/3 Complete** - Found layout with 34% travel reduction', 
-        type: 'optimize' 
-      });
-      
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      addMessage({ 
-        role: 'assistant', 
-        content: '🎯 **Pass 2/3 Complete** - Alternative compact design identified', 
-        type: 'optimize' 
-      });
-      
-      await new Promise(resolve => setTimeout(resolve, 800));
-      
-      // Get AI summary of optimization
-      const aiSummary = await generateOptimizationSummary(currentPlan, optimizedPlans.plans[0]);
-      
-      setOptimizationResult(optimizedPlans);
-      setPlan(optimizedPlans.plans[0]); // Adopt best plan
-      
-      addMessage({ 
-        role: 'assistant', 
-        content: aiSummary, 
-        type: 'optimize' 
-      });
-      
+      const result = await apiService.export(currentPlan, format);
+      downloadFile(result.data, result.filename || `${currentPlan.id}.${format}`, result.mimeType);
     } catch (e) {
-      addMessage({ role: 'assistant', content: 'Optimization failed. Please try again.', type: 'text' });
-      setOptimizationResult({ plans: [], selectedPlanId: undefined, isOptimizing: false });
+      addMessage({ role: 'assistant', content: `Export to ${format.toUpperCase()} failed. Please try again.`, type: 'text' });
+    } finally {
+      setExportingFormat(null);
     }
   };
 
-  const generateOptimizationSummary = async (originalPlan: any, optimizedPlan: any) => {
+  const handleDxfImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
     try {
-      const payload = {
-        original_score: originalPlan.score,
-        optimized_score: optimizedPlan.score,
-        original_blocks: originalPlan.blocks.length,
-        optimized_blocks: optimizedPlan.blocks.length,
-        improvements: {
-          travel: ((optimizedPlan.scores.travel - originalPlan.scores.travel) * 100).toFixed(1),
-          adjacency: ((optimizedPlan.scores.adj - originalPlan.scores.adj) * 100).toFixed(1),
-          safety: ((optimizedPlan.scores.safety - originalPlan.scores.safety) * 100).toFixed(1)
+      const imported = importDxfSite(await file.text());
+      updateRequest({
+        site: {
+          ...DEFAULT_SITE,
+          ...currentRequest.site,
+          widthM: imported.widthM,
+          heightM: imported.heightM,
+          obstructions: imported.obstructions,
+          columns: imported.columns,
         }
-      };
-
-      const response = await fetch('http://localhost:3002/api/ai/placements', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          optimization_summary: payload,
-          request_type: 'summary'
-        })
       });
-
-      if (response.ok) {
-        const data = await response.json();
-        return data.rationale || generateFallbackSummary(payload);
-      }
-    } catch (e) {
-      console.log('AI summary failed, using fallback');
+      const warnings = imported.warnings.length > 0
+        ? `\n\n**Notes:**\n${imported.warnings.map(w => `- ${w}`).join('\n')}`
+        : '';
+      addMessage({
+        role: 'assistant',
+        content: `🏢 **Building imported from ${file.name}**\n\n- Site: ${imported.widthM.toFixed(1)}×${imported.heightM.toFixed(1)} m\n- Columns: ${imported.columns.length}\n- Obstructions: ${imported.obstructions.length}${warnings}`,
+        type: 'text'
+      });
+    } catch (err) {
+      addMessage({
+        role: 'assistant',
+        content: `Could not import ${file.name}: ${err instanceof Error ? err.message : String(err)}`,
+        type: 'text'
+      });
     }
-    
-    return generateFallbackSummary({
-      original_score: originalPlan.score,
-      optimized_score: optimizedPlan.score,
-      improvements: {
-        travel: ((optimizedPlan.scores.travel - originalPlan.scores.travel) * 100).toFixed(1),
-        adjacency: ((optimizedPlan.scores.adj - originalPlan.scores.adj) * 100).toFixed(1),
-        safety: ((optimizedPlan.scores.safety - originalPlan.scores.safety) * 100).toFixed(1)
-      }
-    });
-  };
-
-  const generateFallbackSummary = (data: any) => {
-    const scoreImprovement = ((data.optimized_score - data.original_score) * 100).toFixed(1);
-    return `✅ **Optimization Complete!**\n\n**Key Improvements:**\n• Overall efficiency increased by ${scoreImprovement}%\n• Travel distances reduced by ${Math.abs(data.improvements.travel)}%\n• Adjacency optimization improved by ${data.improvements.adjacency}%\n• Safety compliance enhanced by ${data.improvements.safety}%\n\n**Strategy Applied:**\nRelocated inbound and depalletizer closer together, positioned ASRS systems for optimal material flow, and clustered picking operations near GTP stations. The new layout reduces forklift travel time and improves overall warehouse throughput.\n\n*Select different variants in the Insights panel to compare alternatives.*`;
   };
 
   return (
@@ -198,6 +167,15 @@ const Header: React.FC = () => {
           </Badge>
         )}
         
+        {optimizationResult?.isOptimizing && (
+          <Badge variant="warning" className="animate-pulse">
+            <Zap className="w-3 h-3 mr-1" />
+            Optimizing {optimizationResult.progress
+              ? `${Math.round(optimizationResult.progress.iteration / optimizationResult.progress.iterations * 100)}%`
+              : '...'}
+          </Badge>
+        )}
+        
         {isLoading && (
           <Badge variant="warning" className="animate-pulse">
             <div className="w-2 h-2 bg-current rounded-full animate-pulse mr-2" />
@@ -220,26 +198,93 @@ const Header: React.FC = () => {
           </Button>
         )}
         
+        {optimizationResult?.isOptimizing ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="interactive-subtle text-destructive"
+            onClick={cancelOptimization}
+          >
+            <StopCircle className="w-4 h-4 mr-2" />
+            Cancel
+          </Button>
+        ) : (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="interactive-subtle"
+            disabled={!currentPlan || isLoading}
+            onClick={() => optimize()}
+          >
+            <Zap className="w-4 h-4 mr-2" />
+            Optimize
+          </Button>
+        )}
+
         <Button
           variant="ghost"
           size="sm"
           className="interactive-subtle"
-          disabled={!currentPlan || isLoading}
-          onClick={handleOptimize}
+          disabled={!currentPlan || isLoading || optimizationResult?.isOptimizing}
+          onClick={() => optimize({ mode: 'pareto' })}
         >
-          <Zap className="w-4 h-4 mr-2" />
-          Optimize
+          <ScatterChart className="w-4 h-4 mr-2" />
+          Trade-offs
         </Button>
         
+        <ProjectMenu />
+
+        <input
+          ref={dxfInputRef}
+          type="file"
+          accept=".dxf"
+          className="hidden"
+          onChange={handleDxfImport}
+        />
         <Button
           variant="ghost"
           size="sm"
           className="interactive-subtle"
-          disabled={!currentPlan}
+          onClick={() => dxfInputRef.current?.click()}
         >
-          <Download className="w-4 h-4 mr-2" />
-          Export
+          <Upload className="w-4 h-4 mr-2" />
+          Import DXF
         </Button>
+
+        <div className="relative" ref={exportMenuRef}>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="interactive-subtle"
+            disabled={!currentPlan || exportingFormat !== null}
+            onClick={() => setExportMenuOpen(!isExportMenuOpen)}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {exportingFormat ? `Exporting ${exportingFormat.toUpperCase()}...` : 'Export'}
+          </Button>
+
+          {isExportMenuOpen && currentPlan && (
+            <motion.div
+              initial={{ opacity: 0, y: -4 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="absolute right-0 mt-2 w-48 bg-card border border-border/50 rounded-lg shadow-lg p-1 z-50"
+            >
+              {EXPORT_OPTIONS.map(({ format, label, description, icon: Icon }) => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  className="w-full flex items-center space-x-3 px-3 py-2 rounded-md text-left hover:bg-muted/50 transition-colors"
+                >
+                  <Icon className="w-4 h-4 text-muted-foreground" />
+                  <div>
+                    <p className="text-sm font-medium text-foreground">{label}</p>
+                    <p className="text-xs text-muted-foreground">{description}</p>
+                  </div>
+                </button>
+              ))}
+            </motion.div>
+          )}
+        </div>
         
         <div className="w-px h-6 bg-border/50" />
         
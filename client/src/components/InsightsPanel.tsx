@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
   BarChart, 
@@ -14,9 +14,7 @@ import {
   PolarRadiusAxis,
   Radar,
   LineChart,
-  Line,
-  Area,
-  AreaChart
+  Line
 } from 'recharts';
 import { 
   TrendingUp, 
@@ -30,36 +28,98 @@ import {
   Maximize,
   Route,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  RotateCcw,
+  Gauge,
+  Grid3x3
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Tooltip as UITooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import TradeoffExplorer from '@/components/TradeoffExplorer';
+import FlowMatrixTable from '@/components/FlowMatrixTable';
+import TrafficCard from '@/components/TrafficCard';
+import EgressCard from '@/components/EgressCard';
+import DockCard from '@/components/DockCard';
+import WalkwayCard from '@/components/WalkwayCard';
+import TurningCard from '@/components/TurningCard';
+import ShiftSimulationCard from '@/components/ShiftSimulationCard';
+import FleetSizingCard from '@/components/FleetSizingCard';
 import { useAppStore } from '@/lib/store';
-import { formatNumber, formatPercentage, getColorForScore, getBgColorForScore } from '@/lib/utils';
+import { useOptimization } from '@/lib/use-optimization';
+import { useValidation } from '@/lib/use-validation';
+import { computePlanKpis } from '@/lib/kpi';
+import { cn, formatNumber, formatPercentage, getColorForScore, getBgColorForScore } from '@/lib/utils';
+
+type InsightsTab = 'overview' | 'flows';
+
+const INSIGHT_TABS: Array<{ id: InsightsTab; label: string; Icon: typeof Gauge }> = [
+  { id: 'overview', label: 'Overview', Icon: Gauge },
+  { id: 'flows', label: 'Flows', Icon: Grid3x3 },
+];
 
 // Modern insights panel with KPI dashboards and visualizations
 const InsightsPanel: React.FC = () => {
   const { 
     currentPlan, 
+    currentRequest,
     optimizationResult, 
     validationResult,
     selectPlan,
     isSidebarCollapsed,
     setSidebarCollapsed
   } = useAppStore();
+  const { optimize, isOptimizing } = useOptimization();
+  const [tab, setTab] = useState<InsightsTab>('overview');
+  useValidation();
+
+  // Seed of the run that produced the current plan; editable so a colleague's
+  // seed can be pasted in and re-run
+  const runSeed = currentPlan?.seed ?? optimizationResult?.seed;
+  const [seedInput, setSeedInput] = useState('');
+  useEffect(() => {
+    setSeedInput(runSeed !== undefined ? String(runSeed) : '');
+  }, [runSeed]);
+  const parsedSeed = /^\d+$/.test(seedInput.trim()) ? Number(seedInput.trim()) : undefined;
+
+  const handleRerun = () => {
+    if (parsedSeed === undefined) return;
+    optimize({ seed: parsedSeed, sourcePlan: optimizationResult?.sourcePlan, mode: optimizationResult?.mode });
+  };
+
+  // KPIs recomputed from the plan's geometry, so they follow edits on the canvas
+  const kpis = useMemo(
+    () => currentPlan ? computePlanKpis(currentPlan, currentRequest) : null,
+    [currentPlan, currentRequest]
+  );
+  // Baseline for the change arrows: the layout the last optimization started from
+  const baseline = useMemo(
+    () => optimizationResult?.sourcePlan ? computePlanKpis(optimizationResult.sourcePlan, currentRequest) : null,
+    [optimizationResult?.sourcePlan, currentRequest]
+  );
 
-  // Mock data for demonstration - in real app this comes from the plan
-  const kpiData = currentPlan ? {
-    travel: currentPlan.scores.travel,
-    adjacency: currentPlan.scores.adj,
-    safety: currentPlan.scores.safety,
-    compactness: currentPlan.scores.compact,
-    overall: currentPlan.score
+  const kpiData = kpis ? {
+    travel: kpis.scores.travel,
+    adjacency: kpis.scores.adj,
+    safety: kpis.scores.safety,
+    compactness: kpis.scores.compact,
+    overall: kpis.score
   } : null;
 
+  const changeFrom = (key: keyof NonNullable<typeof kpis>['scores']) =>
+    kpis && baseline && currentPlan?.id !== optimizationResult?.sourcePlan?.id
+      ? kpis.scores[key] - baseline.scores[key]
+      : undefined;
+
+  const overallRating = (score: number) => {
+    if (score >= 0.8) return { label: 'Excellent', variant: 'success' as const, Icon: TrendingUp };
+    if (score >= 0.6) return { label: 'Good', variant: 'warning' as const, Icon: TrendingUp };
+    return { label: 'Needs work', variant: 'destructive' as const, Icon: TrendingDown };
+  };
+
   const radarData = kpiData ? [
     { subject: 'Travel', A: kpiData.travel * 100, fullMark: 100, id: 'travel' },
     { subject: 'Adjacency', A: kpiData.adjacency * 100, fullMark: 100, id: 'adjacency' },
@@ -76,15 +136,6 @@ const InsightsPanel: React.FC = () => {
     overall: plan.score * 100,
   })) || [];
 
-  const throughputData = [
-    { time: '6AM', pallets: 45, totes: 120 },
-    { time: '9AM', pallets: 75, totes: 180 },
-    { time: '12PM', pallets: 85, totes: 200 },
-    { time: '3PM', pallets: 70, totes: 160 },
-    { time: '6PM', pallets: 55, totes: 140 },
-    { time: '9PM', pallets: 30, totes: 80 },
-  ];
-
   const KPICard = ({ 
     title, 
     value, 
@@ -139,11 +190,13 @@ const InsightsPanel: React.FC = () => {
   const ValidationItem = ({ 
     type, 
     message, 
-    suggestion 
+    suggestion,
+    citation
   }: {
     type: 'error' | 'warning' | 'info';
     message: string;
     suggestion?: string;
+    citation?: string;
   }) => {
     const icons = {
       error: AlertTriangle,
@@ -171,6 +224,9 @@ const InsightsPanel: React.FC = () => {
           {suggestion && (
             <p className="text-xs text-muted-foreground mt-1">{suggestion}</p>
           )}
+          {citation && (
+            <p className="text-[10px] text-muted-foreground/80 mt-1">{citation}</p>
+          )}
         </div>
       </motion.div>
     );
@@ -216,6 +272,29 @@ const InsightsPanel: React.FC = () => {
       {/* Content */}
       {!isSidebarCollapsed && (
         <div className="panel-content p-4 space-y-6">
+        {/* Tabs */}
+        {currentPlan && (
+          <div className="flex rounded-lg bg-muted/50 p-1 text-xs font-medium">
+            {INSIGHT_TABS.map(({ id, label, Icon }) => (
+              <button
+                key={id}
+                onClick={() => setTab(id)}
+                className={cn(
+                  'flex-1 flex items-center justify-center space-x-1.5 rounded-md px-2 py-1.5 transition-colors',
+                  tab === id ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+                )}
+              >
+                <Icon className="w-3.5 h-3.5" />
+                <span>{label}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* From-To flows and adjacency */}
+        {tab === 'flows' && <FlowMatrixTable />}
+
+        {tab === 'overview' && (<>
         {/* KPI Cards */}
         {kpiData && (
           <motion.div
@@ -230,28 +309,28 @@ const InsightsPanel: React.FC = () => {
                 value={kpiData.travel}
                 icon={Route}
                 color="blue"
-                change={0.05}
+                change={changeFrom('travel')}
               />
               <KPICard
                 title="Adjacency Score"
                 value={kpiData.adjacency}
                 icon={Target}
                 color="green"
-                change={-0.02}
+                change={changeFrom('adj')}
               />
               <KPICard
                 title="Safety Compliance"
                 value={kpiData.safety}
                 icon={Shield}
                 color="red"
-                change={0.08}
+                change={changeFrom('safety')}
               />
               <KPICard
                 title="Space Utilization"
                 value={kpiData.compactness}
                 icon={Maximize}
                 color="purple"
-                change={0.03}
+                change={changeFrom('compact')}
               />
             </div>
 
@@ -259,17 +338,22 @@ const InsightsPanel: React.FC = () => {
             <Card>
               <CardHeader className="pb-3">
                 <CardTitle className="text-base">Overall Score</CardTitle>
-                <CardDescription>Weighted composite of all metrics</CardDescription>
+                <CardDescription>Mean of the four metrics</CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="flex items-center justify-between mb-3">
                   <span className="text-3xl font-bold text-gradient-warehouse">
                     {formatPercentage(kpiData.overall)}
                   </span>
-                  <Badge variant="success" className="text-sm">
-                    <TrendingUp className="w-3 h-3 mr-1" />
-                    Excellent
-                  </Badge>
+                  {(() => {
+                    const { label, variant, Icon } = overallRating(kpiData.overall);
+                    return (
+                      <Badge variant={variant} className="text-sm">
+                        <Icon className="w-3 h-3 mr-1" />
+                        {label}
+                      </Badge>
+                    );
+                  })()}
                 </div>
                 <Progress value={kpiData.overall * 100} className="h-3" />
               </CardContent>
@@ -315,8 +399,11 @@ const InsightsPanel: React.FC = () => {
           </motion.div>
         )}
 
+        {/* Pareto Trade-offs */}
+        {optimizationResult?.mode === 'pareto' && <TradeoffExplorer />}
+
         {/* Plan Comparison */}
-        {planComparison.length > 0 && (
+        {planComparison.length > 0 && optimizationResult?.mode !== 'pareto' && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -362,55 +449,68 @@ const InsightsPanel: React.FC = () => {
           </motion.div>
         )}
 
-        {/* Throughput Analysis */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.3 }}
-        >
-          <Card>
-            <CardHeader className="pb-3">
-              <CardTitle className="text-base">Throughput Capacity</CardTitle>
-              <CardDescription>Daily volume handling</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <ResponsiveContainer width="100%" height={150}>
-                <AreaChart data={throughputData}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="time" tick={{ fontSize: 12 }} />
-                  <YAxis tick={{ fontSize: 10 }} />
-                  <Tooltip />
-                  <Area 
-                    type="monotone" 
-                    dataKey="pallets" 
-                    stackId="1" 
-                    stroke="#3b82f6" 
-                    fill="#3b82f6" 
-                    fillOpacity={0.6}
-                  />
-                  <Area 
-                    type="monotone" 
-                    dataKey="totes" 
-                    stackId="1" 
-                    stroke="#10b981" 
-                    fill="#10b981" 
-                    fillOpacity={0.6}
+        {/* Aisle Traffic */}
+        <TrafficCard />
+
+        {/* Emergency Egress */}
+        <EgressCard />
+
+        {/* Dock Doors */}
+        <DockCard />
+
+        {/* Pedestrian Walkways */}
+        <WalkwayCard />
+
+        {/* Turning Clearance */}
+        <TurningCard />
+
+        {/* Reproduce Run */}
+        {currentPlan && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.25 }}
+          >
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Optimization Seed</CardTitle>
+                <CardDescription>
+                  {optimizationResult?.sourcePlan
+                    ? 'Re-run from the same starting layout to reproduce a result'
+                    : 'Run the optimizer on the current plan with a fixed seed'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex space-x-2">
+                  <Input
+                    value={seedInput}
+                    onChange={(e) => setSeedInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleRerun()}
+                    placeholder="Seed"
+                    inputMode="numeric"
+                    className="h-8 text-sm font-mono"
                   />
-                </AreaChart>
-              </ResponsiveContainer>
-              <div className="flex justify-center mt-3 space-x-4 text-xs">
-                <div className="flex items-center space-x-2">
-                  <div className="w-3 h-3 bg-blue-500 rounded" />
-                  <span>Pallets/hr</span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-xs whitespace-nowrap"
+                    onClick={handleRerun}
+                    disabled={parsedSeed === undefined || isOptimizing}
+                  >
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Re-run with seed
+                  </Button>
                 </div>
-                <div className="flex items-center space-x-2">
-                  <div className="w-3 h-3 bg-green-500 rounded" />
-                  <span>Totes/hr</span>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        </motion.div>
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
+        {/* Shift Simulation */}
+        <ShiftSimulationCard />
+
+        {/* Fleet Sizing */}
+        <FleetSizingCard />
 
         {/* Validation Results */}
         <motion.div
@@ -420,36 +520,46 @@ const InsightsPanel: React.FC = () => {
         >
           <Card>
             <CardHeader className="pb-3">
-              <CardTitle className="text-base">Validation Results</CardTitle>
-              <CardDescription>Rule compliance and recommendations</CardDescription>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base">Validation Results</CardTitle>
+                {validationResult?.isValidating ? (
+                  <Badge variant="secondary" className="text-xs">Checking…</Badge>
+                ) : validationResult?.rules && (
+                  <Badge variant={validationResult.findings.some(f => f.type === 'error') ? 'destructive' : 'success'} className="text-xs">
+                    {validationResult.rules.filter(r => r.checked && r.findings === 0).length}/{validationResult.rules.length} rules pass
+                  </Badge>
+                )}
+              </div>
+              <CardDescription>Rule compliance measured on the layout geometry</CardDescription>
             </CardHeader>
             <CardContent className="space-y-3">
-              {validationResult?.findings.length > 0 ? (
-                validationResult.findings.map((finding, index) => (
-                  <ValidationItem
-                    key={index}
-                    type={finding.type}
-                    message={finding.message}
-                    suggestion={finding.suggestion}
-                  />
-                ))
-              ) : currentPlan ? (
+              {currentPlan && validationResult ? (
                 <>
-                  <ValidationItem
-                    type="info"
-                    message="All safety clearances met"
-                    suggestion="OSHA 1910.176 compliance verified"
-                  />
-                  <ValidationItem
-                    type="info"
-                    message="Forklift aisle widths adequate"
-                    suggestion="13 ft aisles for wide-aisle trucks"
-                  />
-                  <ValidationItem
-                    type="warning"
-                    message="Consider fire safety spacing"
-                    suggestion="6 inch flue spaces recommended for sprinkler systems"
-                  />
+                  {validationResult.error && (
+                    <ValidationItem
+                      type="warning"
+                      message={validationResult.error}
+                      suggestion="Compliance has not been checked for this layout"
+                    />
+                  )}
+                  {validationResult.findings.map(finding => (
+                    <ValidationItem
+                      key={finding.id}
+                      type={finding.type}
+                      message={finding.message}
+                      suggestion={finding.suggestion}
+                      citation={finding.citation}
+                    />
+                  ))}
+                  {/* Rules that ran clean, and any the server could not check */}
+                  {validationResult.rules?.filter(r => r.findings === 0).map(rule => (
+                    <ValidationItem
+                      key={rule.rule}
+                      type={rule.checked ? 'info' : 'warning'}
+                      message={rule.checked ? `${rule.description}: passed` : `${rule.description}: not checked`}
+                      citation={rule.citation}
+                    />
+                  ))}
                 </>
               ) : (
                 <div className="text-center py-8 text-muted-foreground">
@@ -461,6 +571,8 @@ const InsightsPanel: React.FC = () => {
           </Card>
         </motion.div>
 
+        </>)}
+
         {/* Empty State */}
         {!currentPlan && (
           <motion.div
@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { FolderOpen, Save, Trash2, Cloud, HardDrive } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAppStore } from '@/lib/store';
+import { ProjectSummary } from '@/lib/types';
+import {
+  createProjectSnapshot,
+  deleteProject,
+  listProjects,
+  loadProject,
+  newProjectId,
+  saveProject
+} from '@/lib/projects';
+
+// Save/load named projects (local + server) from the header
+const ProjectMenu: React.FC = () => {
+  const {
+    currentRequest,
+    currentPlan,
+    optimizationResult,
+    chatMessages,
+    currentProject,
+    setCurrentProject,
+    openProject,
+    addMessage,
+    error,
+    setError
+  } = useAppStore();
+
+  const [isOpen, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isBusy, setBusy] = useState(false);
+
+  const refresh = async () => {
+    setProjects(await listProjects());
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setError(undefined);
+      setName(currentProject?.name || '');
+      refresh();
+    }
+  }, [isOpen]);
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setBusy(true);
+    setError(undefined);
+    try {
+      // Saving under a new name forks the project
+      const id = currentProject && currentProject.name === trimmed ? currentProject.id : newProjectId();
+      const snapshot = createProjectSnapshot(
+        { currentRequest, currentPlan, optimizationResult, chatMessages },
+        { id, name: trimmed }
+      );
+      const { summary, savedToServer } = await saveProject(snapshot);
+      setCurrentProject(summary);
+      if (!savedToServer) {
+        addMessage({
+          role: 'assistant',
+          content: `💾 Saved **${trimmed}** locally. The server is unreachable, so it will only be available in this browser until you save again.`,
+          type: 'text'
+        });
+      }
+      await refresh();
+    } catch (e) {
+      setError(`Could not save "${trimmed}". Please try again.`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleOpen = async (id: string) => {
+    setBusy(true);
+    setError(undefined);
+    try {
+      openProject(await loadProject(id));
+      setOpen(false);
+    } catch (e) {
+      setError('Could not open that project. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!window.confirm(`Delete project "${project.name}"?`)) return;
+    setBusy(true);
+    setError(undefined);
+    try {
+      await deleteProject(project.id);
+      if (currentProject?.id === project.id) setCurrentProject(undefined);
+      await refresh();
+    } catch (e) {
+      setError(`Could not delete "${project.name}". Please try again.`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="interactive-subtle"
+        onClick={() => setOpen(!isOpen)}
+      >
+        <FolderOpen className="w-4 h-4 mr-2" />
+        {currentProject?.name || 'Projects'}
+      </Button>
+
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0, y: -4 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="absolute right-0 mt-2 w-72 bg-card border border-border/50 rounded-lg shadow-lg p-3 z-50 space-y-3"
+        >
+          <div className="flex space-x-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder="Project name"
+              className="h-8 text-sm"
+            />
+            <Button size="sm" onClick={handleSave} disabled={!name.trim() || isBusy}>
+              <Save className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {projects.length === 0 ? (
+              <p className="text-xs text-muted-foreground text-center py-4">No saved projects yet</p>
+            ) : (
+              projects.map(project => (
+                <div
+                  key={project.id}
+                  className="flex items-center justify-between px-2 py-1.5 rounded-md hover:bg-muted/50 group"
+                >
+                  <button
+                    className="flex-1 text-left min-w-0"
+                    onClick={() => handleOpen(project.id)}
+                    disabled={isBusy}
+                  >
+                    <p className="text-sm font-medium text-foreground truncate">
+                      {project.name}
+                      {currentProject?.id === project.id && <span className="text-xs text-muted-foreground"> (open)</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground flex items-center space-x-1">
+                      {project.source === 'local'
+                        ? <HardDrive className="w-3 h-3" />
+                        : <Cloud className="w-3 h-3" />}
+                      <span>{new Date(project.updatedAt).toLocaleString()}</span>
+                    </p>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100 text-destructive"
+                    onClick={() => handleDelete(project)}
+                    disabled={isBusy}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectMenu;
@@ -0,0 +1,184 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useAppStore } from '@/lib/store';
+import { DEFAULT_FLEET } from '@/lib/fleet-sizing';
+import { simulateShift } from '@/lib/simulation';
+import { VehicleClass } from '@/lib/types';
+import { formatNumber, formatPercentage } from '@/lib/utils';
+
+// Speeds and handling times are set per class under Fleet Sizing
+const FLEET_FIELDS: Array<{ key: VehicleClass; label: string }> = [
+  { key: 'forklift', label: 'Forklifts' },
+  { key: 'amr', label: 'AMRs' },
+];
+
+// Hover details for one hour of the shift
+const HourTooltip = ({ active, payload, label }: any) => {
+  if (!active || !payload?.length) return null;
+  const hour = payload[0].payload;
+  return (
+    <div className="rounded-md border border-border/50 bg-card p-2 text-xs shadow-sm space-y-0.5">
+      <p className="font-medium">{label}</p>
+      <p>Released {hour.demanded} · Delivered {hour.completed}</p>
+      <p>Utilization {hour.utilization}%</p>
+      <p>Avg queue {hour.queue} · Blocked {hour.blocked} min</p>
+    </div>
+  );
+};
+
+// Simulated shift of the current plan: moves released and delivered per hour
+// with fleet utilization, for the fleet set here
+const ShiftSimulationCard: React.FC = () => {
+  const { currentPlan, currentRequest, updateRequest } = useAppStore();
+  const fleet = currentRequest.fleet ?? DEFAULT_FLEET;
+
+  const result = useMemo(
+    () => (currentPlan ? simulateShift(currentPlan, currentRequest) : undefined),
+    [currentPlan, currentRequest]
+  );
+
+  const chartData = result?.hours.map(h => ({
+    time: h.label,
+    demanded: h.demanded,
+    completed: h.completed,
+    utilization: Math.round(h.utilization * 100),
+    queue: Math.round(h.avgQueue),
+    blocked: Math.round(h.blockedMin),
+  })) || [];
+
+  const commitVehicles = (vehicle: VehicleClass, raw: string) => {
+    const value = Number(raw.trim());
+    if (!Number.isInteger(value) || value < 0 || value === fleet[vehicle].vehicles) return;
+    updateRequest({ fleet: { ...fleet, [vehicle]: { ...fleet[vehicle], vehicles: value } } });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.3 }}
+    >
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">Shift Simulation</CardTitle>
+            {result && (
+              <Badge variant={result.backlog > 0.02 * result.demanded ? 'destructive' : 'success'} className="text-xs">
+                {formatPercentage(result.demanded > 0 ? result.completed / result.demanded : 1)} delivered
+              </Badge>
+            )}
+          </div>
+          <CardDescription>
+            {result
+              ? `Moves per hour over a ${result.hours.length}h shift, seed ${result.seed}`
+              : 'Set throughput or enter flows to simulate a shift'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            {FLEET_FIELDS.map(({ key, label }) => (
+              <label key={key} className="space-y-1">
+                <span className="text-muted-foreground">{label}</span>
+                <input
+                  key={fleet[key].vehicles}
+                  defaultValue={fleet[key].vehicles}
+                  inputMode="numeric"
+                  onBlur={(e) => commitVehicles(key, e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                  className="w-full h-6 rounded border border-border/50 bg-background px-1 text-right font-mono"
+                />
+              </label>
+            ))}
+          </div>
+
+          {result && (
+            <>
+              <ResponsiveContainer width="100%" height={150}>
+                <ComposedChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="time" tick={{ fontSize: 10 }} />
+                  <YAxis yAxisId="moves" tick={{ fontSize: 10 }} />
+                  <YAxis yAxisId="util" orientation="right" domain={[0, 100]} hide />
+                  <Tooltip content={<HourTooltip />} />
+                  <Area
+                    yAxisId="moves"
+                    type="monotone"
+                    dataKey="demanded"
+                    name="Released"
+                    stroke="#94a3b8"
+                    fill="#94a3b8"
+                    fillOpacity={0.3}
+                  />
+                  <Area
+                    yAxisId="moves"
+                    type="monotone"
+                    dataKey="completed"
+                    name="Delivered"
+                    stroke="#3b82f6"
+                    fill="#3b82f6"
+                    fillOpacity={0.6}
+                  />
+                  <Line
+                    yAxisId="util"
+                    type="monotone"
+                    dataKey="utilization"
+                    name="Utilization %"
+                    stroke="#f59e0b"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+              <div className="flex justify-center space-x-4 text-xs">
+                <div className="flex items-center space-x-2">
+                  <div className="w-3 h-3 bg-slate-400 rounded" />
+                  <span>Released/hr</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <div className="w-3 h-3 bg-blue-500 rounded" />
+                  <span>Delivered/hr</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <div className="w-3 h-0.5 bg-amber-500" />
+                  <span>Utilization</span>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Delivered</span>
+                  <span className="font-medium">{formatNumber(result.completed, 0)} / {formatNumber(result.demanded, 0)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Fleet utilization</span>
+                  <span className="font-medium">{formatPercentage(result.utilization)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Peak queue</span>
+                  <span className="font-medium">{result.peakQueue} moves</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Blocked</span>
+                  <span className="font-medium">{formatNumber(result.blockedMin, 0)} min</span>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default ShiftSimulationCard;
@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  ZAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  Cell
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useAppStore } from '@/lib/store';
+import { ObjectiveKey, OBJECTIVE_KEYS } from '@/lib/score';
+import { Plan } from '@/lib/types';
+
+const OBJECTIVE_LABELS: Record<ObjectiveKey, string> = {
+  travel: 'Travel',
+  adjacency: 'Adjacency',
+  safety: 'Safety',
+  compact: 'Compactness'
+};
+
+// Pick a trade-off from a Pareto front: a scatter of any two objectives plus
+// parallel coordinates across all four.  Clicking a layout adopts it.
+const TradeoffExplorer: React.FC = () => {
+  const { currentPlan, optimizationResult, selectPlan } = useAppStore();
+  const [xKey, setXKey] = useState<ObjectiveKey>('travel');
+  const [yKey, setYKey] = useState<ObjectiveKey>('safety');
+
+  const front = useMemo(
+    () => (optimizationResult?.plans || []).filter((p): p is Plan & { objectives: NonNullable<Plan['objectives']> } => !!p.objectives),
+    [optimizationResult?.plans]
+  );
+
+  // Per-objective min/max across the front for the parallel-coordinates view
+  const ranges = useMemo(() => {
+    const out = {} as Record<ObjectiveKey, { min: number; max: number }>;
+    for (const k of OBJECTIVE_KEYS) {
+      const values = front.map(p => p.objectives[k]);
+      out[k] = { min: Math.min(...values), max: Math.max(...values) };
+    }
+    return out;
+  }, [front]);
+
+  if (front.length === 0) return null;
+
+  const scatterData = front.map((plan, index) => ({
+    id: plan.id,
+    name: `Layout ${index + 1}`,
+    x: plan.objectives[xKey],
+    y: plan.objectives[yKey]
+  }));
+
+  // One row per objective; 1 = best on the front, 0 = worst
+  const parallelData = OBJECTIVE_KEYS.map(k => {
+    const row: Record<string, string | number> = { objective: OBJECTIVE_LABELS[k] };
+    const { min, max } = ranges[k];
+    front.forEach(plan => {
+      row[plan.id] = max === min ? 1 : (max - plan.objectives[k]) / (max - min);
+    });
+    return row;
+  });
+
+  const axisSelect = (value: ObjectiveKey, onChange: (k: ObjectiveKey) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as ObjectiveKey)}
+      className="h-7 rounded-md border border-border/50 bg-background px-2 text-xs"
+    >
+      {OBJECTIVE_KEYS.map(k => (
+        <option key={k} value={k}>{OBJECTIVE_LABELS[k]}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.2 }}
+    >
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">Trade-off Explorer</CardTitle>
+            <Badge variant="info" className="text-xs">{front.length} Pareto layouts</Badge>
+          </div>
+          <CardDescription>Lower is better on both axes; click a layout to use it</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+            <span>X</span>
+            {axisSelect(xKey, setXKey)}
+            <span>Y</span>
+            {axisSelect(yKey, setYKey)}
+          </div>
+
+          <ResponsiveContainer width="100%" height={200}>
+            <ScatterChart margin={{ top: 5, right: 10, bottom: 5, left: -10 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis type="number" dataKey="x" name={OBJECTIVE_LABELS[xKey]} tick={{ fontSize: 10 }} domain={['auto', 'auto']} />
+              <YAxis type="number" dataKey="y" name={OBJECTIVE_LABELS[yKey]} tick={{ fontSize: 10 }} domain={['auto', 'auto']} />
+              <ZAxis range={[60, 60]} />
+              <Tooltip
+                formatter={(value: any) => (typeof value === 'number' ? value.toFixed(2) : value)}
+                labelFormatter={() => ''}
+              />
+              <Scatter
+                data={scatterData}
+                onClick={(point: any) => point?.id && selectPlan(point.id)}
+                className="cursor-pointer"
+              >
+                {scatterData.map(point => (
+                  <Cell
+                    key={point.id}
+                    fill={point.id === currentPlan?.id ? '#3b82f6' : '#94a3b8'}
+                    stroke={point.id === currentPlan?.id ? '#1d4ed8' : 'none'}
+                    strokeWidth={2}
+                  />
+                ))}
+              </Scatter>
+            </ScatterChart>
+          </ResponsiveContainer>
+
+          <div>
+            <p className="text-xs text-muted-foreground mb-1">All objectives (top = best on this front)</p>
+            <ResponsiveContainer width="100%" height={160}>
+              <LineChart data={parallelData} margin={{ top: 5, right: 10, bottom: 5, left: -20 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical />
+                <XAxis dataKey="objective" tick={{ fontSize: 10 }} />
+                <YAxis domain={[0, 1]} tick={false} />
+                {front.map(plan => {
+                  const isSelected = plan.id === currentPlan?.id;
+                  return (
+                    <Line
+                      key={plan.id}
+                      dataKey={plan.id}
+                      stroke={isSelected ? '#3b82f6' : '#cbd5e1'}
+                      strokeWidth={isSelected ? 3 : 1.5}
+                      dot={false}
+                      isAnimationActive={false}
+                      onClick={() => selectPlan(plan.id)}
+                      className="cursor-pointer"
+                    />
+                  );
+                })}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default TradeoffExplorer;
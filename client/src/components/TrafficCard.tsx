@@ -0,0 +1,132 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, Flame } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { useAppStore } from '@/lib/store';
+import { computeTraffic, DEFAULT_AISLE_LOAD_LIMIT, TrafficSegment } from '@/lib/traffic';
+import { formatNumber, formatPercentage } from '@/lib/utils';
+
+function utilizationBadge(u: number) {
+  if (u >= 1) return 'destructive' as const;
+  if (u >= 0.7) return 'warning' as const;
+  return 'success' as const;
+}
+
+function segmentName(segment: TrafficSegment): string {
+  if (segment.aisleId) return `Aisle ${segment.aisleId}`;
+  const { x, y } = segment.bounds;
+  return `Floor at ${formatNumber(x, 0)}, ${formatNumber(y, 0)} m`;
+}
+
+// Peak aisle utilization from the routed material flows, and every aisle
+// stretch that carries more than the configured load
+const TrafficCard: React.FC = () => {
+  const { currentPlan, currentRequest, updateRequest, canvasState, updateCanvasState } = useAppStore();
+
+  const traffic = useMemo(
+    () => (currentPlan ? computeTraffic(currentPlan, currentRequest) : undefined),
+    [currentPlan, currentRequest]
+  );
+
+  if (!currentPlan) return null;
+
+  const limit = currentRequest.aisleLoadLimit ?? DEFAULT_AISLE_LOAD_LIMIT;
+  const commitLimit = (raw: string) => {
+    const text = raw.trim();
+    if (text === '') {
+      if (currentRequest.aisleLoadLimit !== undefined) updateRequest({ aisleLoadLimit: undefined });
+      return;
+    }
+    const value = Number(text);
+    if (!Number.isFinite(value) || value <= 0 || value === limit) return;
+    updateRequest({ aisleLoadLimit: value === DEFAULT_AISLE_LOAD_LIMIT ? undefined : value });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.2 }}
+    >
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">Aisle Traffic</CardTitle>
+            <div className="flex items-center space-x-2">
+              {traffic && (
+                <Badge variant={utilizationBadge(traffic.peakUtilization)} className="text-xs">
+                  Peak {formatPercentage(traffic.peakUtilization)}
+                </Badge>
+              )}
+              <Button
+                variant={canvasState.showTraffic ? 'default' : 'ghost'}
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => updateCanvasState({ showTraffic: !canvasState.showTraffic })}
+                title="Show heatmap on the canvas"
+              >
+                <Flame className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+          <CardDescription>
+            {traffic
+              ? 'Vehicle passes per hour on the busiest aisle cell, loaded and empty'
+              : 'Set throughput or enter flows to see where traffic concentrates'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {traffic && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span className="text-muted-foreground">Peak aisle utilization</span>
+                <span className="font-medium">
+                  {formatNumber(traffic.peakLoad, 0)} / {formatNumber(traffic.limit, 0)} passes/h
+                </span>
+              </div>
+              <Progress value={Math.min(100, traffic.peakUtilization * 100)} className="h-2" />
+            </div>
+          )}
+
+          <div className="flex items-center justify-between text-xs">
+            <label htmlFor="aisle-load-limit" className="text-muted-foreground">Limit per aisle cell</label>
+            <div className="flex items-center space-x-1">
+              <input
+                id="aisle-load-limit"
+                key={limit}
+                defaultValue={limit}
+                inputMode="decimal"
+                onBlur={(e) => commitLimit(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                className="w-16 h-6 rounded border border-border/50 bg-background px-1 text-right font-mono"
+              />
+              <span className="text-muted-foreground">passes/h</span>
+            </div>
+          </div>
+
+          {traffic?.overloads.map((segment, i) => (
+            <div key={i} className="flex items-start space-x-3 p-3 rounded-lg bg-muted/30">
+              <div className="w-6 h-6 rounded-full flex items-center justify-center text-safety-600 bg-safety-100">
+                <AlertTriangle className="w-3 h-3" />
+              </div>
+              <div className="flex-1">
+                <p className="text-sm font-medium text-foreground">
+                  {segmentName(segment)} carries {formatNumber(segment.peakLoad, 0)} passes/h
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {formatNumber(segment.peakLoad / traffic.limit, 1)}× the limit across {formatNumber(segment.cells * traffic.cellSize ** 2, 0)} m² of floor;
+                  move the busiest pairs closer or give them a parallel route
+                </p>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default TrafficCard;
@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useAppStore } from '@/lib/store';
+import { useRules } from '@/lib/use-rules';
+import { checkTurning, sweptRadius, turningDesignFromRules } from '@/lib/turning';
+import { FORKLIFT_CLASSES, vehicleProfilesFromRules } from '@/lib/vehicle-profiles';
+import { formatNumber } from '@/lib/utils';
+
+// Truck profiles per forklift class and whether the site's trucks can take
+// the plan's aisle corners and turn around at its dead-ends
+const TurningCard: React.FC = () => {
+  const { currentPlan, currentRequest } = useAppStore();
+  const rules = useRules();
+  const profiles = useMemo(() => vehicleProfilesFromRules(rules), [rules]);
+  const design = useMemo(() => turningDesignFromRules(rules), [rules]);
+
+  const report = useMemo(
+    () => (currentPlan ? checkTurning(currentPlan, currentRequest, profiles, design) : undefined),
+    [currentPlan, currentRequest, profiles, design]
+  );
+
+  if (!currentPlan || !report) return null;
+
+  const checked = report.corners.length + report.deadEnds.length;
+  const failing = report.findings.length;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.25 }}
+    >
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">Turning Clearance</CardTitle>
+            {checked > 0 && (
+              <Badge variant={failing > 0 ? 'destructive' : 'success'} className="text-xs">
+                {checked - failing}/{checked} clear
+              </Badge>
+            )}
+          </div>
+          <CardDescription>
+            {checked > 0
+              ? `${report.forklift} ${report.profile.name.toLowerCase()} sweeps ${formatNumber(report.sweptRadiusM, 1)} m; corners and dead-ends need ${formatNumber(report.requiredM, 1)} m clear`
+              : 'Add aisles to check corners and dead-ends'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="space-y-1 text-xs">
+            <div className="grid grid-cols-[1fr_auto_auto_auto_auto] gap-x-3 text-muted-foreground">
+              <span>Truck</span>
+              <span className="text-right">Length</span>
+              <span className="text-right">Width</span>
+              <span className="text-right">Turn</span>
+              <span className="text-right">Swept</span>
+            </div>
+            {FORKLIFT_CLASSES.map(forklift => {
+              const profile = profiles[forklift];
+              return (
+                <div
+                  key={forklift}
+                  className={`grid grid-cols-[1fr_auto_auto_auto_auto] gap-x-3 ${forklift === report.forklift ? 'font-medium' : 'text-muted-foreground'}`}
+                >
+                  <span className="truncate">{forklift} · {profile.name}</span>
+                  <span className="text-right font-mono">{formatNumber(profile.lengthM, 1)} m</span>
+                  <span className="text-right font-mono">{formatNumber(profile.widthM, 1)} m</span>
+                  <span className="text-right font-mono">{formatNumber(profile.turningRadiusM, 1)} m</span>
+                  <span className="text-right font-mono">{formatNumber(sweptRadius(profile, design), 1)} m</span>
+                </div>
+              );
+            })}
+          </div>
+
+          {checked > 0 && (
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground">Corners / dead-ends checked</span>
+              <span className="font-medium">{report.corners.length} / {report.deadEnds.length}</span>
+            </div>
+          )}
+
+          {report.findings.map(finding => (
+            <div key={finding.id} className="flex items-start space-x-3 p-3 rounded-lg bg-muted/30">
+              <div className="w-6 h-6 rounded-full flex items-center justify-center text-safety-600 bg-safety-100">
+                <AlertTriangle className="w-3 h-3" />
+              </div>
+              <div className="flex-1">
+                <p className="text-sm font-medium text-foreground">{finding.message}</p>
+                <p className="text-xs text-muted-foreground mt-1">{finding.suggestion}</p>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default TurningCard;
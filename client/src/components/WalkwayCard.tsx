@@ -0,0 +1,130 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, Footprints, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useAppStore } from '@/lib/store';
+import { useRules } from '@/lib/use-rules';
+import { checkWalkways, DENSITY_WEIGHTS, walkwayLimitsFromRules } from '@/lib/walkways';
+import { formatNumber } from '@/lib/utils';
+
+// Pedestrian walkways of the plan: their width, clearance from equipment
+// and the forklift aisles they cross, weighted by pedestrian density
+const WalkwayCard: React.FC = () => {
+  const { currentPlan, currentRequest, updateWalkway, removeWalkway, checkpointPlan, canvasState, updateCanvasState } = useAppStore();
+  const rules = useRules();
+  const limits = useMemo(() => walkwayLimitsFromRules(rules), [rules]);
+
+  const report = useMemo(
+    () => (currentPlan ? checkWalkways(currentPlan, currentRequest, limits) : undefined),
+    [currentPlan, currentRequest, limits]
+  );
+
+  if (!currentPlan || !report) return null;
+
+  const walkways = currentPlan.walkways ?? [];
+
+  const commitWidth = (index: number, current: number, raw: string) => {
+    const value = Number(raw.trim());
+    if (!Number.isFinite(value) || value <= 0 || value === current) return;
+    checkpointPlan();
+    updateWalkway(index, { widthM: value });
+  };
+
+  const toggleMarked = (index: number) => {
+    checkpointPlan();
+    updateWalkway(index, { marked: !walkways[index].marked });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.25 }}
+    >
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">Pedestrian Walkways</CardTitle>
+            <div className="flex items-center space-x-2">
+              {walkways.length > 0 && (
+                <Badge variant={report.crossings.length > 0 ? 'warning' : 'success'} className="text-xs">
+                  {report.crossings.length} crossing{report.crossings.length === 1 ? '' : 's'}
+                </Badge>
+              )}
+              <Button
+                variant={canvasState.editWalkways ? 'default' : 'ghost'}
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => updateCanvasState({ editWalkways: !canvasState.editWalkways })}
+                title="Draw and edit walkways on the canvas"
+              >
+                <Footprints className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+          <CardDescription>
+            {walkways.length > 0
+              ? `${formatNumber(limits.minWidthM, 2)} m wide (${formatNumber(limits.markedWidthM, 2)} m marked), ${formatNumber(limits.clearanceM, 2)} m from equipment`
+              : 'Turn on walkway editing and click out a route on the canvas'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {walkways.length > 0 && (
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground">
+                Crossing exposure at {report.density} density (×{DENSITY_WEIGHTS[report.density]})
+              </span>
+              <span className="font-medium">{report.weightedCrossings}</span>
+            </div>
+          )}
+
+          {report.walkways.map(summary => (
+            <div key={summary.index} className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">
+                Walkway {summary.index + 1} · {formatNumber(summary.lengthM, 0)} m
+              </span>
+              <div className="flex items-center space-x-1">
+                <label className="flex items-center space-x-1 text-muted-foreground">
+                  <input
+                    type="checkbox"
+                    checked={!!walkways[summary.index]?.marked}
+                    onChange={() => toggleMarked(summary.index)}
+                  />
+                  <span>Marked</span>
+                </label>
+                <input
+                  key={summary.widthM}
+                  defaultValue={summary.widthM}
+                  inputMode="decimal"
+                  onBlur={(e) => commitWidth(summary.index, summary.widthM, e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                  className="w-12 h-6 rounded border border-border/50 bg-background px-1 text-right font-mono"
+                />
+                <span className="text-muted-foreground">m</span>
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => removeWalkway(summary.index)}>
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {report.findings.map(finding => (
+            <div key={finding.id} className="flex items-start space-x-3 p-3 rounded-lg bg-muted/30">
+              <div className="w-6 h-6 rounded-full flex items-center justify-center text-safety-600 bg-safety-100">
+                <AlertTriangle className="w-3 h-3" />
+              </div>
+              <div className="flex-1">
+                <p className="text-sm font-medium text-foreground">{finding.message}</p>
+                <p className="text-xs text-muted-foreground mt-1">{finding.suggestion}</p>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default WalkwayCard;
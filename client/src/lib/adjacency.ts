@@ -0,0 +1,34 @@
+// Adjacency desirability between modules, in [-1, 1]: positive pairs want
+// to be near each other, negative pairs kept apart.  The request's edits
+// sit on top of the ADJACENCY_WEIGHTS defaults.
+
+import { ADJACENCY_WEIGHTS, Request } from './types'
+import { AdjacencyWeights } from './score'
+
+// Key of a module pair: the defaults' key when the pair has one (in either
+// order), otherwise the two keys sorted
+export function adjacencyKey(a: string, b: string): string {
+  const forward = `${a}-${b}`
+  const reverse = `${b}-${a}`
+  if (forward in ADJACENCY_WEIGHTS) return forward
+  if (reverse in ADJACENCY_WEIGHTS) return reverse
+  return a < b ? forward : reverse
+}
+
+export function clampDesirability(value: number): number {
+  return Math.max(-1, Math.min(1, value))
+}
+
+// Defaults with the request's edited pairs applied
+export function resolveAdjacency(request: Partial<Request>): AdjacencyWeights {
+  const weights: AdjacencyWeights = { ...ADJACENCY_WEIGHTS }
+  for (const key in request.adjacency || {}) {
+    const [a, b] = key.split('-')
+    weights[adjacencyKey(a, b)] = clampDesirability(request.adjacency![key])
+  }
+  return weights
+}
+
+export function adjacencyWeight(weights: AdjacencyWeights, a: string, b: string): number {
+  return weights[adjacencyKey(a, b)] ?? 0
+}
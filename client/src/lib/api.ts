@@ -1,4 +1,4 @@
-import { Request, Plan, RuleFinding } from './types'
+import { Request, Plan, RuleFinding, RuleSummary, ProjectSnapshot, ProjectSummary } from './types'
 
 const BASE_URL = 'http://localhost:3002/api'
 
@@ -33,14 +33,24 @@ export interface OptimizeResponse {
 
 export interface ValidationResponse {
 	findings: RuleFinding[]
+	rules: RuleSummary[]
 }
 
+export type ExportFormat = 'json' | 'csv' | 'svg' | 'dxf'
+
 export interface ExportResponse {
 	status: string
+	format?: ExportFormat
+	filename?: string
+	mimeType?: string
 	url?: string
 	data?: any
 }
 
+export interface ProjectListResponse {
+	projects: ProjectSummary[]
+}
+
 export interface AIPlacementsResponse {
 	placements: Array<{ id: string; x: number; y: number; rot: 0|90|180|270 }>
 	rationale?: string
@@ -59,17 +69,17 @@ export const apiService = {
 	},
 
 	// Optimization - return multiple ranked layouts
-	async optimize(plan: Plan, weights: Record<string, number>): Promise<OptimizeResponse> {
-		return request('/layout/optimize', { method: 'POST', body: JSON.stringify({ plan, weights }) })
+	async optimize(plan: Plan, weights: Record<string, number>, site?: Request['site'], t?: Request['t'], adjacency?: Request['adjacency']): Promise<OptimizeResponse> {
+		return request('/layout/optimize', { method: 'POST', body: JSON.stringify({ plan, weights, site, t, adjacency }) })
 	},
 
 	// Validation - check plan against rules
-	async validate(plan: Plan): Promise<ValidationResponse> {
-		return request('/layout/validate', { method: 'POST', body: JSON.stringify({ plan }) })
+	async validate(plan: Plan, site?: Request['site'], t?: Request['t']): Promise<ValidationResponse> {
+		return request('/layout/validate', { method: 'POST', body: JSON.stringify({ plan, site, t }) })
 	},
 
 	// Export - generate various output formats
-	async export(plan: Plan, format: string): Promise<ExportResponse> {
+	async export(plan: Plan, format: ExportFormat): Promise<ExportResponse> {
 		return request('/export', { method: 'POST', body: JSON.stringify({ plan, format }) })
 	},
 
@@ -78,6 +88,23 @@ export const apiService = {
 		return request('/rules')
 	},
 
+	// Projects - file-backed project store on the server
+	async listProjects(): Promise<ProjectListResponse> {
+		return request('/projects')
+	},
+
+	async loadProject(id: string): Promise<ProjectSnapshot> {
+		return request(`/projects/${encodeURIComponent(id)}`)
+	},
+
+	async saveProject(project: ProjectSnapshot): Promise<ProjectSummary> {
+		return request(`/projects/${encodeURIComponent(project.id)}`, { method: 'PUT', body: JSON.stringify(project) })
+	},
+
+	async deleteProject(id: string): Promise<{ status: string; id: string }> {
+		return request(`/projects/${encodeURIComponent(id)}`, { method: 'DELETE' })
+	},
+
 	// AI placements (optional assist)
 	async aiPlacements(payload: any): Promise<AIPlacementsResponse> {
 		return request('/ai/placements', { method: 'POST', body: JSON.stringify(payload) })
@@ -88,6 +115,7 @@ export const apiService = {
 export const queryKeys = {
 	rules: ['rules'],
 	validation: (planId: string) => ['validation', planId],
+	projects: ['projects'],
 	optimization: (planId: string, weights: Record<string, number>) => [
 		'optimization',
 		planId,
@@ -1,5 +1,6 @@
 import { Plan, Block } from './types';
 import { generateId } from './utils';
+import { withKpis } from './kpi';
 
 // Demo data to showcase the UI without backend
 export const createDemoPlan = (): Plan => {
@@ -143,11 +144,9 @@ export const createDemoPlanVariant = (variant: 'A' | 'B' | 'C'): Plan => {
     }
   ];
 
-  // Variant-specific scores and findings
+  // Variant-specific findings; scores are computed from the blocks
   const variantData = {
     A: {
-      score: 0.623,
-      scores: { travel: 0.58, adj: 0.64, safety: 0.72, compact: 0.56 },
       findings: [
         'Suboptimal layout with poor adjacencies',
         'High travel distances between related stations',
@@ -155,8 +154,6 @@ export const createDemoPlanVariant = (variant: 'A' | 'B' | 'C'): Plan => {
       ]
     },
     B: {
-      score: 0.891,
-      scores: { travel: 0.89, adj: 0.92, safety: 0.94, compact: 0.82 },
       findings: [
         'Optimized adjacency between inbound and depalletizer',
         'Reduced travel distances by 34%',
@@ -165,8 +162,6 @@ export const createDemoPlanVariant = (variant: 'A' | 'B' | 'C'): Plan => {
       ]
     },
     C: {
-      score: 0.874,
-      scores: { travel: 0.86, adj: 0.88, safety: 0.96, compact: 0.84 },
       findings: [
         'Alternative layout with compact footprint',
         'Excellent safety compliance',
@@ -178,13 +173,13 @@ export const createDemoPlanVariant = (variant: 'A' | 'B' | 'C'): Plan => {
 
   const data = variantData[variant];
 
-  return {
+  return withKpis({
     id: `demo-plan-${variant.toLowerCase()}`,
     blocks,
-    score: data.score,
-    scores: data.scores,
+    score: 0,
+    scores: { travel: 0, adj: 0, safety: 0, compact: 0 },
     ruleFindings: data.findings
-  };
+  }, {});
 };
 
 // Create deliberately suboptimal starting layout - AVOIDING CENTRAL SPINE AT Y=30
@@ -308,17 +303,17 @@ function createSuboptimalStartingLayout(): Plan {
     }
   ];
 
-  return {
+  return withKpis({
     id: 'demo-plan-a',
     blocks,
-    score: 0.623,
-    scores: { travel: 0.58, adj: 0.64, safety: 0.72, compact: 0.56 },
+    score: 0,
+    scores: { travel: 0, adj: 0, safety: 0, compact: 0 },
     ruleFindings: [
       'Suboptimal layout with poor adjacencies',
       'High travel distances between related stations',
       'Inefficient space utilization'
     ]
-  };
+  }, {});
 }
 
 export const createDemoOptimizationResult = () => {
@@ -0,0 +1,246 @@
+// Dock sizing: the doors each dock needs for its pallet rate, doors laid out
+// along a wall at the configured spacing, and whether the inbound and
+// outbound staging blocks are deep and large enough for the pallets a door
+// brings in at peak.  Figures default to dock_design in rules.yaml.
+
+import { Block, BlockSide, DockDoor, DockRole, Plan, Request, RuleFinding, Site } from './types'
+import { getIOPoints } from './io-points'
+import { Point } from './routing'
+import { FEET_TO_M, feetOr, metres } from './units'
+
+export interface DockDesign {
+  doorWidthM: number
+  doorSpacingM: number // centre to centre
+  apronDepthM: number // truck apron outside the wall
+  stagingDepthFactor: number // ft of staging depth per peak pallet per door
+  palletsPerDoorPerH: number
+  stagingM2PerPallet: number
+}
+
+export const DEFAULT_DOCK_DESIGN: DockDesign = {
+  doorWidthM: 9 * FEET_TO_M,
+  doorSpacingM: 12 * FEET_TO_M,
+  apronDepthM: 35 * FEET_TO_M,
+  stagingDepthFactor: 2.5,
+  palletsPerDoorPerH: 20,
+  stagingM2PerPallet: 1.2,
+}
+
+export function dockDesignFromRules(rules?: Record<string, any>): DockDesign {
+  const dock = rules?.dock_design || {}
+  const d = DEFAULT_DOCK_DESIGN
+  return {
+    doorWidthM: feetOr(dock.dock_door_width, d.doorWidthM),
+    doorSpacingM: feetOr(dock.door_spacing, d.doorSpacingM),
+    apronDepthM: feetOr(dock.min_apron_depth, d.apronDepthM),
+    stagingDepthFactor: Number(dock.staging_depth_factor) || d.stagingDepthFactor,
+    palletsPerDoorPerH: Number(dock.pallets_per_door_per_hour) || d.palletsPerDoorPerH,
+    stagingM2PerPallet: Number(rules?.area_coefficients?.staging) || d.stagingM2PerPallet,
+  }
+}
+
+export const DOCK_ROLES: DockRole[] = ['inbound', 'outbound']
+
+// Pallets cross the inbound dock on the way in and the outbound on the way out
+const DOCK_KIND: Record<DockRole, 'in' | 'out'> = { inbound: 'in', outbound: 'out' }
+
+export function dockRate(role: DockRole, request: Partial<Request>): number {
+  return (role === 'inbound' ? request.t?.palletsInPerH : request.t?.palletsOutPerH) || 0
+}
+
+export function requiredDoors(rate: number, design: DockDesign = DEFAULT_DOCK_DESIGN): number {
+  return rate > 0 ? Math.ceil(rate / design.palletsPerDoorPerH) : 0
+}
+
+// Side of a staging block that faces the trucks, after rotation
+export function dockSide(block: Block): BlockSide {
+  const role = block.key as DockRole
+  return getIOPoints(block).find(p => p.kind === DOCK_KIND[role] && p.label === 'Dock door')?.side
+    ?? getIOPoints(block).find(p => p.kind === DOCK_KIND[role])?.side
+    ?? 'top'
+}
+
+// Depth of a staging block away from its dock face
+export function stagingDepth(block: Block): number {
+  const side = dockSide(block)
+  return side === 'top' || side === 'bottom' ? block.h : block.w
+}
+
+function wallLength(site: Pick<Site, 'widthM' | 'heightM'>, side: BlockSide): number {
+  return side === 'top' || side === 'bottom' ? site.widthM : site.heightM
+}
+
+// Point along a wall a run of doors is centred on: the middle of the role's
+// staging blocks, or the middle of the wall without any
+function runCentre(plan: Plan | undefined, role: DockRole, side: BlockSide, length: number): number {
+  const blocks = plan?.blocks.filter(b => b.key === role) ?? []
+  if (blocks.length === 0) return length / 2
+  const horizontal = side === 'top' || side === 'bottom'
+  const lo = Math.min(...blocks.map(b => (horizontal ? b.x : b.y)))
+  const hi = Math.max(...blocks.map(b => (horizontal ? b.x + b.w : b.y + b.h)))
+  return (lo + hi) / 2
+}
+
+// Wall the role's doors go on by default: the one its staging faces
+export function suggestedDockWall(plan: Plan | undefined, role: DockRole): BlockSide {
+  const block = plan?.blocks.find(b => b.key === role)
+  if (block) return dockSide(block)
+  return role === 'inbound' ? 'top' : 'bottom'
+}
+
+// `count` doors of `role` on a wall at the configured spacing, centred on
+// the staging blocks and kept inside the wall; doors on the same wall of
+// other roles are stepped around.  Fewer come back when the wall is full.
+export function layoutDockDoors(
+  site: Pick<Site, 'widthM' | 'heightM' | 'docks'>,
+  plan: Plan | undefined,
+  role: DockRole,
+  side: BlockSide,
+  count: number,
+  design: DockDesign = DEFAULT_DOCK_DESIGN
+): Array<Omit<DockDoor, 'id'>> {
+  const length = wallLength(site, side)
+  const pitch = Math.max(design.doorSpacingM, design.doorWidthM)
+  const half = design.doorWidthM / 2
+  const taken = (site.docks ?? []).filter(d => d.side === side && d.role !== role)
+  const free = (offset: number) => taken.every(d => Math.abs(d.offset - offset) >= pitch - 1e-6)
+
+  // Every slot on the wall at the door pitch, nearest the centre first
+  const slots: number[] = []
+  const first = half + ((length - 2 * half) % pitch) / 2
+  for (let offset = first; offset <= length - half + 1e-6; offset += pitch) {
+    if (free(offset)) slots.push(offset)
+  }
+  const centre = runCentre(plan, role, side, length)
+  return slots
+    .sort((a, b) => Math.abs(a - centre) - Math.abs(b - centre))
+    .slice(0, count)
+    .sort((a, b) => a - b)
+    .map(offset => ({ role, side, offset, widthM: design.doorWidthM }))
+}
+
+// Both ends of a dock door's opening on the site boundary
+export function dockDoorSegment(door: DockDoor, site: Pick<Site, 'widthM' | 'heightM'>): [Point, Point] {
+  const half = door.widthM / 2
+  switch (door.side) {
+    case 'top': return [{ x: door.offset - half, y: 0 }, { x: door.offset + half, y: 0 }]
+    case 'bottom': return [{ x: door.offset - half, y: site.heightM }, { x: door.offset + half, y: site.heightM }]
+    case 'left': return [{ x: 0, y: door.offset - half }, { x: 0, y: door.offset + half }]
+    case 'right': return [{ x: site.widthM, y: door.offset - half }, { x: site.widthM, y: door.offset + half }]
+  }
+}
+
+// Block updates that deepen a staging block to `depthM`, keeping its dock
+// face where it is
+export function deepenStaging(block: Block, depthM: number): Pick<Block, 'x' | 'y' | 'w' | 'h'> {
+  const side = dockSide(block)
+  const depth = Math.ceil(depthM)
+  switch (side) {
+    case 'top': return { x: block.x, y: block.y, w: block.w, h: depth }
+    case 'bottom': return { x: block.x, y: Math.max(0, block.y + block.h - depth), w: block.w, h: depth }
+    case 'left': return { x: block.x, y: block.y, w: depth, h: block.h }
+    case 'right': return { x: Math.max(0, block.x + block.w - depth), y: block.y, w: depth, h: block.h }
+  }
+}
+
+export interface StagingCheck {
+  block: Block
+  depthM: number
+  areaM2: number
+}
+
+export interface DockSizing {
+  role: DockRole
+  rate: number // pallets/h
+  required: number // doors
+  placed: number
+  peakPerDoor: number // pallets/h through one door at the doors in use
+  stagingDepthM: number // required depth of the staging blocks
+  stagingAreaM2: number // required area, all the role's blocks together
+  staging: StagingCheck[]
+}
+
+export interface DockReport {
+  docks: DockSizing[]
+  findings: RuleFinding[]
+}
+
+const doors = (n: number) => `${n} door${n === 1 ? '' : 's'}`
+
+// Door counts and staging for both docks; doors not yet placed count at the
+// required number so staging is sized for the dock it will get
+export function checkDocks(plan: Plan, request: Partial<Request>, design: DockDesign = DEFAULT_DOCK_DESIGN): DockReport {
+  const docks: DockSizing[] = []
+  const findings: RuleFinding[] = []
+  const flag = (finding: Pick<RuleFinding, 'id' | 'message' | 'suggestion' | 'blockId'>) =>
+    findings.push({ type: 'info', rule: 'dock_capacity', ...finding })
+
+  for (const role of DOCK_ROLES) {
+    const rate = dockRate(role, request)
+    const required = requiredDoors(rate, design)
+    const placed = (request.site?.docks ?? []).filter(d => d.role === role).length
+    const inUse = placed || required
+    const peakPerDoor = inUse > 0 ? rate / inUse : 0
+    const stagingDepthM = design.stagingDepthFactor * peakPerDoor * FEET_TO_M
+    const stagingAreaM2 = design.stagingM2PerPallet * peakPerDoor * inUse
+    const staging = plan.blocks
+      .filter(b => b.key === role)
+      .map(block => ({ block, depthM: stagingDepth(block), areaM2: block.w * block.h }))
+    docks.push({ role, rate, required, placed, peakPerDoor, stagingDepthM, stagingAreaM2, staging })
+    if (rate <= 0) continue
+
+    if (placed < required) {
+      flag({
+        id: `${role}-doors`,
+        message: `${role === 'inbound' ? 'Inbound' : 'Outbound'} dock has ${placed > 0 ? doors(placed) : 'no doors'}, ${required} needed`,
+        suggestion: `${Math.round(rate)} pallets/h at ${design.palletsPerDoorPerH} per door; lay out ${required - placed} more`,
+      })
+    }
+    if (staging.length === 0) {
+      flag({
+        id: `${role}-staging`,
+        message: `No ${role} staging for ${Math.round(rate)} pallets/h`,
+        suggestion: `Place a ${role} block at least ${metres(stagingDepthM)} deep behind the doors`,
+      })
+      continue
+    }
+    for (const s of staging) {
+      if (s.depthM >= stagingDepthM - 1e-6) continue
+      flag({
+        id: `${role}-depth-${s.block.id}`,
+        blockId: s.block.id,
+        message: `${role === 'inbound' ? 'Inbound' : 'Outbound'} staging is ${metres(s.depthM)} deep, ${metres(stagingDepthM)} needed`,
+        suggestion: `${design.stagingDepthFactor} ft per pallet/h at ${formatPallets(peakPerDoor)} pallets/h a door; deepen it away from the dock face`,
+      })
+    }
+    const area = staging.reduce((sum, s) => sum + s.areaM2, 0)
+    if (area < stagingAreaM2 - 1e-6) {
+      flag({
+        id: `${role}-area`,
+        message: `${role === 'inbound' ? 'Inbound' : 'Outbound'} staging has ${Math.round(area)} m², ${Math.round(stagingAreaM2)} m² needed`,
+        suggestion: `${design.stagingM2PerPallet} m² per pallet for ${doors(inUse)} at ${formatPallets(peakPerDoor)} pallets/h each`,
+      })
+    }
+  }
+
+  // Doors the wall cannot hold, or that run into one another
+  const placedDoors = request.site?.docks ?? []
+  placedDoors.forEach((door, i) => {
+    const length = request.site ? wallLength(request.site, door.side) : Infinity
+    const clash = placedDoors.some((other, j) =>
+      j < i && other.side === door.side && Math.abs(other.offset - door.offset) < (door.widthM + other.widthM) / 2)
+    if (door.offset - door.widthM / 2 < -1e-6 || door.offset + door.widthM / 2 > length + 1e-6 || clash) {
+      flag({
+        id: `door-${door.id}`,
+        message: `A ${door.role} door on the ${door.side} wall ${clash ? 'overlaps another door' : 'runs past the wall'}`,
+        suggestion: 'Lay the doors out again or remove it',
+      })
+    }
+  })
+
+  return { docks, findings }
+}
+
+function formatPallets(value: number): string {
+  return value >= 10 ? value.toFixed(0) : value.toFixed(1)
+}
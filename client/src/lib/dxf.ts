@@ -0,0 +1,223 @@
+// Minimal ASCII DXF reader for importing existing building shells.
+// Supports LINE, LWPOLYLINE and CIRCLE entities; everything else is skipped.
+// Output is in site coordinates: meters, origin at the top-left of the
+// boundary, Y pointing down (the canvas convention).
+
+import { RectM } from './grid'
+
+export type DxfEntityType = 'LINE' | 'LWPOLYLINE' | 'CIRCLE'
+
+export interface DxfEntity {
+  type: DxfEntityType
+  layer: string
+  points: Array<[number, number]> // LINE: 2 points, LWPOLYLINE: vertices, CIRCLE: center
+  closed?: boolean
+  radius?: number
+}
+
+export interface DxfDocument {
+  insUnits?: number // $INSUNITS header value
+  entities: DxfEntity[]
+}
+
+// Which layer names feed which part of the site; first match wins in the
+// order columns → boundary → obstructions.  Boundary and column names match
+// whole tokens between -, _ or spaces, so A-EXTERIOR and BUILDING_SHELL count
+// while TEXT, NEXT or COLOR don't.
+export interface DxfLayerMapping {
+  boundary: RegExp
+  columns: RegExp
+  obstructions: RegExp
+}
+
+export const DEFAULT_LAYER_MAPPING: DxfLayerMapping = {
+  boundary: /(^|[-_ ])(boundary|site|shell|outline|ext(erior)?)([-_ ]|$)/i,
+  columns: /(^|[-_ ])col(umn)?s?([-_ ]|$)/i,
+  obstructions: /obstruct|no.?go|keep.?out|wall|equip|mezz|stair|pit|office/i,
+}
+
+export interface DxfImportOptions {
+  layers?: DxfLayerMapping
+  wallThickness?: number // meters; LINE obstructions are inflated to this width
+}
+
+export interface ImportedSite {
+  widthM: number
+  heightM: number
+  obstructions: RectM[]
+  columns: RectM[]
+  warnings: string[]
+}
+
+// $INSUNITS codes → meters per drawing unit
+const INSUNITS_TO_METERS: Record<number, number> = {
+  1: 0.0254, // inches
+  2: 0.3048, // feet
+  4: 0.001, // millimeters
+  5: 0.01, // centimeters
+  6: 1, // meters
+}
+
+export function parseDxf(text: string): DxfDocument {
+  const lines = text.split(/\r?\n/)
+  const pairs: Array<[number, string]> = []
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i].trim(), 10)
+    if (Number.isNaN(code)) throw new Error(`Invalid DXF group code on line ${i + 1}`)
+    pairs.push([code, lines[i + 1].trim()])
+  }
+
+  const doc: DxfDocument = { entities: [] }
+  let section = ''
+  let current: DxfEntity | null = null
+  let pendingX: number | null = null
+
+  const flush = () => {
+    if (current && current.points.length > 0) doc.entities.push(current)
+    current = null
+    pendingX = null
+  }
+
+  for (let i = 0; i < pairs.length; i++) {
+    const [code, value] = pairs[i]
+
+    if (code === 0) {
+      flush()
+      if (value === 'SECTION') {
+        const next = pairs[i + 1]
+        section = next && next[0] === 2 ? next[1] : ''
+      } else if (value === 'ENDSEC') {
+        section = ''
+      } else if (section === 'ENTITIES' && (value === 'LINE' || value === 'LWPOLYLINE' || value === 'CIRCLE')) {
+        current = { type: value, layer: '0', points: [] }
+      }
+      continue
+    }
+
+    if (section === 'HEADER' && code === 9 && value === '$INSUNITS') {
+      const next = pairs[i + 1]
+      if (next) doc.insUnits = parseInt(next[1], 10)
+      continue
+    }
+
+    if (!current) continue
+    const entity: DxfEntity = current
+    const num = parseFloat(value)
+    switch (code) {
+      case 8:
+        entity.layer = value
+        break
+      case 10:
+      case 11:
+        pendingX = num
+        break
+      case 20:
+      case 21:
+        if (pendingX !== null) entity.points.push([pendingX, num])
+        pendingX = null
+        break
+      case 40:
+        if (entity.type === 'CIRCLE') entity.radius = num
+        break
+      case 70:
+        if (entity.type === 'LWPOLYLINE') entity.closed = (parseInt(value, 10) & 1) === 1
+        break
+    }
+  }
+  flush()
+  return doc
+}
+
+type LayerRole = 'boundary' | 'columns' | 'obstructions'
+
+function layerRole(layer: string, mapping: DxfLayerMapping): LayerRole | null {
+  if (mapping.columns.test(layer)) return 'columns'
+  if (mapping.boundary.test(layer)) return 'boundary'
+  if (mapping.obstructions.test(layer)) return 'obstructions'
+  return null
+}
+
+// Axis-aligned extent of an entity in drawing units
+function entityExtent(e: DxfEntity): { minX: number; minY: number; maxX: number; maxY: number } {
+  if (e.type === 'CIRCLE') {
+    const [cx, cy] = e.points[0]
+    const r = e.radius || 0
+    return { minX: cx - r, minY: cy - r, maxX: cx + r, maxY: cy + r }
+  }
+  return e.points.reduce((acc, [x, y]) => ({
+    minX: Math.min(acc.minX, x),
+    minY: Math.min(acc.minY, y),
+    maxX: Math.max(acc.maxX, x),
+    maxY: Math.max(acc.maxY, y),
+  }), { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity })
+}
+
+// Convert parsed entities into a site: the boundary layer's extent becomes
+// widthM/heightM, columns and obstructions become rectangles within it.
+export function dxfToSite(doc: DxfDocument, opts: DxfImportOptions = {}): ImportedSite {
+  const mapping = opts.layers ?? DEFAULT_LAYER_MAPPING
+  const wallThickness = opts.wallThickness ?? 0.3
+  const warnings: string[] = []
+
+  if (doc.entities.length === 0) throw new Error('No LINE, LWPOLYLINE or CIRCLE entities found')
+
+  const byRole: Record<LayerRole, DxfEntity[]> = { boundary: [], columns: [], obstructions: [] }
+  const ignoredLayers = new Set<string>()
+  for (const e of doc.entities) {
+    const role = layerRole(e.layer, mapping)
+    if (role) byRole[role].push(e)
+    else ignoredLayers.add(e.layer)
+  }
+  if (ignoredLayers.size > 0) {
+    warnings.push(`Ignored layers: ${[...ignoredLayers].join(', ')}`)
+  }
+
+  const shell = byRole.boundary.length > 0 ? byRole.boundary : doc.entities
+  if (byRole.boundary.length === 0) {
+    warnings.push('No boundary layer found; using the extent of all entities as the site')
+  }
+  const extent = shell.map(entityExtent).reduce((acc, r) => ({
+    minX: Math.min(acc.minX, r.minX),
+    minY: Math.min(acc.minY, r.minY),
+    maxX: Math.max(acc.maxX, r.maxX),
+    maxY: Math.max(acc.maxY, r.maxY),
+  }))
+
+  let scale = doc.insUnits !== undefined ? INSUNITS_TO_METERS[doc.insUnits] : undefined
+  if (scale === undefined) {
+    // Unitless drawings: buildings wider than 5 km are almost certainly in mm
+    scale = Math.max(extent.maxX - extent.minX, extent.maxY - extent.minY) > 5000 ? 0.001 : 1
+    warnings.push(`Drawing units not declared; assuming ${scale === 1 ? 'meters' : 'millimeters'}`)
+  }
+
+  // Drawing Y points up; flip so the top edge of the boundary is y = 0
+  const toSiteRect = (r: { minX: number; minY: number; maxX: number; maxY: number }): RectM => ({
+    x: (r.minX - extent.minX) * scale!,
+    y: (extent.maxY - r.maxY) * scale!,
+    w: (r.maxX - r.minX) * scale!,
+    h: (r.maxY - r.minY) * scale!,
+  })
+
+  const columns = byRole.columns.map(e => toSiteRect(entityExtent(e)))
+  const obstructions = byRole.obstructions.map(e => {
+    const rect = toSiteRect(entityExtent(e))
+    // A single wall LINE has no area; give it a physical thickness
+    if (e.type === 'LINE') {
+      if (rect.w < wallThickness) { rect.x -= (wallThickness - rect.w) / 2; rect.w = wallThickness }
+      if (rect.h < wallThickness) { rect.y -= (wallThickness - rect.h) / 2; rect.h = wallThickness }
+    }
+    return rect
+  })
+
+  return {
+    widthM: (extent.maxX - extent.minX) * scale,
+    heightM: (extent.maxY - extent.minY) * scale,
+    obstructions,
+    columns,
+    warnings,
+  }
+}
+
+export function importDxfSite(text: string, opts: DxfImportOptions = {}): ImportedSite {
+  return dxfToSite(parseDxf(text), opts)
+}
@@ -0,0 +1,264 @@
+// Emergency egress: the shortest walk from every walkable floor cell to the
+// nearest exit, checked against the maximum travel distance, and the floor
+// too narrow for the egress width.  Walkable floor is everything inside the
+// site that is not a module or an obstruction; aisles are walkable.  While no
+// exits are placed, any stretch of exterior wall counts as one.  The limits
+// default to safety_clearances in rules.yaml.  server/egress.js mirrors this
+// for the emergency_egress rule, so the card and validation agree.
+
+import { Exit, Plan, Request, RuleFinding, Site } from './types'
+import { CellZone, cellZones, GridIndex } from './grid'
+import { Point } from './routing'
+import { getSiteObstacles } from './site'
+import { FEET_TO_M, feetOr, INCH_TO_M, inchesOr } from './units'
+import { formatNumber } from './utils'
+
+// Finer than the routing grid so that gaps close to the egress width are
+// told apart
+export const EGRESS_CELL_M = 0.25
+const DIAGONAL = Math.SQRT2
+
+// A 44" egress width fits through a standard pair of leaves
+export const DEFAULT_EXIT_WIDTH_M = 1.2
+
+export interface EgressLimits {
+  maxTravelM: number
+  egressWidthM: number
+}
+
+export const DEFAULT_EGRESS_LIMITS: EgressLimits = {
+  maxTravelM: 200 * FEET_TO_M,
+  egressWidthM: 44 * INCH_TO_M,
+}
+
+export function egressLimitsFromRules(rules?: Record<string, any>): EgressLimits {
+  const safety = rules?.safety_clearances || {}
+  return {
+    maxTravelM: feetOr(safety.max_travel_distance, DEFAULT_EGRESS_LIMITS.maxTravelM),
+    egressWidthM: inchesOr(safety.emergency_egress_width, DEFAULT_EGRESS_LIMITS.egressWidthM),
+  }
+}
+
+// Far zones are worst at their longest walk (Infinity when cut off), narrow
+// zones at their narrowest width (m)
+export type EgressZone = CellZone
+
+export interface EgressMap {
+  cellSize: number // m; cells start at the origin like the routing grid
+  cols: number
+  rows: number
+  distance: Float64Array // m to the nearest exit; -1 off the floor, Infinity when cut off
+  narrow: Uint8Array // 1 where the floor is narrower than the egress width
+  limits: EgressLimits
+  maxDistance: number // longest walk from a reachable cell
+  farZones: EgressZone[] // connected floor beyond the limit, worst first
+  narrowZones: EgressZone[] // connected floor too narrow, narrowest first
+  blockedExits: string[] // exits with no floor in front of them
+  toWalls: boolean // no exits placed; distances run to the exterior wall
+}
+
+// Both ends of an exit's opening on the site boundary
+export function exitSegment(exit: Exit, site: Pick<Site, 'widthM' | 'heightM'>): [Point, Point] {
+  const half = exit.widthM / 2
+  switch (exit.side) {
+    case 'top': return [{ x: exit.offset - half, y: 0 }, { x: exit.offset + half, y: 0 }]
+    case 'bottom': return [{ x: exit.offset - half, y: site.heightM }, { x: exit.offset + half, y: site.heightM }]
+    case 'left': return [{ x: 0, y: exit.offset - half }, { x: 0, y: exit.offset + half }]
+    case 'right': return [{ x: site.widthM, y: exit.offset - half }, { x: site.widthM, y: exit.offset + half }]
+  }
+}
+
+// Exit placement for a point: the nearest side, with the door kept whole
+export function nearestExitPlacement(site: Pick<Site, 'widthM' | 'heightM'>, point: Point, widthM = DEFAULT_EXIT_WIDTH_M): Omit<Exit, 'id'> {
+  const { widthM: w, heightM: h } = site
+  const sides: Array<[Exit['side'], number, number]> = [
+    ['top', point.y, point.x],
+    ['bottom', h - point.y, point.x],
+    ['left', point.x, point.y],
+    ['right', w - point.x, point.y],
+  ]
+  const [side, , along] = sides.reduce((best, s) => (Math.abs(s[1]) < Math.abs(best[1]) ? s : best))
+  const length = side === 'top' || side === 'bottom' ? w : h
+  const half = Math.min(widthM, length) / 2
+  return { side, offset: Math.max(half, Math.min(length - half, along)), widthM }
+}
+
+// Egress over a plan; undefined without a site
+export function computeEgress(plan: Plan, request: Partial<Request>, limits: EgressLimits = DEFAULT_EGRESS_LIMITS): EgressMap | undefined {
+  const site = request.site
+  if (!site?.widthM || !site?.heightM) return undefined
+  const exits = site.exits ?? []
+
+  const cs = EGRESS_CELL_M
+  const grid = new GridIndex({ cellSize: cs, width: site.widthM, height: site.heightM })
+  for (const o of getSiteObstacles(site)) grid.fillRect(o)
+  for (const b of plan.blocks) if (b.key !== 'aisle') grid.fillRect(b)
+  const { cols, rows } = grid
+  const floor = (c: number, r: number) => grid.get(c, r) === 0
+
+  // Width of the floor through each cell: the shorter of its horizontal and
+  // vertical runs of walkable cells
+  const across = new Float32Array(cols * rows)
+  const down = new Float32Array(cols * rows)
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; ) {
+      if (!floor(c, r)) { c++; continue }
+      let end = c
+      while (end < cols && floor(end, r)) end++
+      for (let k = c; k < end; k++) across[r * cols + k] = (end - c) * cs
+      c = end
+    }
+  }
+  for (let c = 0; c < cols; c++) {
+    for (let r = 0; r < rows; ) {
+      if (!floor(c, r)) { r++; continue }
+      let end = r
+      while (end < rows && floor(c, end)) end++
+      for (let k = r; k < end; k++) down[k * cols + c] = (end - r) * cs
+      r = end
+    }
+  }
+  const narrow = new Uint8Array(cols * rows)
+  for (let i = 0; i < narrow.length; i++) {
+    if (across[i] > 0 && Math.min(across[i], down[i]) < limits.egressWidthM - 1e-6) narrow[i] = 1
+  }
+
+  // Dijkstra from the floor cells along every exit opening; diagonal steps
+  // may not cut a corner
+  const distance = new Float64Array(cols * rows).fill(Infinity)
+  for (let r = 0; r < rows; r++) for (let c = 0; c < cols; c++) if (!floor(c, r)) distance[r * cols + c] = -1
+  const heap: Array<[number, number]> = []
+  const push = (node: number, d: number) => {
+    heap.push([d, node])
+    let i = heap.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (heap[parent][0] <= heap[i][0]) break
+      ;[heap[parent], heap[i]] = [heap[i], heap[parent]]
+      i = parent
+    }
+  }
+  const pop = (): [number, number] => {
+    const top = heap[0]
+    const last = heap.pop()!
+    if (heap.length > 0) {
+      heap[0] = last
+      let i = 0
+      for (;;) {
+        const l = 2 * i + 1
+        const rr = l + 1
+        let m = i
+        if (l < heap.length && heap[l][0] < heap[m][0]) m = l
+        if (rr < heap.length && heap[rr][0] < heap[m][0]) m = rr
+        if (m === i) break
+        ;[heap[m], heap[i]] = [heap[i], heap[m]]
+        i = m
+      }
+    }
+    return top
+  }
+
+  const seed = (c: number, r: number) => {
+    const node = r * cols + c
+    distance[node] = cs / 2
+    push(node, cs / 2)
+  }
+  // Without exits, every floor cell along the walls
+  if (exits.length === 0) {
+    for (let c = 0; c < cols; c++) {
+      if (floor(c, 0)) seed(c, 0)
+      if (rows > 1 && floor(c, rows - 1)) seed(c, rows - 1)
+    }
+    for (let r = 1; r < rows - 1; r++) {
+      if (floor(0, r)) seed(0, r)
+      if (cols > 1 && floor(cols - 1, r)) seed(cols - 1, r)
+    }
+  }
+
+  // Floor cells along each opening; an exit with none is blocked off
+  const span = (lo: number, hi: number, n: number): [number, number] =>
+    [Math.max(0, Math.floor(lo / cs)), Math.min(n - 1, Math.ceil(hi / cs) - 1)]
+  const blockedExits: string[] = []
+  for (const exit of exits) {
+    const [a, b] = exitSegment(exit, site)
+    const horizontal = exit.side === 'top' || exit.side === 'bottom'
+    const [from, to] = horizontal ? span(a.x, b.x, cols) : span(a.y, b.y, rows)
+    const line = exit.side === 'top' || exit.side === 'left' ? 0 : (horizontal ? rows : cols) - 1
+    let open = false
+    for (let k = from; k <= to; k++) {
+      const [c, r] = horizontal ? [k, line] : [line, k]
+      if (!floor(c, r)) continue
+      open = true
+      seed(c, r)
+    }
+    if (!open) blockedExits.push(exit.id)
+  }
+
+  const steps: Array<[number, number, number]> = [
+    [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+    [1, 1, DIAGONAL], [1, -1, DIAGONAL], [-1, 1, DIAGONAL], [-1, -1, DIAGONAL],
+  ]
+  while (heap.length > 0) {
+    const [d, node] = pop()
+    if (d > distance[node]) continue
+    const c = node % cols
+    const r = (node - c) / cols
+    for (const [dc, dr, cost] of steps) {
+      const nc = c + dc
+      const nr = r + dr
+      if (!floor(nc, nr)) continue
+      if (dc !== 0 && dr !== 0 && (!floor(c + dc, r) || !floor(c, r + dr))) continue
+      const next = nr * cols + nc
+      const nd = d + cost * cs
+      if (nd < distance[next]) {
+        distance[next] = nd
+        push(next, nd)
+      }
+    }
+  }
+
+  let maxDistance = 0
+  const far = new Uint8Array(cols * rows)
+  for (let i = 0; i < distance.length; i++) {
+    const d = distance[i]
+    if (d < 0) continue
+    if (d !== Infinity) maxDistance = Math.max(maxDistance, d)
+    if (d > limits.maxTravelM) far[i] = 1
+  }
+
+  const farZones = cellZones(cols, rows, cs, i => far[i] === 1, i => distance[i], (a, b) => a > b)
+    .sort((a, b) => b.worst - a.worst)
+  const narrowZones = cellZones(cols, rows, cs, i => narrow[i] === 1, i => Math.min(across[i], down[i]), (a, b) => a < b)
+    .sort((a, b) => a.worst - b.worst)
+
+  return { cellSize: cs, cols, rows, distance, narrow, limits, maxDistance, farZones, narrowZones, blockedExits, toWalls: exits.length === 0 }
+}
+
+const zoneLocation = (zone: EgressZone) => `${formatNumber(zone.bounds.x, 0)}, ${formatNumber(zone.bounds.y, 0)} m`
+
+// Blocked exits, floor beyond the travel limit and passages too narrow
+export function egressFindings(egress: EgressMap, exits: Exit[]): RuleFinding[] {
+  const { limits } = egress
+  const target = egress.toWalls ? 'an exterior wall' : 'an exit'
+  const finding = (id: string, message: string, suggestion: string): RuleFinding =>
+    ({ id, type: 'error', rule: 'emergency_egress', message, suggestion })
+  return [
+    ...egress.blockedExits.map(id => finding(
+      `blocked-${id}`,
+      `Exit ${exits.findIndex(e => e.id === id) + 1} is blocked`,
+      'Equipment stands against it; move the equipment or the exit'
+    )),
+    ...egress.farZones.map((zone, i) => finding(
+      `far-${i}`,
+      zone.worst === Infinity
+        ? `Floor at ${zoneLocation(zone)} has no way to ${target}`
+        : `Floor at ${zoneLocation(zone)} is ${formatNumber(zone.worst, 0)} m from ${target}`,
+      `${formatNumber(zone.cells * egress.cellSize ** 2, 0)} m² beyond the ${formatNumber(limits.maxTravelM, 0)} m limit; add an exit nearer to it or open a shorter path`
+    )),
+    ...egress.narrowZones.map((zone, i) => finding(
+      `narrow-${i}`,
+      `Passage at ${zoneLocation(zone)} is ${formatNumber(zone.worst, 1)} m wide`,
+      `Egress paths need ${formatNumber(limits.egressWidthM, 2)} m; close it off or widen it`
+    )),
+  ]
+}
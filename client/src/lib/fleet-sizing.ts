@@ -0,0 +1,106 @@
+// Fleet sizing: how many forklifts and AMRs a layout needs to carry its
+// material flows.  Each move is a loaded trip along the routed path plus an
+// empty return along the same route, with load and unload time at the ends;
+// the busy hours per hour of every flow are summed per vehicle class and
+// divided by the target utilization.  The AMR count sizes the charging area
+// from `automation.robot_charging_area` in rules.yaml.
+
+import { Block, Fleet, ModuleKey, Plan, Request, VehicleClass, VehicleSpec } from './types'
+import { FLOW_CHAIN, routedFlows } from './flows'
+
+export const DEFAULT_FLEET: Fleet = {
+  forklift: { vehicles: 3, speedMps: 2, loadS: 30, unloadS: 30 },
+  amr: { vehicles: 3, speedMps: 1.5, loadS: 10, unloadS: 10 },
+  targetUtilization: 0.8,
+}
+
+// rules.yaml automation.robot_charging_area: ft² per 10 robots
+export const DEFAULT_ROBOT_CHARGING_FT2 = 100
+const FT2_TO_M2 = 0.09290304
+
+export interface FlowSizing {
+  fromKey: string
+  toKey: string
+  vehicle: VehicleClass
+  moves: number // per hour
+  distance: number // m one way, averaged over the moves
+  cycleS: number // loaded out, empty back, load and unload
+  vehicles: number // busy vehicles this flow keeps at 100% utilization
+}
+
+export interface ChargingSizing {
+  robots: number
+  areaM2: number // required
+  block?: Block // the layout's charging block, if any
+  currentAreaM2: number
+}
+
+export interface FleetSizingResult {
+  flows: FlowSizing[] // busiest first
+  busy: Record<VehicleClass, number> // vehicles kept busy at 100%
+  recommended: Record<VehicleClass, number> // at the target utilization
+  targetUtilization: number
+  charging: ChargingSizing
+}
+
+// Pallets go by forklift, totes and orders by AMR, decided by what the
+// source stage ships.  Modules off the process chain use AMRs.
+export function vehicleFor(fromKey: string): VehicleClass {
+  const stage = FLOW_CHAIN.find(s => s.modules.includes(fromKey as ModuleKey))
+  return stage?.rateOut === 'palletsInPerH' || stage?.rateOut === 'palletsOutPerH' ? 'forklift' : 'amr'
+}
+
+export function cycleSeconds(spec: VehicleSpec, distance: number): number {
+  return (2 * distance) / spec.speedMps + spec.loadS + spec.unloadS
+}
+
+// Charging area for a robot fleet: the rules' area per started ten robots
+export function chargingAreaM2(robots: number, ft2PerTenRobots = DEFAULT_ROBOT_CHARGING_FT2): number {
+  return Math.ceil(robots / 10) * ft2PerTenRobots * FT2_TO_M2
+}
+
+// Fleet needed for a plan's flows; undefined when there are no flows
+export function sizeFleet(
+  plan: Plan,
+  request: Partial<Request>,
+  chargingFt2PerTenRobots = DEFAULT_ROBOT_CHARGING_FT2
+): FleetSizingResult | undefined {
+  const routed = routedFlows(plan, request)
+  if (!routed) return undefined
+  const fleet = request.fleet ?? DEFAULT_FLEET
+
+  // Block pairs add up per module pair
+  const byPair = new Map<string, { fromKey: string; toKey: string; moves: number; metres: number }>()
+  for (const { from, to, moves, path } of routed) {
+    const key = `${from.key}>${to.key}`
+    const pair = byPair.get(key) ?? { fromKey: from.key, toKey: to.key, moves: 0, metres: 0 }
+    pair.moves += moves
+    pair.metres += moves * path.distance
+    byPair.set(key, pair)
+  }
+
+  const flows: FlowSizing[] = [...byPair.values()].map(({ fromKey, toKey, moves, metres }) => {
+    const vehicle = vehicleFor(fromKey)
+    const avg = metres / moves
+    const cycleS = cycleSeconds(fleet[vehicle], avg)
+    return { fromKey, toKey, vehicle, moves, distance: avg, cycleS, vehicles: (moves * cycleS) / 3600 }
+  })
+  flows.sort((a, b) => b.vehicles - a.vehicles)
+
+  const busy: Record<VehicleClass, number> = { forklift: 0, amr: 0 }
+  for (const f of flows) busy[f.vehicle] += f.vehicles
+  const recommended: Record<VehicleClass, number> = {
+    forklift: Math.ceil(busy.forklift / fleet.targetUtilization),
+    amr: Math.ceil(busy.amr / fleet.targetUtilization),
+  }
+
+  const block = plan.blocks.find(b => b.key === 'charging')
+  const charging: ChargingSizing = {
+    robots: recommended.amr,
+    areaM2: chargingAreaM2(recommended.amr, chargingFt2PerTenRobots),
+    block,
+    currentAreaM2: block ? block.w * block.h : 0,
+  }
+
+  return { flows, busy, recommended, targetUtilization: fleet.targetUtilization, charging }
+}
@@ -0,0 +1,156 @@
+// Material flow model: moves/hour between block instances, derived from the
+// request's throughput along the standard process chain.  Cells edited in
+// the From-To matrix are stored on the plan as per-block overrides.
+
+import { Block, ModuleKey, Plan, Request, Throughput } from './types'
+import { FlowMatrix } from './score'
+import { RoutedPath, ROUTE_CELL_M, TravelRouter } from './routing'
+import { getSiteObstacles, getSiteRect } from './site'
+
+export interface FlowStage {
+  name: string
+  modules: ModuleKey[]
+  rateOut?: keyof Throughput // what leaves this stage for the next one
+}
+
+// Upstream first.  A stage with no blocks in the layout is bridged: the
+// previous stage ships straight to the next one at its own outgoing rate.
+export const FLOW_CHAIN: FlowStage[] = [
+  { name: 'Receiving', modules: ['inbound'], rateOut: 'palletsInPerH' },
+  { name: 'Depalletizing', modules: ['depalletizer'], rateOut: 'palletsInPerH' },
+  { name: 'Storage', modules: ['pallet_asrs', 'tote_asrs'], rateOut: 'totesPerH' },
+  { name: 'Picking', modules: ['gtp', 'picking'], rateOut: 'ordersPerH' },
+  { name: 'Consolidation', modules: ['consolidation'], rateOut: 'ordersPerH' },
+  { name: 'Palletizing', modules: ['palletizer'], rateOut: 'palletsOutPerH' },
+  { name: 'Shipping', modules: ['outbound'] },
+]
+
+function addFlow(flows: FlowMatrix, from: string, to: string, moves: number): void {
+  if (moves <= 0 || from === to) return
+  flows[from] = flows[from] || {}
+  flows[from][to] = (flows[from][to] || 0) + moves
+}
+
+// Flows implied by the throughput; a hop's rate is split evenly over every
+// pair of blocks in the two stages
+export function deriveFlowMatrix(blocks: Block[], request: Partial<Request>): FlowMatrix {
+  const flows: FlowMatrix = {}
+  const t = request.t
+  if (!t) return flows
+
+  const enabled = (key: ModuleKey) => request.modules?.[key] !== false
+  const stages = FLOW_CHAIN
+    .map(stage => ({
+      stage,
+      blocks: blocks.filter(b => stage.modules.includes(b.key as ModuleKey) && enabled(b.key as ModuleKey)),
+    }))
+    .filter(s => s.blocks.length > 0)
+
+  for (let i = 0; i < stages.length - 1; i++) {
+    const from = stages[i]
+    const to = stages[i + 1]
+    const rate = from.stage.rateOut ? t[from.stage.rateOut] || 0 : 0
+    const share = rate / (from.blocks.length * to.blocks.length)
+    for (const a of from.blocks) {
+      for (const b of to.blocks) addFlow(flows, a.id, b.id, share)
+    }
+  }
+  return flows
+}
+
+// Derived flows with hand-edited cells on top; overrides for blocks that no
+// longer exist are ignored.  Undefined when there is no flow at all, so
+// scoring falls back to adjacency weights.
+export function buildFlowMatrix(
+  blocks: Block[],
+  request: Partial<Request>,
+  overrides?: FlowMatrix
+): FlowMatrix | undefined {
+  const flows = deriveFlowMatrix(blocks, request)
+  const ids = new Set(blocks.map(b => b.id))
+  for (const from in overrides || {}) {
+    for (const to in overrides![from]) {
+      if (!ids.has(from) || !ids.has(to) || from === to) continue
+      flows[from] = flows[from] || {}
+      flows[from][to] = Math.max(0, overrides![from][to])
+    }
+  }
+  const total = Object.values(flows).reduce(
+    (sum, row) => sum + Object.values(row).reduce((a, v) => a + v, 0),
+    0
+  )
+  return total > 0 ? flows : undefined
+}
+
+export function planFlowMatrix(plan: Plan, request: Partial<Request>): FlowMatrix | undefined {
+  return buildFlowMatrix(plan.blocks, request, plan.flowOverrides)
+}
+
+export interface RoutedFlow {
+  from: Block
+  to: Block
+  moves: number // per hour
+  path: RoutedPath
+}
+
+// Every non-zero From-To cell of a plan with the route its trips take.
+// Trips go where scoring sends them: around everything but the aisles.
+// Undefined when there are no flows.
+export function routedFlows(plan: Plan, request: Partial<Request>, cellSize = ROUTE_CELL_M): RoutedFlow[] | undefined {
+  const flows = planFlowMatrix(plan, request)
+  if (!flows) return undefined
+  const movable = plan.blocks.filter(b => b.key !== 'aisle')
+  const byId = new Map(movable.map(b => [b.id, b]))
+  const router = new TravelRouter(getSiteRect(request.site, plan.blocks), getSiteObstacles(request.site), cellSize)
+  const pathFor = router.pathsForLayout(movable)
+  const routed: RoutedFlow[] = []
+  for (const fromId in flows) {
+    for (const toId in flows[fromId]) {
+      const from = byId.get(fromId)
+      const to = byId.get(toId)
+      const moves = flows[fromId][toId]
+      if (!from || !to || moves <= 0) continue
+      routed.push({ from, to, moves, path: pathFor(from, to) })
+    }
+  }
+  return routed
+}
+
+// Flows summed per module pair, for the module-level From-To view
+export function moduleFlowMatrix(blocks: Block[], flows: FlowMatrix): FlowMatrix {
+  const keyOf = new Map(blocks.map(b => [b.id, b.key]))
+  const byModule: FlowMatrix = {}
+  for (const from in flows) {
+    for (const to in flows[from]) {
+      const a = keyOf.get(from)
+      const b = keyOf.get(to)
+      if (a && b) addFlow(byModule, a, b, flows[from][to])
+    }
+  }
+  return byModule
+}
+
+// Sets the moves/hour between two modules on a plan's overrides, split
+// evenly over their block pairs like derived flows are.  Undefined drops
+// the pairs' overrides so the derived flow applies again.
+export function setModuleFlow(
+  overrides: FlowMatrix,
+  blocks: Block[],
+  fromKey: string,
+  toKey: string,
+  movesPerH: number | undefined
+): void {
+  const from = blocks.filter(b => b.key === fromKey)
+  const to = blocks.filter(b => b.key === toKey)
+  const share = movesPerH === undefined ? undefined : Math.max(0, movesPerH) / (from.length * to.length)
+  for (const a of from) {
+    for (const b of to) {
+      if (share !== undefined) {
+        overrides[a.id] = { ...(overrides[a.id] || {}), [b.id]: share }
+      } else if (overrides[a.id]) {
+        delete overrides[a.id][b.id]
+        if (Object.keys(overrides[a.id]).length === 0) delete overrides[a.id]
+      }
+    }
+  }
+}
@@ -88,17 +88,76 @@ export class PathMask extends GridIndex {
   }
 }
 
+// Connected stretch of raster cells, with the worst value found in it
+export interface CellZone {
+  bounds: RectM // extent of the zone's cells (m)
+  cells: number
+  worst: number
+}
+
+// Zones of 4-connected cells where `inZone` holds, on a row-major raster
+// starting at the origin
+export function cellZones(
+  cols: number,
+  rows: number,
+  cellSize: number,
+  inZone: (i: number) => boolean,
+  value: (i: number) => number,
+  worse: (a: number, b: number) => boolean
+): CellZone[] {
+  const seen = new Uint8Array(cols * rows)
+  const found: CellZone[] = []
+  for (let start = 0; start < seen.length; start++) {
+    if (seen[start] || !inZone(start)) continue
+    seen[start] = 1
+    const stack = [start]
+    let c0 = cols, r0 = rows, c1 = -1, r1 = -1
+    let worst = value(start)
+    let cells = 0
+    while (stack.length > 0) {
+      const node = stack.pop()!
+      const c = node % cols
+      const r = Math.floor(node / cols)
+      c0 = Math.min(c0, c); c1 = Math.max(c1, c)
+      r0 = Math.min(r0, r); r1 = Math.max(r1, r)
+      if (worse(value(node), worst)) worst = value(node)
+      cells++
+      const neighbours: Array<[number, number]> = [[c + 1, r], [c - 1, r], [c, r + 1], [c, r - 1]]
+      for (const [nc, nr] of neighbours) {
+        if (nc < 0 || nr < 0 || nc >= cols || nr >= rows) continue
+        const next = nr * cols + nc
+        if (seen[next] || !inZone(next)) continue
+        seen[next] = 1
+        stack.push(next)
+      }
+    }
+    const bounds = { x: c0 * cellSize, y: r0 * cellSize, w: (c1 - c0 + 1) * cellSize, h: (r1 - r0 + 1) * cellSize }
+    found.push({ bounds, cells, worst })
+  }
+  return found
+}
+
 export interface LegalityOptions {
   minAisle: number // minimum clearance to paths (meters), e.g., 3.0
   site: RectM // site boundary
+  obstructions?: RectM[] // fixed no-go areas (columns, walls) that blocks may not overlap
 }
 
 export function inflate(rect: RectM, m: number): RectM {
   return { x: rect.x - m, y: rect.y - m, w: rect.w + 2 * m, h: rect.h + 2 * m }
 }
 
-export function aabbOverlap(a: RectM, b: RectM): boolean {
-  return !(a.x + a.w <= b.x || b.x + b.w <= a.x || a.y + a.h <= b.y || b.y + b.h <= a.y)
+// Whether the rectangles overlap by more than `eps`; a negative `eps` also
+// counts rectangles that touch
+export function aabbOverlap(a: RectM, b: RectM, eps = 0): boolean {
+  return !(a.x + a.w <= b.x + eps || b.x + b.w <= a.x + eps || a.y + a.h <= b.y + eps || b.y + b.h <= a.y + eps)
+}
+
+// Clear distance between two rectangles; 0 when they touch or overlap
+export function rectGap(a: RectM, b: RectM): number {
+  const dx = Math.max(0, a.x - (b.x + b.w), b.x - (a.x + a.w))
+  const dy = Math.max(0, a.y - (b.y + b.h), b.y - (a.y + a.h))
+  return Math.hypot(dx, dy)
 }
 
 export function inside(rect: RectM, bounds: RectM): boolean {
@@ -121,6 +180,13 @@ export function checkPlacementLegality(
     return { ok: false, reason: 'outside site bounds' }
   }
 
+  // overlap with fixed building obstructions
+  for (const obstruction of opts.obstructions || []) {
+    if (aabbOverlap(candidate, obstruction)) {
+      return { ok: false, reason: 'overlaps building obstruction' }
+    }
+  }
+
   // overlap with reserved path cells
   if (pathMask.anyOccupied(candidate)) {
     return { ok: false, reason: 'overlaps path' }
@@ -0,0 +1,73 @@
+// Where material enters and leaves a block: the module's I/O points placed
+// on the block's current footprint and orientation
+
+import { Block, BlockSide, IOPoint, MODULE_DEFINITIONS, ModuleKey } from './types'
+
+export type BlockRotation = NonNullable<Block['rot']>
+
+export interface PlacedIOPoint {
+  x: number // meters, world coordinates on the block edge
+  y: number
+  side: BlockSide // after rotation
+  kind: IOPoint['kind']
+  label: string
+}
+
+const SIDES_CLOCKWISE: BlockSide[] = ['top', 'right', 'bottom', 'left']
+
+export function ioPointsFor(key: Block['key']): IOPoint[] {
+  return MODULE_DEFINITIONS[key as ModuleKey]?.ioPoints ?? []
+}
+
+function rotateSide(side: BlockSide, rot: BlockRotation): BlockSide {
+  return SIDES_CLOCKWISE[(SIDES_CLOCKWISE.indexOf(side) + rot / 90) % 4]
+}
+
+// Rotate a block 90° clockwise about its top-left corner
+export function rotateBlock(block: Block): Block {
+  return { ...block, w: block.h, h: block.w, rot: (((block.rot ?? 0) + 90) % 360) as BlockRotation }
+}
+
+export function getIOPoints(block: Block): PlacedIOPoint[] {
+  const rot = block.rot ?? 0
+  // Footprint before rotation; rotating by 90 or 270 swapped w and h
+  const w0 = rot % 180 === 0 ? block.w : block.h
+  const h0 = rot % 180 === 0 ? block.h : block.w
+  return ioPointsFor(block.key).map(p => {
+    const along = Math.max(0, Math.min(1, p.offset))
+    let u = p.side === 'left' ? 0 : p.side === 'right' ? w0 : along * w0
+    let v = p.side === 'top' ? 0 : p.side === 'bottom' ? h0 : along * h0
+    // Clockwise rotation in screen coordinates (y down)
+    for (let r = 0; r < rot; r += 90) {
+      const size = r % 180 === 0 ? h0 : w0 // height of the frame being rotated
+      const nu = size - v
+      v = u
+      u = nu
+    }
+    return { x: block.x + u, y: block.y + v, side: rotateSide(p.side, rot), kind: p.kind, label: p.label }
+  })
+}
+
+// Points a trip can leave from / arrive at
+export function outputPoints(block: Block): PlacedIOPoint[] {
+  return getIOPoints(block).filter(p => p.kind !== 'in')
+}
+
+export function inputPoints(block: Block): PlacedIOPoint[] {
+  return getIOPoints(block).filter(p => p.kind !== 'out')
+}
+
+// Straight Manhattan distance from a's nearest output to b's nearest input;
+// blocks without I/O points use their centre
+export function ioDistance(a: Block, b: Block): number {
+  const centre = (blk: Block) => [{ x: blk.x + blk.w / 2, y: blk.y + blk.h / 2 }]
+  const from = outputPoints(a)
+  const to = inputPoints(b)
+  let best = Infinity
+  for (const p of from.length > 0 ? from : centre(a)) {
+    for (const q of to.length > 0 ? to : centre(b)) {
+      best = Math.min(best, Math.abs(p.x - q.x) + Math.abs(p.y - q.y))
+    }
+  }
+  return best
+}
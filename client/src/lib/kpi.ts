@@ -0,0 +1,89 @@
+// Normalized layout KPIs (0..1, higher is better) derived from geometry.
+// These are what Plan.scores / Plan.score hold; the server computes the same
+// numbers in server/kpi.js, so keep the two in step.
+
+import { Block, Plan, Request } from './types'
+import { buildScoreContext, ScoreContext, scoreObjectives } from './score'
+
+export type PlanScores = Plan['scores']
+
+export interface PlanKpis {
+  scores: PlanScores
+  score: number // unweighted mean of the four KPIs
+}
+
+// Blend of area utilization inside the bounding box and how square that box is
+const UTILIZATION_WEIGHT = 0.7
+
+function clamp01(v: number): number {
+  return Math.max(0, Math.min(1, v))
+}
+
+// Travel: flow- (or adjacency-) weighted distance relative to the worst case
+// of every trip crossing the whole site corner to corner
+function travelKpi(blocks: Block[], ctx: ScoreContext, weightedDistance: number): number {
+  const span = ctx.site.w + ctx.site.h
+  let totalWeight = 0
+  if (ctx.flows) {
+    const ids = new Set(blocks.map(b => b.id))
+    for (const i in ctx.flows) {
+      for (const j in ctx.flows[i]) {
+        if (i !== j && ids.has(i) && ids.has(j)) totalWeight += ctx.flows[i][j] || 0
+      }
+    }
+  } else if (ctx.adjacency) {
+    for (const key in ctx.adjacency) {
+      const w = ctx.adjacency[key] || 0
+      const [ka, kb] = key.split('-')
+      if (w > 0 && blocks.some(b => b.key === ka) && blocks.some(b => b.key === kb)) totalWeight += w
+    }
+  }
+  if (totalWeight === 0 || span === 0) return 1
+  return clamp01(1 - weightedDistance / (totalWeight * span))
+}
+
+// Adjacency: share of the achievable adjacency reward actually earned, less
+// the penalty for keep-apart pairs placed close together
+function adjacencyKpi(blocks: Block[], ctx: ScoreContext, hits: number): number {
+  let possible = 0
+  for (const key in ctx.adjacency || {}) {
+    const w = ctx.adjacency![key] || 0
+    const [ka, kb] = key.split('-')
+    if (w > 0 && blocks.some(b => b.key === ka) && blocks.some(b => b.key === kb)) possible += w
+  }
+  return possible === 0 ? clamp01(1 + hits) : clamp01(hits / possible)
+}
+
+export function computeKpis(blocks: Block[], ctx: ScoreContext): PlanKpis {
+  const movable = blocks.filter(b => b.key !== 'aisle')
+  const objectives = scoreObjectives(movable, ctx)
+
+  const travel = travelKpi(movable, ctx, objectives.travel)
+  const adj = adjacencyKpi(movable, ctx, -objectives.adjacency)
+  // Each block should be clear of every other block, the aisles and the walls
+  const safety = movable.length === 0 ? 1 : clamp01(1 - objectives.violations / movable.length)
+
+  let compact = 1
+  if (movable.length > 0) {
+    const minX = Math.min(...movable.map(b => b.x))
+    const minY = Math.min(...movable.map(b => b.y))
+    const bw = Math.max(...movable.map(b => b.x + b.w)) - minX
+    const bh = Math.max(...movable.map(b => b.y + b.h)) - minY
+    const utilization = 1 - objectives.compact
+    const squareness = Math.min(bw, bh) / Math.max(bw, bh, 1e-9)
+    compact = clamp01(UTILIZATION_WEIGHT * utilization + (1 - UTILIZATION_WEIGHT) * squareness)
+  }
+
+  const scores = { travel, adj, safety, compact }
+  return { scores, score: (travel + adj + safety + compact) / 4 }
+}
+
+// KPIs for a plan in the request's site
+export function computePlanKpis(plan: Plan, request: Partial<Request>): PlanKpis {
+  return computeKpis(plan.blocks, buildScoreContext(plan.blocks, request, { flowOverrides: plan.flowOverrides, walkways: plan.walkways }))
+}
+
+// Copy of the plan with scores recomputed from its geometry
+export function withKpis(plan: Plan, request: Partial<Request>): Plan {
+  return { ...plan, ...computePlanKpis(plan, request) }
+}
@@ -0,0 +1,160 @@
+// Runs the layout optimizer off the main thread so the canvas stays
+// responsive.  Falls back to running inline where workers are unavailable.
+
+import { Plan, Request } from './types'
+import { CoolingSchedule, OptimizeProgress, OptimizeResult, optimizeHeuristic } from './optimizer'
+import { optimizePareto } from './pareto'
+import { buildScoreContext, scoreLayout } from './score'
+import { withKpis } from './kpi'
+
+// anneal: single weighted objective, best layouts first
+// pareto: NSGA-II over separate objectives, returns the trade-off front
+export type OptimizationMode = 'anneal' | 'pareto'
+
+export interface OptimizationRunOptions {
+  mode?: OptimizationMode
+  iterations?: number
+  topN?: number
+  grid?: number // snap grid for moves (m)
+  cellSize?: number // path mask resolution (m)
+  schedule?: CoolingSchedule
+  initialTemperature?: number
+  restarts?: number
+  seed?: number
+  populationSize?: number // pareto only
+  generations?: number // pareto only
+}
+
+export interface OptimizationOutcome {
+  mode: OptimizationMode
+  plans: Plan[] // distinct layouts, best first (pareto: the front, by travel)
+  bestScore: number
+  initialScore: number
+  iterationsRun: number
+  cancelled: boolean
+  seed: number
+}
+
+// A running optimization; cancel() stops it early and the promise resolves
+// with the best layouts found so far
+export interface OptimizationRun {
+  promise: Promise<OptimizationOutcome>
+  cancel: () => void
+}
+
+export type OptimizeWorkerRequest =
+  | { type: 'start'; plan: Plan; request: Partial<Request>; options: OptimizationRunOptions }
+  | { type: 'cancel' }
+
+export type OptimizeWorkerResponse =
+  | { type: 'progress'; progress: OptimizeProgress }
+  | { type: 'done'; outcome: OptimizationOutcome }
+  | { type: 'error'; message: string }
+
+const DEFAULT_RUN_OPTIONS: OptimizationRunOptions = {
+  mode: 'anneal',
+  iterations: 1500,
+  topN: 3,
+  grid: 1,
+  cellSize: 0.5,
+  schedule: 'geometric',
+  restarts: 2,
+  populationSize: 40,
+  generations: 60,
+}
+
+function toOutcome(result: OptimizeResult, initialScore: number, request: Partial<Request>): OptimizationOutcome {
+  return {
+    mode: 'anneal',
+    plans: result.topPlans.map(p => withKpis(p, request)),
+    bestScore: result.bestScore,
+    initialScore,
+    iterationsRun: result.iterationsRun,
+    cancelled: result.cancelled,
+    seed: result.seed,
+  }
+}
+
+// Shared by the worker and the inline fallback
+export async function executeOptimization(
+  plan: Plan,
+  request: Partial<Request>,
+  options: OptimizationRunOptions,
+  onProgress?: (progress: OptimizeProgress) => void,
+  signal?: AbortSignal
+): Promise<OptimizationOutcome> {
+  const ctx = buildScoreContext(plan.blocks, request, { cellSize: options.cellSize, flowOverrides: plan.flowOverrides, walkways: plan.walkways })
+  const initialScore = scoreLayout(plan.blocks.filter(b => b.key !== 'aisle'), ctx).total
+
+  if (options.mode === 'pareto') {
+    const result = await optimizePareto(plan, ctx, {
+      populationSize: options.populationSize,
+      generations: options.generations,
+      grid: options.grid,
+      seed: options.seed,
+      onProgress,
+      signal,
+    })
+    return {
+      mode: 'pareto',
+      plans: result.front.map(p => withKpis(p, request)),
+      bestScore: Math.min(...result.front.map(p => scoreLayout(p.blocks.filter(b => b.key !== 'aisle'), ctx).total)),
+      initialScore,
+      iterationsRun: result.generationsRun,
+      cancelled: result.cancelled,
+      seed: result.seed,
+    }
+  }
+
+  const result = await optimizeHeuristic(plan, ctx, {
+    iterations: options.iterations,
+    grid: options.grid,
+    topN: options.topN,
+    schedule: options.schedule,
+    initialTemperature: options.initialTemperature,
+    restarts: options.restarts,
+    seed: options.seed,
+    onProgress,
+    signal,
+  })
+  return toOutcome(result, initialScore, request)
+}
+
+export function runOptimization(
+  plan: Plan,
+  request: Partial<Request>,
+  opts: OptimizationRunOptions = {},
+  onProgress?: (progress: OptimizeProgress) => void
+): OptimizationRun {
+  const options = { ...DEFAULT_RUN_OPTIONS, ...opts }
+  if (typeof Worker === 'undefined') {
+    const controller = new AbortController()
+    return {
+      promise: executeOptimization(plan, request, options, onProgress, controller.signal),
+      cancel: () => controller.abort(),
+    }
+  }
+
+  const worker = new Worker(new URL('./optimizer.worker.ts', import.meta.url), { type: 'module' })
+  const send = (message: OptimizeWorkerRequest) => worker.postMessage(message)
+
+  const promise = new Promise<OptimizationOutcome>((resolve, reject) => {
+    worker.onmessage = (e: MessageEvent<OptimizeWorkerResponse>) => {
+      const msg = e.data
+      if (msg.type === 'progress') {
+        onProgress?.(msg.progress)
+        return
+      }
+      worker.terminate()
+      if (msg.type === 'done') resolve(msg.outcome)
+      else reject(new Error(msg.message))
+    }
+    worker.onerror = (e) => {
+      worker.terminate()
+      reject(new Error(e.message || 'Optimizer worker failed'))
+    }
+    send({ type: 'start', plan, request, options })
+  })
+
+  return { promise, cancel: () => send({ type: 'cancel' }) }
+}
@@ -1,32 +1,70 @@
 import { Block, Plan } from './types'
-import { scoreLayout, ScoreContext } from './score'
+import { scoreLayout, ScoreContext, ScoreBreakdown } from './score'
 import { RectM } from './grid'
+import { createRng, randomSeed, Rng } from './random'
+import { rotateBlock } from './io-points'
+
+export interface OptimizeProgress {
+  iteration: number
+  iterations: number
+  currentScore: number // score of the state the search is currently at
+  bestScore: number // lowest score seen so far
+  acceptedMoves: number
+  temperature: number
+  restart: number // 0-based index of the current run
+  bestPlan?: Plan // best-so-far layout, only sent when it has improved
+}
+
+// geometric: T *= cooling each iteration
+// linear: T falls by T0 / run length each iteration
+// adaptive: geometric, re-scaled every window to steer the acceptance rate
+// towards a target that itself falls over the run
+export type CoolingSchedule = 'geometric' | 'linear' | 'adaptive'
 
 export interface OptimizeOptions {
-  iterations?: number
+  iterations?: number // total budget, shared between restarts
   grid?: number // snap grid (m)
-  cooling?: number // 0..1, multiplier per iteration for accepting worse moves
+  initialTemperature?: number // estimated from sample moves when omitted
+  schedule?: CoolingSchedule
+  cooling?: number // 0..1 per-iteration multiplier (geometric/adaptive)
+  reheatAfter?: number // iterations without a new best before reheating; 0 disables
+  reheatRatio?: number // fraction of the initial temperature to reheat to
+  restarts?: number // extra runs from a randomly perturbed starting layout
+  seed?: number // same seed + same inputs = same result; random when omitted
+  topN?: number // number of distinct plans to return in topPlans
+  onProgress?: (progress: OptimizeProgress) => void
+  progressInterval?: number // iterations between onProgress calls
+  signal?: AbortSignal // stops the search early; the result holds the best so far
 }
 
 export interface OptimizeResult {
   bestPlan: Plan
   bestScore: number
+  topPlans: Plan[] // best distinct layouts seen, best first
   history: Array<{ plan: Plan; score: number; move: string }>
+  iterationsRun: number
+  cancelled: boolean
+  seed: number
 }
 
-type NeighborGenerator = (blocks: Block[]) => { blocks: Block[]; move: string }
+// Give the event loop a turn so cancellation messages can be delivered
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0))
+}
+
+export type NeighborGenerator = (blocks: Block[]) => { blocks: Block[]; move: string }
 
-function cloneBlocks(blocks: Block[]): Block[] {
+export function cloneBlocks(blocks: Block[]): Block[] {
   return blocks.map(b => ({ ...b, meta: b.meta ? { ...b.meta } : undefined }))
 }
 
-function randInt(n: number): number { return Math.floor(Math.random() * n) }
+export function randInt(rng: Rng, n: number): number { return Math.floor(rng() * n) }
 
-function genSwap(): NeighborGenerator {
+function genSwap(rng: Rng): NeighborGenerator {
   return (blocks) => {
     if (blocks.length < 2) return { blocks, move: 'noop' }
-    const i = randInt(blocks.length)
-    let j = randInt(blocks.length)
+    const i = randInt(rng, blocks.length)
+    let j = randInt(rng, blocks.length)
     if (j === i) j = (j + 1) % blocks.length
     const nb = cloneBlocks(blocks)
     const ai = { x: nb[i].x, y: nb[i].y }
@@ -36,12 +74,12 @@ function genSwap(): NeighborGenerator {
   }
 }
 
-function genShift(grid: number): NeighborGenerator {
+function genShift(rng: Rng, grid: number): NeighborGenerator {
   const dirs: Array<[number, number]> = [[1,0],[-1,0],[0,1],[0,-1]]
   return (blocks) => {
     if (blocks.length === 0) return { blocks, move: 'noop' }
-    const i = randInt(blocks.length)
-    const [dx, dy] = dirs[randInt(dirs.length)]
+    const i = randInt(rng, blocks.length)
+    const [dx, dy] = dirs[randInt(rng, dirs.length)]
     const nb = cloneBlocks(blocks)
     nb[i].x = Math.max(0, nb[i].x + dx * grid)
     nb[i].y = Math.max(0, nb[i].y + dy * grid)
@@ -49,21 +87,21 @@ function genShift(grid: number): NeighborGenerator {
   }
 }
 
-function genRotate(): NeighborGenerator {
+function genRotate(rng: Rng): NeighborGenerator {
   return (blocks) => {
     if (blocks.length === 0) return { blocks, move: 'noop' }
-    const i = randInt(blocks.length)
+    const i = randInt(rng, blocks.length)
     const nb = cloneBlocks(blocks)
-    // 90-degree rotate by swapping w/h
-    const w = nb[i].w; nb[i].w = nb[i].h; nb[i].h = w
+    // 90-degree rotate: swaps w/h and turns the I/O points with the block
+    nb[i] = rotateBlock(nb[i])
     return { blocks: nb, move: `rotate(${i})` }
   }
 }
 
-function genPullTogether(): NeighborGenerator {
+function genPullTogether(rng: Rng): NeighborGenerator {
   return (blocks) => {
     if (blocks.length < 2) return { blocks, move: 'noop' }
-    const i = randInt(blocks.length - 1)
+    const i = randInt(rng, blocks.length - 1)
     const j = i + 1
     const nb = cloneBlocks(blocks)
     const cx = (nb[i].x + nb[j].x) / 2
@@ -76,6 +114,94 @@ function genPullTogether(): NeighborGenerator {
   }
 }
 
+// The move set shared by the annealer and the Pareto search's mutation
+export function createNeighborGenerators(rng: Rng, grid: number): NeighborGenerator[] {
+  return [genSwap(rng), genShift(rng, grid), genRotate(rng), genPullTogether(rng)]
+}
+
+// Aisles are reserved paths, not placeable equipment: they stay put
+export function isMovable(b: Block): boolean {
+  return b.key !== 'aisle'
+}
+
+// Rebuild the full block list, keeping fixed blocks and the original order
+export function mergeBlocks(initial: Block[], movable: Block[]): Block[] {
+  const byId: Record<string, Block> = {}
+  for (const b of movable) byId[b.id] = b
+  return initial.map(b => byId[b.id] || b)
+}
+
+// Positions rounded to the grid identify a layout for de-duplication
+function layoutSignature(blocks: Block[], grid: number): string {
+  return blocks.map(b => `${b.id}:${Math.round(b.x / grid)},${Math.round(b.y / grid)},${Math.round(b.w / grid)},${b.rot ?? 0}`).join('|')
+}
+
+// Best `n` layouts with distinct signatures, lowest score first
+export function selectTopPlans(
+  candidates: Array<{ plan: Plan; score: number }>,
+  n: number,
+  grid: number
+): Plan[] {
+  const seen = new Set<string>()
+  const out: Plan[] = []
+  for (const c of [...candidates].sort((a, b) => a.score - b.score)) {
+    const sig = layoutSignature(c.plan.blocks, grid)
+    if (seen.has(sig)) continue
+    seen.add(sig)
+    out.push(c.plan)
+    if (out.length >= n) break
+  }
+  return out
+}
+
+// ---------- Annealing helpers ----------
+interface SearchState {
+  blocks: Block[]
+  score: ScoreBreakdown
+  legal: boolean
+}
+
+function evaluate(blocks: Block[], ctx: ScoreContext): SearchState {
+  return { blocks, score: scoreLayout(blocks, ctx), legal: isPlanLegal(blocks, ctx) }
+}
+
+// Any legal layout beats an illegal one; then the lower score wins
+function isBetter(a: SearchState, b: SearchState): boolean {
+  if (a.legal !== b.legal) return a.legal
+  return a.score.total < b.score.total
+}
+
+// Pick T0 so that a typical worsening of the travel/adjacency terms is
+// accepted ~80% of the time.  Penalty jumps (path overlap, clearance) are
+// orders of magnitude larger and would turn the search into a random walk,
+// so they are left out of the calibration.
+function estimateInitialTemperature(start: SearchState, gens: NeighborGenerator[], rng: Rng, ctx: ScoreContext): number {
+  const SAMPLES = 40
+  const startSoft = start.score.total - start.score.penalty
+  const deltas: number[] = []
+  for (let i = 0; i < SAMPLES; i++) {
+    const { blocks } = gens[randInt(rng, gens.length)](start.blocks)
+    const s = scoreLayout(blocks, ctx)
+    const delta = Math.abs(s.total - s.penalty - startSoft)
+    if (delta > 0) deltas.push(delta)
+  }
+  if (deltas.length === 0) return 1
+  const mean = deltas.reduce((a, d) => a + d, 0) / deltas.length
+  return mean / Math.log(1 / 0.8)
+}
+
+// Scramble a layout with a burst of random moves for a restart
+function perturb(blocks: Block[], gens: NeighborGenerator[], rng: Rng): Block[] {
+  let out = blocks
+  for (let i = 0; i < Math.max(3, blocks.length); i++) {
+    out = gens[randInt(rng, gens.length)](out).blocks
+  }
+  return out
+}
+
+const ADAPT_WINDOW = 50 // iterations between adaptive temperature corrections
+const FINAL_TEMPERATURE_RATIO = 1e-3 // default geometric cooling reaches T0 * this by the end of a run
+
 export async function optimizeHeuristic(
   initial: Plan,
   ctx: ScoreContext,
@@ -83,39 +209,133 @@ export async function optimizeHeuristic(
 ): Promise<OptimizeResult> {
   const iterations = opts.iterations ?? 40
   const grid = opts.grid ?? Math.max(0.25, ctx.cellSize)
-  const cooling = opts.cooling ?? 0.95
+  const schedule = opts.schedule ?? 'geometric'
+  const restarts = Math.max(0, opts.restarts ?? 0)
+  const seed = opts.seed ?? randomSeed()
+  const rng = createRng(seed)
+  const topN = opts.topN ?? 3
+  const progressInterval = Math.max(1, opts.progressInterval ?? Math.ceil(iterations / 50))
+  const runLength = Math.max(1, Math.ceil(iterations / (restarts + 1)))
+  const cooling = opts.cooling ?? Math.pow(FINAL_TEMPERATURE_RATIO, 1 / runLength)
+  const reheatAfter = opts.reheatAfter ?? Math.floor(runLength / 4)
+  const reheatRatio = opts.reheatRatio ?? 0.3
 
-  let bestBlocks = cloneBlocks(initial.blocks)
-  let best = scoreLayout(bestBlocks, ctx)
+  const gens = createNeighborGenerators(rng, grid)
 
-  const gens: NeighborGenerator[] = [genSwap(), genShift(grid), genRotate(), genPullTogether()]
+  const start = evaluate(cloneBlocks(initial.blocks.filter(isMovable)), ctx)
+  const t0 = opts.initialTemperature ?? estimateInitialTemperature(start, gens, rng, ctx)
 
+  // Starting layouts may already break clearances; until a run reaches a
+  // legal layout it may pass through illegal ones, guided by the penalties
+  let current = start
+  let best = start
+  let bestReported = false
+  let temperature = t0
+  let restart = 0
+  let runIter = 0 // iterations into the current run
+  let sinceImprovement = 0
+  let acceptedMoves = 0
+  let windowAccepted = 0
   const history: Array<{ plan: Plan; score: number; move: string }> = []
-  let temperature = 1.0
-
-  for (let iter = 0; iter < iterations; iter++) {
-    const g = gens[randInt(gens.length)]
-    const { blocks: candidateBlocks, move } = g(bestBlocks)
-    // Reject illegal candidates outright
-    if (!isPlanLegal(candidateBlocks, ctx)) {
-      continue
+
+  const reportProgress = (iteration: number) => {
+    if (!opts.onProgress) return
+    opts.onProgress({
+      iteration,
+      iterations,
+      currentScore: current.score.total,
+      bestScore: best.score.total,
+      acceptedMoves,
+      temperature,
+      restart,
+      bestPlan: !bestReported
+        ? { ...initial, blocks: mergeBlocks(initial.blocks, best.blocks) }
+        : undefined,
+    })
+    bestReported = true
+  }
+
+  let iter = 0
+  for (; iter < iterations; iter++) {
+    if (iter % progressInterval === 0) {
+      reportProgress(iter)
+      if (opts.signal) {
+        await yieldToEventLoop()
+        if (opts.signal.aborted) break
+      }
     }
-    const s = scoreLayout(candidateBlocks, ctx)
-
-    const acceptBetter = s.total < best.total
-    const acceptWorse = Math.random() < Math.exp(-(s.total - best.total) / Math.max(1, best.total)) * temperature
-    if (acceptBetter || acceptWorse) {
-      bestBlocks = candidateBlocks
-      best = s
-      history.push({ plan: { ...initial, id: `${initial.id}-iter-${iter}`, blocks: bestBlocks }, score: s.total, move })
+
+    // Random restart: start a fresh run from a scrambled copy of the initial layout
+    if (runIter >= runLength && restart < restarts) {
+      restart += 1
+      runIter = 0
+      sinceImprovement = 0
+      temperature = t0
+      current = evaluate(perturb(start.blocks, gens, rng), ctx)
+    }
+
+    const { blocks: candidateBlocks, move } = gens[randInt(rng, gens.length)](current.blocks)
+    const candidate = evaluate(candidateBlocks, ctx)
+    runIter += 1
+    sinceImprovement += 1
+
+    // Once legal, stay legal; otherwise Metropolis acceptance on the score
+    let accept = false
+    if (candidate.legal || !current.legal) {
+      const delta = candidate.score.total - current.score.total
+      accept = delta <= 0 || rng() < Math.exp(-delta / Math.max(temperature, 1e-9))
+    }
+    if (accept) {
+      current = candidate
+      acceptedMoves += 1
+      windowAccepted += 1
+      history.push({ plan: { ...initial, id: `${initial.id}-iter-${iter}`, blocks: mergeBlocks(initial.blocks, candidate.blocks) }, score: candidate.score.total, move })
+      if (isBetter(candidate, best)) {
+        best = candidate
+        bestReported = false
+        sinceImprovement = 0
+      }
+    }
+
+    // Cool
+    if (schedule === 'linear') {
+      temperature = Math.max(0, temperature - t0 / runLength)
+    } else {
+      temperature *= cooling
+    }
+    if (schedule === 'adaptive' && runIter % ADAPT_WINDOW === 0) {
+      // Aim for ~50% acceptance early in the run, ~1% at the end
+      const target = 0.5 - 0.49 * (runIter / runLength)
+      const rate = windowAccepted / ADAPT_WINDOW
+      temperature *= Math.min(2, Math.max(0.5, target / Math.max(rate, 0.01)))
+      windowAccepted = 0
+    }
+
+    // Reheat when stuck so the run can climb out of a local minimum
+    if (reheatAfter > 0 && sinceImprovement >= reheatAfter) {
+      temperature = Math.max(temperature, t0 * reheatRatio)
+      sinceImprovement = 0
     }
-    temperature *= cooling
   }
+  reportProgress(iter)
+
+  const bestPlan = { ...initial, seed, blocks: mergeBlocks(initial.blocks, best.blocks) }
+  const candidates = [{ plan: bestPlan, score: best.score.total }, ...history]
+  const legalCandidates = candidates.filter(c => isPlanLegal(c.plan.blocks.filter(isMovable), ctx))
+  const topPlans = selectTopPlans(
+    legalCandidates.length > 0 ? legalCandidates : candidates,
+    topN,
+    grid
+  ).map((plan, rank) => ({ ...plan, seed, id: `${initial.id}-opt-${String.fromCharCode(97 + rank)}` }))
 
   return {
-    bestPlan: { ...initial, blocks: bestBlocks },
-    bestScore: best.total,
+    bestPlan,
+    bestScore: best.score.total,
+    topPlans,
     history,
+    iterationsRun: iter,
+    cancelled: iter < iterations,
+    seed,
   }
 }
 
@@ -138,6 +358,7 @@ function isPlanLegal(blocks: Block[], ctx: ScoreContext): boolean {
     const bi = blocks[i]
     const rect: RectM = { x: bi.x, y: bi.y, w: bi.w, h: bi.h }
     if (!inside(rect, ctx.site)) return false
+    if ((ctx.obstructions || []).some(o => aabbOverlap(rect, o))) return false
     if (ctx.pathMask.anyOccupied(rect)) return false
     if (ctx.pathMask.anyOccupied(inflate(rect, ctx.minAisle))) return false
   }
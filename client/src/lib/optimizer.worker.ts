@@ -0,0 +1,37 @@
+// Web Worker host for optimizeHeuristic.  The score context holds grid
+// classes that cannot cross postMessage, so the worker rebuilds it from the
+// plan and request it receives.
+
+import { executeOptimization, OptimizeWorkerRequest, OptimizeWorkerResponse } from './optimizer-runner'
+
+const worker = self as unknown as Worker
+let controller: AbortController | null = null
+
+function post(message: OptimizeWorkerResponse) {
+  worker.postMessage(message)
+}
+
+worker.onmessage = async (e: MessageEvent<OptimizeWorkerRequest>) => {
+  const msg = e.data
+  if (msg.type === 'cancel') {
+    // The optimizer yields between progress reports, so this lands mid-run
+    controller?.abort()
+    return
+  }
+
+  controller = new AbortController()
+  try {
+    const outcome = await executeOptimization(
+      msg.plan,
+      msg.request,
+      msg.options,
+      (progress) => post({ type: 'progress', progress }),
+      controller.signal
+    )
+    post({ type: 'done', outcome })
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) })
+  } finally {
+    controller = null
+  }
+}
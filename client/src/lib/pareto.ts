@@ -0,0 +1,248 @@
+// Multi-objective layout search (NSGA-II).  Instead of one weighted total it
+// keeps a population of layouts and returns the Pareto set over travel,
+// adjacency, safety and compactness, so the user picks the trade-off.
+
+import { Block, Plan } from './types'
+import { OBJECTIVE_KEYS, ObjectiveVector, ScoreContext, scoreLayout, scoreObjectives } from './score'
+import {
+  cloneBlocks,
+  createNeighborGenerators,
+  isMovable,
+  mergeBlocks,
+  OptimizeProgress,
+  randInt,
+  yieldToEventLoop,
+} from './optimizer'
+import { createRng, randomSeed, Rng } from './random'
+
+export interface ParetoOptions {
+  populationSize?: number
+  generations?: number
+  grid?: number // snap grid for mutations (m)
+  mutationRate?: number // chance that each offspring is mutated
+  seed?: number
+  onProgress?: (progress: OptimizeProgress) => void
+  signal?: AbortSignal
+}
+
+export interface ParetoResult {
+  front: Plan[] // non-dominated layouts, each with `objectives`, by travel
+  generationsRun: number
+  cancelled: boolean
+  seed: number
+}
+
+interface Individual {
+  blocks: Block[]
+  objectives: ObjectiveVector
+  rank: number
+  crowding: number
+}
+
+// Deb's constrained domination: a legal layout dominates an illegal one;
+// two illegal layouts compare by how many constraints they break
+function dominates(a: ObjectiveVector, b: ObjectiveVector): boolean {
+  if (a.violations !== b.violations) return a.violations < b.violations
+  let strictlyBetter = false
+  for (const k of OBJECTIVE_KEYS) {
+    if (a[k] > b[k]) return false
+    if (a[k] < b[k]) strictlyBetter = true
+  }
+  return strictlyBetter
+}
+
+// Fast non-dominated sort; sets `rank` and returns the fronts, best first
+function nonDominatedSort(pop: Individual[]): Individual[][] {
+  const dominatedBy: number[][] = pop.map(() => [])
+  const dominationCount = pop.map(() => 0)
+  const fronts: Individual[][] = [[]]
+  let current: number[] = []
+  for (let p = 0; p < pop.length; p++) {
+    for (let q = 0; q < pop.length; q++) {
+      if (p === q) continue
+      if (dominates(pop[p].objectives, pop[q].objectives)) dominatedBy[p].push(q)
+      else if (dominates(pop[q].objectives, pop[p].objectives)) dominationCount[p] += 1
+    }
+    if (dominationCount[p] === 0) {
+      pop[p].rank = 0
+      fronts[0].push(pop[p])
+      current.push(p)
+    }
+  }
+  while (current.length > 0) {
+    const next: number[] = []
+    for (const p of current) {
+      for (const q of dominatedBy[p]) {
+        dominationCount[q] -= 1
+        if (dominationCount[q] === 0) {
+          pop[q].rank = fronts.length
+          next.push(q)
+        }
+      }
+    }
+    if (next.length === 0) break
+    fronts.push(next.map(i => pop[i]))
+    current = next
+  }
+  return fronts
+}
+
+// Crowding distance within one front; boundary points are always kept
+function assignCrowding(front: Individual[]): void {
+  for (const ind of front) ind.crowding = 0
+  for (const k of OBJECTIVE_KEYS) {
+    const sorted = [...front].sort((a, b) => a.objectives[k] - b.objectives[k])
+    const span = sorted[sorted.length - 1].objectives[k] - sorted[0].objectives[k]
+    sorted[0].crowding = Infinity
+    sorted[sorted.length - 1].crowding = Infinity
+    if (span === 0) continue
+    for (let i = 1; i < sorted.length - 1; i++) {
+      sorted[i].crowding += (sorted[i + 1].objectives[k] - sorted[i - 1].objectives[k]) / span
+    }
+  }
+}
+
+function crowdedLess(a: Individual, b: Individual): boolean {
+  return a.rank < b.rank || (a.rank === b.rank && a.crowding > b.crowding)
+}
+
+function tournament(pop: Individual[], rng: Rng): Individual {
+  const a = pop[randInt(rng, pop.length)]
+  const b = pop[randInt(rng, pop.length)]
+  return crowdedLess(a, b) ? a : b
+}
+
+// Uniform crossover: each block takes its position and orientation from
+// one parent or the other
+function crossover(a: Block[], b: Block[], rng: Rng): Block[] {
+  const child = cloneBlocks(a)
+  for (let i = 0; i < child.length; i++) {
+    if (rng() < 0.5) {
+      const src = b[i]
+      child[i].x = src.x; child[i].y = src.y
+      child[i].w = src.w; child[i].h = src.h; child[i].rot = src.rot
+    }
+  }
+  return child
+}
+
+// Survivor selection: fill by front, break the last front by crowding
+function selectSurvivors(pop: Individual[], size: number): Individual[] {
+  const survivors: Individual[] = []
+  for (const front of nonDominatedSort(pop)) {
+    assignCrowding(front)
+    if (survivors.length + front.length <= size) {
+      survivors.push(...front)
+    } else {
+      front.sort((a, b) => b.crowding - a.crowding)
+      survivors.push(...front.slice(0, size - survivors.length))
+      break
+    }
+  }
+  return survivors
+}
+
+export async function optimizePareto(
+  initial: Plan,
+  ctx: ScoreContext,
+  opts: ParetoOptions = {}
+): Promise<ParetoResult> {
+  const populationSize = opts.populationSize ?? 40
+  const generations = opts.generations ?? 50
+  const grid = opts.grid ?? Math.max(0.25, ctx.cellSize)
+  const mutationRate = opts.mutationRate ?? 0.8
+  const seed = opts.seed ?? randomSeed()
+  const rng = createRng(seed)
+  const gens = createNeighborGenerators(rng, grid)
+
+  const evaluate = (blocks: Block[]): Individual => ({
+    blocks,
+    objectives: scoreObjectives(blocks, ctx),
+    rank: 0,
+    crowding: 0,
+  })
+  const mutate = (blocks: Block[]): Block[] => {
+    let out = blocks
+    const moves = 1 + randInt(rng, 3)
+    for (let i = 0; i < moves; i++) out = gens[randInt(rng, gens.length)](out).blocks
+    return out
+  }
+
+  // Seed the population with the starting layout and mutations of it
+  const start = cloneBlocks(initial.blocks.filter(isMovable))
+  let population: Individual[] = [evaluate(start)]
+  while (population.length < populationSize) population.push(evaluate(mutate(start)))
+  population = selectSurvivors(population, populationSize)
+
+  // Progress reports the weighted total of the best layout, like the annealer
+  let bestTotal = Infinity
+  const report = (generation: number) => {
+    if (!opts.onProgress) return
+    const front = population.filter(ind => ind.rank === 0)
+    let best = front[0]
+    let improved = false
+    for (const ind of front) {
+      const total = scoreLayout(ind.blocks, ctx).total
+      if (total < bestTotal) { bestTotal = total; best = ind; improved = true }
+    }
+    opts.onProgress({
+      iteration: generation,
+      iterations: generations,
+      currentScore: bestTotal,
+      bestScore: bestTotal,
+      acceptedMoves: front.length, // size of the current Pareto front
+      temperature: 0,
+      restart: 0,
+      bestPlan: improved ? { ...initial, blocks: mergeBlocks(initial.blocks, best.blocks) } : undefined,
+    })
+  }
+
+  let generation = 0
+  for (; generation < generations; generation++) {
+    report(generation)
+    if (opts.signal) {
+      await yieldToEventLoop()
+      if (opts.signal.aborted) break
+    }
+    const offspring: Individual[] = []
+    while (offspring.length < populationSize) {
+      const a = tournament(population, rng)
+      const b = tournament(population, rng)
+      let child = crossover(a.blocks, b.blocks, rng)
+      if (rng() < mutationRate) child = mutate(child)
+      offspring.push(evaluate(child))
+    }
+    population = selectSurvivors([...population, ...offspring], populationSize)
+  }
+  report(generation)
+
+  // Distinct members of the first front, legal ones only when there are any
+  const first = nonDominatedSort(population)[0]
+  const legal = first.filter(ind => ind.objectives.violations === 0)
+  const seen = new Set<string>()
+  const front = (legal.length > 0 ? legal : first)
+    .filter(ind => {
+      const sig = ind.blocks.map(b => `${b.x},${b.y},${b.w},${b.rot ?? 0}`).join('|')
+      if (seen.has(sig)) return false
+      seen.add(sig)
+      return true
+    })
+    .sort((a, b) => a.objectives.travel - b.objectives.travel)
+    .map((ind, i): Plan => {
+      const { travel, adjacency, safety, compact } = ind.objectives
+      return {
+        ...initial,
+        id: `${initial.id}-pareto-${i + 1}`,
+        blocks: mergeBlocks(initial.blocks, ind.blocks),
+        seed,
+        objectives: { travel, adjacency, safety, compact },
+      }
+    })
+
+  return {
+    front,
+    generationsRun: generation,
+    cancelled: generation < generations,
+    seed,
+  }
+}
@@ -0,0 +1,129 @@
+// Named projects, persisted to localStorage for offline work and mirrored
+// to the server's project store when it is reachable.
+
+import { AppState, ChatMessage, ProjectSnapshot, ProjectSummary } from './types'
+import { apiService } from './api'
+import { generateId } from './utils'
+
+const STORAGE_PREFIX = 'warehouse-project:'
+
+export function newProjectId(): string {
+  return `proj-${generateId()}`
+}
+
+// Capture the parts of the app state that make up a project
+export function createProjectSnapshot(
+  state: Pick<AppState, 'currentRequest' | 'currentPlan' | 'optimizationResult' | 'chatMessages'>,
+  meta: { id: string; name: string }
+): ProjectSnapshot {
+  return {
+    id: meta.id,
+    name: meta.name,
+    updatedAt: new Date().toISOString(),
+    request: state.currentRequest,
+    plan: state.currentPlan,
+    optimizationResult: state.optimizationResult
+      ? { ...state.optimizationResult, isOptimizing: false, previewPlan: undefined }
+      : undefined,
+    chatMessages: state.chatMessages.map(m => ({
+      ...m,
+      timestamp: new Date(m.timestamp).toISOString(),
+    })),
+  }
+}
+
+export function restoreChatMessages(snapshot: ProjectSnapshot): ChatMessage[] {
+  return (snapshot.chatMessages || []).map(m => ({ ...m, timestamp: new Date(m.timestamp) }))
+}
+
+export function toProjectSummary(project: ProjectSummary): ProjectSummary {
+  return { id: project.id, name: project.name, updatedAt: project.updatedAt, source: project.source }
+}
+
+// Browser-local copy of every project
+export const localProjectStore = {
+  list(): ProjectSummary[] {
+    const summaries: ProjectSummary[] = []
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (!key?.startsWith(STORAGE_PREFIX)) continue
+      const project = this.load(key.slice(STORAGE_PREFIX.length))
+      if (project) summaries.push({ ...toProjectSummary(project), source: 'local' })
+    }
+    return summaries
+  },
+
+  load(id: string): ProjectSnapshot | undefined {
+    try {
+      const raw = localStorage.getItem(STORAGE_PREFIX + id)
+      return raw ? JSON.parse(raw) as ProjectSnapshot : undefined
+    } catch {
+      return undefined
+    }
+  },
+
+  save(project: ProjectSnapshot): void {
+    localStorage.setItem(STORAGE_PREFIX + project.id, JSON.stringify(project))
+  },
+
+  remove(id: string): void {
+    localStorage.removeItem(STORAGE_PREFIX + id)
+  },
+}
+
+// Save locally first so work is never lost, then try the server
+export async function saveProject(project: ProjectSnapshot): Promise<{ summary: ProjectSummary; savedToServer: boolean }> {
+  localProjectStore.save(project)
+  try {
+    const summary = await apiService.saveProject(project)
+    // Keep the local copy's timestamp in step with the server's
+    localProjectStore.save({ ...project, updatedAt: summary.updatedAt })
+    return { summary: { ...summary, source: 'both' }, savedToServer: true }
+  } catch {
+    return { summary: { ...toProjectSummary(project), source: 'local' }, savedToServer: false }
+  }
+}
+
+// Merge local and server listings; the newest copy of each project wins
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const byId = new Map<string, ProjectSummary>()
+  for (const p of localProjectStore.list()) byId.set(p.id, p)
+  try {
+    const { projects } = await apiService.listProjects()
+    for (const p of projects) {
+      const local = byId.get(p.id)
+      if (!local) {
+        byId.set(p.id, { ...p, source: 'server' })
+      } else {
+        const newest = p.updatedAt > local.updatedAt ? p : local
+        byId.set(p.id, { ...toProjectSummary(newest), source: 'both' })
+      }
+    }
+  } catch {
+    // Offline: local projects only
+  }
+  return [...byId.values()].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+export async function loadProject(id: string): Promise<ProjectSnapshot> {
+  const local = localProjectStore.load(id)
+  try {
+    const remote = await apiService.loadProject(id)
+    if (!local || remote.updatedAt > local.updatedAt) {
+      localProjectStore.save(remote)
+      return remote
+    }
+  } catch (e) {
+    if (!local) throw e
+  }
+  return local!
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  localProjectStore.remove(id)
+  try {
+    await apiService.deleteProject(id)
+  } catch {
+    // Not on the server (or offline); the local copy is gone either way
+  }
+}
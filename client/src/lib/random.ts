@@ -0,0 +1,21 @@
+// Seedable pseudo-random numbers so optimizer runs can be reproduced
+
+// Returns a float in [0, 1), like Math.random
+export type Rng = () => number
+
+// mulberry32: tiny, fast and good enough for search heuristics
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Fresh 32-bit seed for runs that were not given one
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296)
+}
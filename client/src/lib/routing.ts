@@ -0,0 +1,353 @@
+// Travel distances along the floor: shortest 4-connected paths over a
+// free-space grid, so trips go around blocks, walls and obstructions rather
+// than through them.  Aisles are free space and cost nothing extra.  Trips
+// run from one block's output points to the next block's input points.
+
+import { Block } from './types'
+import { GridIndex, RectM } from './grid'
+import { inputPoints, outputPoints, PlacedIOPoint } from './io-points'
+
+// Routing resolution (m); the clearance rule keeps corridors several cells wide
+export const ROUTE_CELL_M = 1
+// Layouts whose routes are kept; the optimizer keeps re-scoring recent ones
+const LAYOUT_CACHE_SIZE = 64
+
+export type DistanceFn = (a: Block, b: Block) => number
+
+export interface Point {
+  x: number
+  y: number
+}
+
+// A trip as scored: its length, the polyline it follows from an output
+// point to an input point, and the grid cells it crosses as [column, row].
+// No points or cells when the target can't be reached.
+export interface RoutedPath {
+  distance: number
+  points: Point[]
+  cells: Array<[number, number]>
+}
+
+export type PathFn = (a: Block, b: Block) => RoutedPath
+
+interface LayoutRoutes {
+  grid: GridIndex
+  distances: Map<string, number> // by `${from id}>${to id}`
+  paths: Map<string, RoutedPath>
+}
+
+// A free cell a trip can start or end in, and the point on the block the
+// walk to or from that cell is measured from
+interface Endpoint {
+  node: number
+  point: Point
+}
+
+function centre(r: RectM): Point {
+  return { x: r.x + r.w / 2, y: r.y + r.h / 2 }
+}
+
+function manhattan(a: Point, b: Point): number {
+  return Math.abs(a.x - b.x) + Math.abs(a.y - b.y)
+}
+
+// Binary min-heap of grid nodes keyed on their A* f-cost
+class MinHeap {
+  private keys: number[] = []
+  private nodes: number[] = []
+
+  get size(): number { return this.nodes.length }
+
+  push(key: number, node: number): void {
+    let i = this.nodes.length
+    this.keys.push(key)
+    this.nodes.push(node)
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (this.keys[parent] <= key) break
+      this.keys[i] = this.keys[parent]; this.nodes[i] = this.nodes[parent]
+      i = parent
+    }
+    this.keys[i] = key; this.nodes[i] = node
+  }
+
+  pop(): { key: number; node: number } {
+    const top = { key: this.keys[0], node: this.nodes[0] }
+    const key = this.keys.pop()!
+    const node = this.nodes.pop()!
+    const n = this.nodes.length
+    if (n > 0) {
+      let i = 0
+      for (;;) {
+        const l = 2 * i + 1
+        if (l >= n) break
+        const c = l + 1 < n && this.keys[l + 1] < this.keys[l] ? l + 1 : l
+        if (this.keys[c] >= key) break
+        this.keys[i] = this.keys[c]; this.nodes[i] = this.nodes[c]
+        i = c
+      }
+      this.keys[i] = key; this.nodes[i] = node
+    }
+    return top
+  }
+}
+
+function layoutKey(blocks: Block[]): string {
+  return blocks.map(b => `${b.id}:${b.x},${b.y},${b.w},${b.h},${b.rot ?? 0}`).join('|')
+}
+
+// Free cells bordering the block: where a trip can leave or reach a block
+// without I/O points, measured from its centre
+function perimeterEndpoints(grid: GridIndex, b: RectM): Endpoint[] {
+  const cs = grid.cellSize
+  const c0 = Math.floor(b.x / cs)
+  const r0 = Math.floor(b.y / cs)
+  const c1 = Math.ceil((b.x + b.w) / cs) - 1
+  const r1 = Math.ceil((b.y + b.h) / cs) - 1
+  const ring: Array<[number, number]> = []
+  for (let c = c0; c <= c1; c++) ring.push([c, r0 - 1], [c, r1 + 1])
+  for (let r = r0; r <= r1; r++) ring.push([c0 - 1, r], [c1 + 1, r])
+  const point = centre(b)
+  return ring.filter(([c, r]) => !grid.get(c, r)).map(([c, r]) => ({ node: r * grid.cols + c, point }))
+}
+
+// The free cell just outside each I/O point; points facing a wall or
+// another block are unusable
+function ioEndpoints(grid: GridIndex, b: RectM, points: PlacedIOPoint[]): Endpoint[] {
+  const cs = grid.cellSize
+  const clampC = (c: number) => Math.min(Math.max(c, Math.floor(b.x / cs)), Math.ceil((b.x + b.w) / cs) - 1)
+  const clampR = (r: number) => Math.min(Math.max(r, Math.floor(b.y / cs)), Math.ceil((b.y + b.h) / cs) - 1)
+  const out: Endpoint[] = []
+  for (const p of points) {
+    let c = clampC(Math.floor(p.x / cs))
+    let r = clampR(Math.floor(p.y / cs))
+    if (p.side === 'top') r = Math.floor(b.y / cs) - 1
+    else if (p.side === 'bottom') r = Math.ceil((b.y + b.h) / cs)
+    else if (p.side === 'left') c = Math.floor(b.x / cs) - 1
+    else c = Math.ceil((b.x + b.w) / cs)
+    if (!grid.get(c, r)) out.push({ node: r * grid.cols + c, point: { x: p.x, y: p.y } })
+  }
+  return out
+}
+
+function endpoints(grid: GridIndex, block: Block, direction: 'from' | 'to'): Endpoint[] {
+  const points = direction === 'from' ? outputPoints(block) : inputPoints(block)
+  return points.length > 0 ? ioEndpoints(grid, block, points) : perimeterEndpoints(grid, block)
+}
+
+// Routes distances between the blocks of a layout.  One router serves a
+// whole optimization run: the occupancy grid and every pair distance are
+// cached per layout, so re-scoring a layout costs a lookup.
+export class TravelRouter {
+  readonly site: RectM
+  readonly obstructions: RectM[]
+  readonly cellSize: number
+  private readonly cache = new Map<string, LayoutRoutes>()
+
+  constructor(site: RectM, obstructions: RectM[] = [], cellSize = ROUTE_CELL_M) {
+    this.site = site
+    this.obstructions = obstructions
+    this.cellSize = cellSize
+  }
+
+  // Distance function over `blocks`, which are all treated as obstacles
+  forLayout(blocks: Block[]): DistanceFn {
+    const { grid, distances } = this.routesFor(blocks)
+    return (a, b) => {
+      if (a.id === b.id) return 0
+      const pair = `${a.id}>${b.id}`
+      let d = distances.get(pair)
+      if (d === undefined) {
+        d = this.route(grid, a, b).distance
+        distances.set(pair, d)
+      }
+      return d
+    }
+  }
+
+  // Like forLayout, but with the path each trip takes, for drawing
+  pathsForLayout(blocks: Block[]): PathFn {
+    const { grid, distances, paths } = this.routesFor(blocks)
+    return (a, b) => {
+      if (a.id === b.id) return { distance: 0, points: [], cells: [] }
+      const pair = `${a.id}>${b.id}`
+      let path = paths.get(pair)
+      if (path === undefined) {
+        path = this.route(grid, a, b, true)
+        paths.set(pair, path)
+        distances.set(pair, path.distance)
+      }
+      return path
+    }
+  }
+
+  private routesFor(blocks: Block[]): LayoutRoutes {
+    const key = layoutKey(blocks)
+    let routes = this.cache.get(key)
+    if (routes) {
+      this.cache.delete(key) // most recently used goes last
+    } else {
+      routes = { grid: this.buildGrid(blocks), distances: new Map(), paths: new Map() }
+      if (this.cache.size >= LAYOUT_CACHE_SIZE) this.cache.delete(this.cache.keys().next().value!)
+    }
+    this.cache.set(key, routes)
+    return routes
+  }
+
+  private buildGrid(blocks: Block[]): GridIndex {
+    const site = this.site
+    const grid = new GridIndex({ cellSize: this.cellSize, width: site.x + site.w, height: site.y + site.h })
+    // Anything left of or above the site is off the floor
+    if (site.x > 0) grid.fillRect({ x: 0, y: 0, w: site.x, h: site.y + site.h })
+    if (site.y > 0) grid.fillRect({ x: 0, y: 0, w: site.x + site.w, h: site.y })
+    for (const o of this.obstructions) grid.fillRect(o)
+    for (const b of blocks) grid.fillRect(b)
+    return grid
+  }
+
+  // A* from a's outputs to b's inputs.  The walk between each I/O point and
+  // its cell is included; for blocks without I/O points the walk starts and
+  // ends at the centre, as the Manhattan distance this replaces did.  The
+  // path is only traced back when asked for.
+  private route(grid: GridIndex, a: Block, b: Block, withPath = false): RoutedPath {
+    const cs = grid.cellSize
+    // Nothing reachable: charge a detour across the whole site
+    const unreachable = { distance: manhattan(centre(a), centre(b)) + this.site.w + this.site.h, points: [], cells: [] }
+
+    const sources = endpoints(grid, a, 'from')
+    const targets = new Map<number, Point>()
+    for (const e of endpoints(grid, b, 'to')) targets.set(e.node, e.point)
+    if (targets.size === 0 || sources.length === 0) return unreachable
+
+    const cols = grid.cols
+    const cellCentre = (node: number): Point => ({ x: ((node % cols) + 0.5) * cs, y: (Math.floor(node / cols) + 0.5) * cs })
+    // Manhattan to the nearest target point: admissible and consistent
+    const goals = [...new Set(targets.values())]
+    const h = (node: number) => {
+      const p = cellCentre(node)
+      let best = Infinity
+      for (const q of goals) best = Math.min(best, manhattan(p, q))
+      return best
+    }
+    const GOAL = -1
+    const g = new Float64Array(cols * grid.rows).fill(Infinity)
+    const closed = new Uint8Array(cols * grid.rows)
+    const parent = withPath ? new Int32Array(cols * grid.rows).fill(-1) : undefined
+    const starts = new Map<number, Point>()
+    // Last cell of the cheapest finish found so far; the GOAL entry that
+    // pops first is always that one
+    let bestFinish = Infinity
+    let finishNode = -1
+    const open = new MinHeap()
+    for (const { node, point } of sources) {
+      const cost = manhattan(point, cellCentre(node))
+      if (cost < g[node]) {
+        g[node] = cost
+        starts.set(node, point)
+        open.push(cost + h(node), node)
+      }
+    }
+
+    while (open.size > 0) {
+      const { key, node } = open.pop()
+      if (node === GOAL) {
+        if (!parent) return { distance: key, points: [], cells: [] }
+        return { distance: key, ...this.tracePath(grid, parent, finishNode, starts, targets, cellCentre) }
+      }
+      if (closed[node]) continue
+      closed[node] = 1
+      const cost = g[node]
+      // Reaching a target cell finishes the trip at its I/O point
+      const goal = targets.get(node)
+      if (goal) {
+        const finish = cost + manhattan(cellCentre(node), goal)
+        if (finish < bestFinish) {
+          bestFinish = finish
+          finishNode = node
+        }
+        open.push(finish, GOAL)
+      }
+
+      const c = node % cols
+      const r = Math.floor(node / cols)
+      const neighbours: Array<[number, number]> = [[c + 1, r], [c - 1, r], [c, r + 1], [c, r - 1]]
+      for (const [nc, nr] of neighbours) {
+        if (grid.get(nc, nr)) continue
+        const next = nr * cols + nc
+        const nextCost = cost + cs
+        if (nextCost >= g[next]) continue
+        g[next] = nextCost
+        starts.delete(next)
+        if (parent) parent[next] = node
+        open.push(nextCost + h(next), next)
+      }
+    }
+    return unreachable
+  }
+
+  // Corners of the walk from the start I/O point through the cells to the
+  // finishing I/O point.  Monotone staircases straighten into one L-bend
+  // where the floor allows, which keeps the length the same.
+  private tracePath(
+    grid: GridIndex,
+    parent: Int32Array,
+    finish: number,
+    starts: Map<number, Point>,
+    targets: Map<number, Point>,
+    cellCentre: (node: number) => Point
+  ): { points: Point[]; cells: Array<[number, number]> } {
+    const cols = grid.cols
+    const cells: Array<[number, number]> = []
+    for (let node = finish; node !== -1; node = parent[node]) cells.push([node % cols, Math.floor(node / cols)])
+    cells.reverse()
+
+    const clear = (c0: number, r0: number, c1: number, r1: number) => {
+      for (let c = Math.min(c0, c1); c <= Math.max(c0, c1); c++) if (grid.get(c, r0)) return false
+      for (let r = Math.min(r0, r1); r <= Math.max(r0, r1); r++) if (grid.get(c1, r)) return false
+      return true
+    }
+    // Bend cell of a clear L from a to b, horizontal leg first if possible
+    const bendOf = (a: [number, number], b: [number, number]): [number, number] | undefined => {
+      if (clear(a[0], a[1], b[0], b[1])) return [b[0], a[1]]
+      if (clear(a[0], a[1], a[0], b[1]) && clear(a[0], b[1], b[0], b[1])) return [a[0], b[1]]
+      return undefined
+    }
+
+    const corners: Array<[number, number]> = [cells[0]]
+    let anchor = 0
+    while (anchor < cells.length - 1) {
+      let best = anchor + 1
+      let bend: [number, number] | undefined
+      let sx = 0
+      let sy = 0
+      for (let j = anchor + 1; j < cells.length; j++) {
+        const dx = cells[j][0] - cells[j - 1][0]
+        const dy = cells[j][1] - cells[j - 1][1]
+        if ((dx !== 0 && sx !== 0 && Math.sign(dx) !== sx) || (dy !== 0 && sy !== 0 && Math.sign(dy) !== sy)) break
+        sx = sx || Math.sign(dx)
+        sy = sy || Math.sign(dy)
+        const l = bendOf(cells[anchor], cells[j])
+        if (l) {
+          best = j
+          bend = l
+        }
+      }
+      if (bend) corners.push(bend)
+      corners.push(cells[best])
+      anchor = best
+    }
+
+    const toPoint = ([c, r]: [number, number]) => cellCentre(r * cols + c)
+    const raw = [starts.get(cells[0][1] * cols + cells[0][0])!, ...corners.map(toPoint), targets.get(finish)!]
+    const points: Point[] = [raw[0]]
+    for (let i = 1; i < raw.length - 1; i++) {
+      const prev = points[points.length - 1]
+      const next = raw[i + 1]
+      const p = raw[i]
+      const straight = (prev.x === p.x && p.x === next.x) || (prev.y === p.y && p.y === next.y)
+      if (!straight) points.push(p)
+    }
+    points.push(raw[raw.length - 1])
+    return { points, cells }
+  }
+}
@@ -1,5 +1,10 @@
-import { Block, Plan } from './types'
-import { GridIndex, PathMask, RectM } from './grid'
+import { Block, Plan, Request } from './types'
+import { GridIndex, PathMask, RectM, rectGap } from './grid'
+import { buildPathMask, getSiteObstacles, getSiteRect } from './site'
+import { DistanceFn, TravelRouter } from './routing'
+import { ioDistance } from './io-points'
+import { buildFlowMatrix } from './flows'
+import { resolveAdjacency } from './adjacency'
 
 // Score weights
 export interface ScoreWeights {
@@ -14,7 +19,7 @@ export interface FlowMatrix {
 }
 
 export interface AdjacencyWeights {
-  // desirability [-1,1] by pair key `${a}-${b}` sorted
+  // desirability [-1,1] by module pair key `${a}-${b}`; negative keeps apart
   [pairKey: string]: number
 }
 
@@ -23,6 +28,7 @@ export interface ScoreBreakdown {
   overlapWithPath: number
   clearanceViolations: number
   adjacencyHits: number
+  penalty: number // weighted path-overlap and clearance part of total
   total: number
 }
 
@@ -30,7 +36,9 @@ export interface ScoreContext {
   cellSize: number // meters
   minAisle: number // meters
   site: RectM
+  obstructions?: RectM[] // columns, walls and other fixed no-go areas
   pathMask: PathMask
+  router?: TravelRouter // routed travel; straight I/O-to-I/O Manhattan without one
   flows?: FlowMatrix
   adjacency?: AdjacencyWeights
   weights?: Partial<ScoreWeights>
@@ -42,6 +50,43 @@ const DEFAULT_WEIGHTS: ScoreWeights = {
   lambdaAdj: 1e3,
 }
 
+// Clearance kept around blocks and aisles when nothing else is specified
+export const DEFAULT_MIN_AISLE = 3.0
+
+export interface ScoreContextOptions {
+  cellSize?: number
+  minAisle?: number
+  weights?: Partial<ScoreWeights>
+  flowOverrides?: FlowMatrix // the plan's hand-edited From-To cells
+  walkways?: Plan['walkways'] // reserved like aisles
+}
+
+// Score context for a layout inside the request's site: site rectangle,
+// fixed obstructions and aisle path mask all come from the same source the
+// canvas uses, so legality agrees between editing and optimization.  Flows
+// come from the request's throughput plus any overrides, adjacency from the
+// defaults plus the request's edits.
+export function buildScoreContext(
+  blocks: Block[],
+  request: Partial<Request>,
+  opts: ScoreContextOptions = {}
+): ScoreContext {
+  const cellSize = opts.cellSize ?? 0.25
+  const site = getSiteRect(request.site, blocks)
+  const obstructions = getSiteObstacles(request.site)
+  return {
+    cellSize,
+    minAisle: opts.minAisle ?? DEFAULT_MIN_AISLE,
+    site,
+    obstructions,
+    pathMask: buildPathMask(blocks, site, cellSize, opts.walkways),
+    router: new TravelRouter(site, obstructions),
+    flows: buildFlowMatrix(blocks, request, opts.flowOverrides),
+    adjacency: resolveAdjacency(request),
+    weights: opts.weights,
+  }
+}
+
 export function manhattanDistance(a: Block, b: Block): number {
   const ax = a.x + a.w / 2
   const ay = a.y + a.h / 2
@@ -50,6 +95,12 @@ export function manhattanDistance(a: Block, b: Block): number {
   return Math.abs(ax - bx) + Math.abs(ay - by)
 }
 
+// Travel distance from one block's outputs to another's inputs in this
+// layout, whose blocks are the obstacles
+export function travelDistances(blocks: Block[], ctx: ScoreContext): DistanceFn {
+  return ctx.router ? ctx.router.forLayout(blocks) : ioDistance
+}
+
 export function scoreLayout(blocks: Block[], ctx: ScoreContext): ScoreBreakdown {
   const W = { ...DEFAULT_WEIGHTS, ...(ctx.weights || {}) }
 
@@ -57,15 +108,16 @@ export function scoreLayout(blocks: Block[], ctx: ScoreContext): ScoreBreakdown
   const idToBlock: Record<string, Block> = {}
   for (const b of blocks) idToBlock[b.id] = b
 
-  // Material Handling Cost: sum F_ij * d_ij (Manhattan over free space approx)
+  // Material Handling Cost: sum F_ij * d_ij (shortest path over free space)
   let mhc = 0
   if (ctx.flows) {
+    const distance = travelDistances(blocks, ctx)
     for (const i in ctx.flows) {
       for (const j in ctx.flows[i]) {
         if (i === j) continue
         const bi = idToBlock[i]; const bj = idToBlock[j]
         if (!bi || !bj) continue
-        const dij = manhattanDistance(bi, bj)
+        const dij = distance(bi, bj)
         mhc += (ctx.flows[i][j] || 0) * dij
       }
     }
@@ -96,7 +148,8 @@ export function scoreLayout(blocks: Block[], ctx: ScoreContext): ScoreBreakdown
     }
   }
 
-  // Adjacency: reward pairs that are close
+  // Adjacency: reward pairs that are close and penalise close pairs that
+  // should be apart (as the crow flies; this is about proximity, not the walk)
   let adjHits = 0
   if (ctx.adjacency) {
     for (const key in ctx.adjacency) {
@@ -110,8 +163,74 @@ export function scoreLayout(blocks: Block[], ctx: ScoreContext): ScoreBreakdown
     }
   }
 
-  const total = mhc + W.lambdaPath * overlap + W.lambdaClear * clearViol - W.lambdaAdj * adjHits
-  return { mhc, overlapWithPath: overlap, clearanceViolations: clearViol, adjacencyHits: adjHits, total }
+  const penalty = W.lambdaPath * overlap + W.lambdaClear * clearViol
+  const total = mhc + penalty - W.lambdaAdj * adjHits
+  return { mhc, overlapWithPath: overlap, clearanceViolations: clearViol, adjacencyHits: adjHits, penalty, total }
 }
 
 
+
+// ---------- Multi-objective view ----------
+// The same layout seen as separate objectives, all to be minimised, for
+// searches that trade them off instead of summing them with fixed weights.
+export interface ObjectiveVector {
+  travel: number // flow-weighted distance; adjacency-weighted distance without flows
+  adjacency: number // negated adjacency hits
+  safety: number // clearance shortfall below twice the minimum aisle (m)
+  compact: number // unused share of the blocks' bounding box (0..1)
+  violations: number // hard-constraint breaches; 0 for a legal layout
+}
+
+export type ObjectiveKey = 'travel' | 'adjacency' | 'safety' | 'compact'
+
+export const OBJECTIVE_KEYS: ObjectiveKey[] = ['travel', 'adjacency', 'safety', 'compact']
+
+export function scoreObjectives(blocks: Block[], ctx: ScoreContext): ObjectiveVector {
+  const base = scoreLayout(blocks, ctx)
+
+  let travel = base.mhc
+  if (!ctx.flows && ctx.adjacency) {
+    const distance = travelDistances(blocks, ctx)
+    for (const key in ctx.adjacency) {
+      const w = ctx.adjacency[key] || 0
+      if (w <= 0) continue
+      const [ka, kb] = key.split('-')
+      const a = blocks.find(b => b.key === ka)
+      const b = blocks.find(b => b.key === kb)
+      if (a && b) travel += w * distance(a, b)
+    }
+  }
+
+  let safety = 0
+  for (let i = 0; i < blocks.length; i++) {
+    for (let j = i + 1; j < blocks.length; j++) {
+      safety += Math.max(0, 2 * ctx.minAisle - rectGap(blocks[i], blocks[j]))
+    }
+  }
+
+  let compact = 0
+  if (blocks.length > 0) {
+    const minX = Math.min(...blocks.map(b => b.x))
+    const minY = Math.min(...blocks.map(b => b.y))
+    const maxX = Math.max(...blocks.map(b => b.x + b.w))
+    const maxY = Math.max(...blocks.map(b => b.y + b.h))
+    const used = blocks.reduce((a, b) => a + b.w * b.h, 0)
+    compact = Math.max(0, 1 - used / Math.max(1e-9, (maxX - minX) * (maxY - minY)))
+  }
+
+  const site = ctx.site
+  const obstructions = ctx.obstructions || []
+  let outside = 0 // outside the site or on an obstruction
+  for (const b of blocks) {
+    if (b.x < site.x || b.y < site.y || b.x + b.w > site.x + site.w || b.y + b.h > site.y + site.h) outside += 1
+    if (obstructions.some(o => !(b.x + b.w <= o.x || o.x + o.w <= b.x || b.y + b.h <= o.y || o.y + o.h <= b.y))) outside += 1
+  }
+
+  return {
+    travel,
+    adjacency: -base.adjacencyHits,
+    safety,
+    compact,
+    violations: base.overlapWithPath + base.clearanceViolations + outside,
+  }
+}
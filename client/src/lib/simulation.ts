@@ -0,0 +1,419 @@
+// Discrete-event simulation of a shift.  Moves for every From-To flow
+// arrive through the hours of the shift; the nearest idle vehicle of the
+// flow's class (forklifts for pallets, AMRs for totes and orders) drives
+// empty to the source block, picks up, and drives loaded to the target's
+// input along the routed aisles.  A target takes one drop per input point
+// at a time, so vehicles arriving at a busy one wait there (blocked).
+// Arrivals come from a seeded generator: the same plan and settings always
+// give the same numbers.  With `trace` on, every vehicle's legs are kept
+// with the paths they drive, for playback.
+
+import { Block, Fleet, Plan, Request, VehicleClass } from './types'
+import { DEFAULT_FLEET, vehicleFor } from './fleet-sizing'
+import { planFlowMatrix } from './flows'
+import { inputPoints } from './io-points'
+import { createRng } from './random'
+import { DistanceFn, PathFn, Point, TravelRouter } from './routing'
+import { getSiteObstacles, getSiteRect } from './site'
+
+// Share of the peak-hour throughput in each hour of the shift
+export const DEFAULT_SHIFT_PROFILE = [0.5, 0.75, 0.9, 1, 0.95, 0.8, 0.7, 0.85, 1, 0.95, 0.8, 0.65, 0.5, 0.4, 0.3, 0.2]
+export const DEFAULT_SHIFT_START_HOUR = 6
+
+export interface SimulationOptions {
+  fleet?: Fleet
+  profile?: number[] // share of the flow rates per hour; its length sets the shift
+  startHour?: number // clock hour the shift starts at
+  seed?: number
+  trace?: boolean // record vehicle movements
+}
+
+export interface SimulationHour {
+  hour: number // clock hour, 0..23
+  label: string
+  demanded: number // moves released
+  completed: number // moves delivered
+  utilization: number // share of vehicle time spent on a move
+  avgQueue: number // moves waiting for a vehicle, time-averaged
+  maxQueue: number
+  blockedMin: number // vehicle-minutes spent waiting at a busy drop point
+}
+
+export interface SimulationResult {
+  fleet: Fleet
+  seed: number
+  hours: SimulationHour[]
+  demanded: number
+  completed: number
+  backlog: number // moves not delivered by the end of the shift
+  utilization: number
+  peakQueue: number
+  blockedMin: number
+  trace?: SimulationTrace
+}
+
+export type VehicleState = 'idle' | 'empty' | 'loading' | 'loaded' | 'blocked' | 'unloading'
+
+// One stretch of a vehicle's shift: driving along `points`, or standing at
+// its single point
+export interface TraceLeg {
+  start: number // s from the start of the shift
+  end: number
+  state: VehicleState
+  points: Point[]
+}
+
+export interface SimulationTrace {
+  duration: number // s
+  startHour: number
+  home: Point // where idle vehicles wait before their first move
+  vehicles: TraceLeg[][] // per vehicle, in time order
+}
+
+export interface VehiclePosition extends Point {
+  state: VehicleState
+}
+
+interface Job {
+  from: Block
+  to: Block
+  vehicle: VehicleClass
+}
+
+interface Vehicle {
+  index: number
+  kind: VehicleClass
+  at: Block
+  busy: boolean
+  blockedSince?: number // s, while waiting to drop
+}
+
+// Drop points of a target block: how many can unload at once and who waits
+interface Port {
+  free: number
+  waiting: Array<{ vehicle: Vehicle; job: Job }>
+}
+
+type SimEvent =
+  | { time: number; kind: 'release'; job: Job }
+  | { time: number; kind: 'arrive'; vehicle: Vehicle; job: Job }
+  | { time: number; kind: 'dropped'; vehicle: Vehicle; job: Job }
+
+interface Scheduled {
+  event: SimEvent
+  seq: number
+}
+
+// Binary min-heap of events by time; ties go in scheduling order
+class EventQueue {
+  private heap: Scheduled[] = []
+  private seq = 0
+
+  get size(): number { return this.heap.length }
+
+  push(event: SimEvent): void {
+    const entry = { event, seq: this.seq++ }
+    const heap = this.heap
+    let i = heap.length
+    heap.push(entry)
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (!EventQueue.before(entry, heap[parent])) break
+      heap[i] = heap[parent]
+      i = parent
+    }
+    heap[i] = entry
+  }
+
+  pop(): SimEvent {
+    const heap = this.heap
+    const top = heap[0]
+    const last = heap.pop()!
+    if (heap.length > 0) {
+      let i = 0
+      for (;;) {
+        const l = 2 * i + 1
+        if (l >= heap.length) break
+        const c = l + 1 < heap.length && EventQueue.before(heap[l + 1], heap[l]) ? l + 1 : l
+        if (!EventQueue.before(heap[c], last)) break
+        heap[i] = heap[c]
+        i = c
+      }
+      heap[i] = last
+    }
+    return top.event
+  }
+
+  private static before(a: Scheduled, b: Scheduled): boolean {
+    return a.event.time < b.event.time || (a.event.time === b.event.time && a.seq < b.seq)
+  }
+}
+
+export function hourLabel(hour: number): string {
+  const h = ((hour % 24) + 24) % 24
+  const suffix = h < 12 ? 'AM' : 'PM'
+  return `${h % 12 === 0 ? 12 : h % 12}${suffix}`
+}
+
+// Simulates one shift of the plan's material flows; undefined when there
+// are no flows to carry
+export function simulateShift(
+  plan: Plan,
+  request: Partial<Request>,
+  opts: SimulationOptions = {}
+): SimulationResult | undefined {
+  const flows = planFlowMatrix(plan, request)
+  if (!flows) return undefined
+
+  const fleet = opts.fleet ?? request.fleet ?? DEFAULT_FLEET
+  const profile = opts.profile ?? DEFAULT_SHIFT_PROFILE
+  const startHour = opts.startHour ?? DEFAULT_SHIFT_START_HOUR
+  const seed = opts.seed ?? 1
+  const rng = createRng(seed)
+  const end = profile.length * 3600
+
+  const movable = plan.blocks.filter(b => b.key !== 'aisle')
+  const byId = new Map(movable.map(b => [b.id, b]))
+  const site = getSiteRect(request.site, plan.blocks)
+  const router = new TravelRouter(site, getSiteObstacles(request.site))
+  const distance: DistanceFn = router.forLayout(movable)
+  const pathFor: PathFn | undefined = opts.trace ? router.pathsForLayout(movable) : undefined
+  const travelS = (kind: VehicleClass, a: Block, b: Block) => distance(a, b) / fleet[kind].speedMps
+
+  const hours: SimulationHour[] = profile.map((_, i) => ({
+    hour: (startHour + i) % 24,
+    label: hourLabel(startHour + i),
+    demanded: 0,
+    completed: 0,
+    utilization: 0,
+    avgQueue: 0,
+    maxQueue: 0,
+    blockedMin: 0,
+  }))
+  const hourOf = (t: number) => Math.min(hours.length - 1, Math.floor(t / 3600))
+  // Adds `weight` per second of [from, to) to each hour it overlaps
+  const spread = (field: 'utilization' | 'avgQueue' | 'blockedMin', from: number, to: number, weight = 1) => {
+    const stop = Math.min(to, end)
+    for (let t = from; t < stop;) {
+      const h = hourOf(t)
+      const next = Math.min(stop, (h + 1) * 3600)
+      hours[h][field] += (next - t) * weight
+      t = next
+    }
+  }
+
+  // Releases: a Poisson stream per flow whose rate follows the profile
+  const events = new EventQueue()
+  for (const fromId in flows) {
+    for (const toId in flows[fromId]) {
+      const from = byId.get(fromId)
+      const to = byId.get(toId)
+      const moves = flows[fromId][toId]
+      if (!from || !to || moves <= 0) continue
+      const vehicle = vehicleFor(from.key)
+      profile.forEach((share, h) => {
+        const rate = moves * share / 3600
+        if (rate <= 0) return
+        for (let t = h * 3600 - Math.log(1 - rng()) / rate; t < (h + 1) * 3600; t -= Math.log(1 - rng()) / rate) {
+          events.push({ time: t, kind: 'release', job: { from, to, vehicle } })
+        }
+      })
+    }
+  }
+
+  // Vehicles start at the charging area when there is one
+  const home = movable.find(b => b.key === 'charging') ?? movable[0]
+  const kinds: VehicleClass[] = ['forklift', 'amr']
+  const vehicles: Vehicle[] = kinds
+    .flatMap(kind => Array.from({ length: fleet[kind].vehicles }, () => kind))
+    .map((kind, index) => ({ index, kind, at: home, busy: false }))
+  const legs: TraceLeg[][] = vehicles.map(() => [])
+  const record = (v: Vehicle, start: number, end: number, state: VehicleState, points: Point[]) => {
+    if (pathFor && end > start && points.length > 0) legs[v.index].push({ start, end, state, points })
+  }
+  // Drawn trip between blocks; straight when there is no route
+  const tripPoints = (a: Block, b: Block): Point[] => {
+    const points = pathFor!(a, b).points
+    return points.length > 0 ? points : [centreOf(a), centreOf(b)]
+  }
+  const ports = new Map<string, Port>()
+  const portOf = (b: Block) => {
+    let port = ports.get(b.id)
+    if (!port) {
+      port = { free: Math.max(1, inputPoints(b).length), waiting: [] }
+      ports.set(b.id, port)
+    }
+    return port
+  }
+
+  // Moves wait per vehicle class; the queue statistics count both
+  const queues: Record<VehicleClass, Job[]> = { forklift: [], amr: [] }
+  const queued = () => queues.forklift.length + queues.amr.length
+  let queueSince = 0
+  const busySince = new Map<Vehicle, number>()
+  const setQueue = (now: number, change: () => void) => {
+    spread('avgQueue', queueSince, now, queued())
+    change()
+    queueSince = now
+    if (now < end) hours[hourOf(now)].maxQueue = Math.max(hours[hourOf(now)].maxQueue, queued())
+  }
+
+  const startDrop = (now: number, vehicle: Vehicle, job: Job) => {
+    const unloadS = fleet[vehicle.kind].unloadS
+    if (pathFor) record(vehicle, now, now + unloadS, 'unloading', tripPoints(job.from, job.to).slice(-1))
+    events.push({ time: now + unloadS, kind: 'dropped', vehicle, job })
+  }
+
+  // Oldest waiting move of each class goes to the nearest idle vehicle of
+  // that class.  Driving empty retraces the route from the pick-up to where
+  // the vehicle stands, so it leaves by the input it dropped at and arrives
+  // at the source's output.
+  const dispatch = (now: number) => {
+    for (const kind of kinds) dispatchClass(now, kind)
+  }
+  const dispatchClass = (now: number, kind: VehicleClass) => {
+    const queue = queues[kind]
+    while (queue.length > 0) {
+      let best: Vehicle | undefined
+      let bestS = Infinity
+      for (const v of vehicles) {
+        if (v.busy || v.kind !== kind) continue
+        const s = v.at.id === queue[0].from.id ? 0 : travelS(kind, queue[0].from, v.at)
+        if (s < bestS) {
+          best = v
+          bestS = s
+        }
+      }
+      if (!best) return
+      let job!: Job
+      setQueue(now, () => { job = queue.shift()! })
+      best.busy = true
+      busySince.set(best, now)
+      const loadedAt = now + bestS + fleet[kind].loadS
+      const arriveAt = loadedAt + travelS(kind, job.from, job.to)
+      if (pathFor) {
+        const loaded = tripPoints(job.from, job.to)
+        if (best.at.id !== job.from.id) record(best, now, now + bestS, 'empty', [...tripPoints(job.from, best.at)].reverse())
+        // Already at the source: it crosses the block while loading
+        const standing = legs[best.index][legs[best.index].length - 1]?.points.slice(-1) ?? []
+        record(best, now + bestS, loadedAt, 'loading', best.at.id === job.from.id ? [...standing, loaded[0]] : loaded.slice(0, 1))
+        record(best, loadedAt, arriveAt, 'loaded', loaded)
+      }
+      events.push({ time: arriveAt, kind: 'arrive', vehicle: best, job })
+    }
+  }
+
+  while (events.size > 0) {
+    const event = events.pop()
+    const now = event.time
+    if (now >= end) break
+
+    if (event.kind === 'release') {
+      hours[hourOf(now)].demanded++
+      setQueue(now, () => queues[event.job.vehicle].push(event.job))
+      dispatch(now)
+    } else if (event.kind === 'arrive') {
+      const port = portOf(event.job.to)
+      if (port.free > 0) {
+        port.free--
+        startDrop(now, event.vehicle, event.job)
+      } else {
+        event.vehicle.blockedSince = now
+        port.waiting.push({ vehicle: event.vehicle, job: event.job })
+      }
+    } else {
+      const { vehicle, job } = event
+      hours[hourOf(now)].completed++
+      spread('utilization', busySince.get(vehicle)!, now)
+      vehicle.busy = false
+      vehicle.at = job.to
+      // The drop point passes to the next vehicle in line
+      const port = portOf(job.to)
+      const next = port.waiting.shift()
+      if (next) {
+        spread('blockedMin', next.vehicle.blockedSince!, now)
+        if (pathFor) record(next.vehicle, next.vehicle.blockedSince!, now, 'blocked', tripPoints(next.job.from, next.job.to).slice(-1))
+        next.vehicle.blockedSince = undefined
+        startDrop(now, next.vehicle, next.job)
+      } else {
+        port.free++
+      }
+      dispatch(now)
+    }
+  }
+
+  // Close the books at the end of the shift
+  spread('avgQueue', queueSince, end, queued())
+  for (const v of vehicles) {
+    if (v.busy) spread('utilization', busySince.get(v)!, end)
+    if (v.blockedSince !== undefined) {
+      spread('blockedMin', v.blockedSince, end)
+      if (pathFor) {
+        const waiting = [...ports.values()].flatMap(p => p.waiting).find(w => w.vehicle === v)!
+        record(v, v.blockedSince, end, 'blocked', tripPoints(waiting.job.from, waiting.job.to).slice(-1))
+      }
+    }
+  }
+  for (const h of hours) {
+    h.utilization /= 3600 * Math.max(1, vehicles.length)
+    h.avgQueue /= 3600
+    h.blockedMin /= 60
+  }
+
+  const demanded = hours.reduce((sum, h) => sum + h.demanded, 0)
+  const completed = hours.reduce((sum, h) => sum + h.completed, 0)
+  return {
+    fleet,
+    seed,
+    hours,
+    demanded,
+    completed,
+    backlog: demanded - completed,
+    utilization: hours.reduce((sum, h) => sum + h.utilization, 0) / hours.length,
+    peakQueue: Math.max(0, ...hours.map(h => h.maxQueue)),
+    blockedMin: hours.reduce((sum, h) => sum + h.blockedMin, 0),
+    trace: pathFor ? { duration: end, startHour, home: centreOf(home), vehicles: legs } : undefined,
+  }
+}
+
+function centreOf(b: Block): Point {
+  return { x: b.x + b.w / 2, y: b.y + b.h / 2 }
+}
+
+// Point a share of the way along a polyline
+function alongPolyline(points: Point[], share: number): Point {
+  if (points.length === 1) return points[0]
+  const lengths = points.slice(1).map((p, i) => Math.abs(p.x - points[i].x) + Math.abs(p.y - points[i].y))
+  let remaining = share * lengths.reduce((a, l) => a + l, 0)
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const t = remaining / lengths[i]
+      return { x: points[i].x + t * (points[i + 1].x - points[i].x), y: points[i].y + t * (points[i + 1].y - points[i].y) }
+    }
+    remaining -= lengths[i]
+  }
+  return points[points.length - 1]
+}
+
+// Where every vehicle is, and what it is doing, `time` seconds into the shift
+export function vehiclePositions(trace: SimulationTrace, time: number): VehiclePosition[] {
+  return trace.vehicles.map(legs => {
+    // Last leg starting at or before `time`
+    let lo = 0
+    let hi = legs.length - 1
+    let found = -1
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1
+      if (legs[mid].start <= time) {
+        found = mid
+        lo = mid + 1
+      } else {
+        hi = mid - 1
+      }
+    }
+    if (found === -1) return { ...trace.home, state: 'idle' as const }
+    const leg = legs[found]
+    if (time >= leg.end) return { ...leg.points[leg.points.length - 1], state: 'idle' as const }
+    return { ...alongPolyline(leg.points, (time - leg.start) / (leg.end - leg.start)), state: leg.state }
+  })
+}
@@ -0,0 +1,51 @@
+// Site helpers shared by the canvas, the optimizer and importers
+
+import { Block, Plan, Site } from './types'
+import { PathMask, RectM } from './grid'
+import { walkwayWidth } from './walkways'
+
+// Defaults for the parts of a Site that a geometry import cannot provide
+export const DEFAULT_SITE: Site = {
+  widthM: 96,
+  heightM: 54,
+  forklift: 'WA',
+  pedestrianDensity: 'med',
+}
+
+// Margin around the blocks when no site has been specified (meters)
+const FALLBACK_SITE_MARGIN = 5
+
+// Everything a block may not overlap: obstructions plus columns
+export function getSiteObstacles(site?: Partial<Site>): RectM[] {
+  return [...(site?.obstructions || []), ...(site?.columns || [])]
+}
+
+// Site rectangle from the request; without one, fall back to the extent of
+// the blocks plus a margin so legacy plans still have somewhere to live.
+export function getSiteRect(site: Partial<Site> | undefined, blocks: Block[] = []): RectM {
+  if (site?.widthM && site?.heightM) {
+    return { x: 0, y: 0, w: site.widthM, h: site.heightM }
+  }
+  const bounds = blocks.reduce((acc, block) => ({
+    minX: Math.min(acc.minX, block.x),
+    minY: Math.min(acc.minY, block.y),
+    maxX: Math.max(acc.maxX, block.x + block.w),
+    maxY: Math.max(acc.maxY, block.y + block.h)
+  }), { minX: 0, minY: 0, maxX: 100, maxY: 60 })
+  return {
+    x: bounds.minX - FALLBACK_SITE_MARGIN,
+    y: bounds.minY - FALLBACK_SITE_MARGIN,
+    w: (bounds.maxX - bounds.minX) + 2 * FALLBACK_SITE_MARGIN,
+    h: (bounds.maxY - bounds.minY) + 2 * FALLBACK_SITE_MARGIN,
+  }
+}
+
+// Path mask covering the site with aisle blocks and walkways reserved
+export function buildPathMask(blocks: Block[], site: RectM, cellSize = 0.25, walkways: Plan['walkways'] = []): PathMask {
+  const mask = new PathMask({ cellSize, width: site.x + site.w, height: site.y + site.h })
+  for (const b of blocks) {
+    if (b.key === 'aisle') mask.fillRect({ x: b.x, y: b.y, w: b.w, h: b.h }, 1)
+  }
+  for (const walkway of walkways ?? []) mask.addPolyline(walkway.polyline, walkwayWidth(walkway))
+  return mask
+}
@@ -1,6 +1,7 @@
 import { create } from 'zustand'
 import { devtools } from 'zustand/middleware'
 import { immer } from 'zustand/middleware/immer'
+import { isDraft, original } from 'immer'
 import { 
   AppState, 
   ChatMessage, 
@@ -8,10 +9,41 @@ import {
   Block, 
   Request, 
   OptimizationResult, 
+  OptimizationProgress,
   ValidationResult,
-  CanvasState 
+  CanvasState,
+  Exit,
+  DockDoor,
+  DockRole,
+  Walkway,
+  ProjectSnapshot,
+  ProjectSummary
 } from './types'
 import { generateId } from './utils'
+import { restoreChatMessages, toProjectSummary } from './projects'
+import { setModuleFlow } from './flows'
+import { adjacencyKey, clampDesirability } from './adjacency'
+
+// Maximum number of undo steps kept for plan edits
+const MAX_PLAN_HISTORY = 50
+
+// Record `previous` as an undo step; edits that start a new branch drop the
+// redo stack.  Consecutive checkpoints of the same plan are collapsed.
+function pushPlanHistory(state: AppState, previous: Plan | undefined) {
+  if (!previous) return
+  const { past } = state.planHistory
+  const recorded = isDraft(past) ? original(past)! : past
+  if (recorded[recorded.length - 1] === previous) return
+  past.push(previous)
+  if (past.length > MAX_PLAN_HISTORY) past.shift()
+  state.planHistory.future = []
+}
+
+// Drop selections that refer to blocks which no longer exist
+function pruneSelection(state: AppState) {
+  const ids = new Set(state.currentPlan?.blocks.map(b => b.id) || [])
+  state.canvasState.selectedBlockIds = state.canvasState.selectedBlockIds.filter(id => ids.has(id))
+}
 
 interface AppStore extends AppState {
   // Chat actions
@@ -21,16 +53,35 @@ interface AppStore extends AppState {
   // Request actions
   updateRequest: (updates: Partial<Request>) => void
   clearRequest: () => void
+  setAdjacency: (a: string, b: string, desirability: number | undefined) => void // undefined restores the default
+  resetAdjacency: () => void
+  addExit: (exit: Omit<Exit, 'id'>) => void
+  updateExit: (exitId: string, updates: Partial<Omit<Exit, 'id'>>) => void
+  removeExit: (exitId: string) => void
+  setDockDoors: (role: DockRole, doors: Array<Omit<DockDoor, 'id'>>) => void
+  removeDockDoor: (doorId: string) => void
   
   // Plan actions
   setPlan: (plan: Plan) => void
   updateBlock: (blockId: string, updates: Partial<Block>) => void
+  addWalkway: (walkway: Walkway) => void
+  updateWalkway: (index: number, updates: Partial<Walkway>) => void
+  removeWalkway: (index: number) => void
   addBlock: (block: Block) => void
   removeBlock: (blockId: string) => void
+  removeBlocks: (blockIds: string[]) => void
   clearPlan: () => void
+  setModuleFlow: (fromKey: string, toKey: string, movesPerH: number | undefined) => void // undefined restores the derived value
+  clearFlowOverrides: () => void
+  
+  // History actions
+  checkpointPlan: () => void
+  undo: () => void
+  redo: () => void
   
   // Optimization actions
   setOptimizationResult: (result: OptimizationResult) => void
+  setOptimizationProgress: (progress: OptimizationProgress, previewPlan?: Plan) => void
   selectPlan: (planId: string) => void
   clearOptimization: () => void
   
@@ -38,6 +89,10 @@ interface AppStore extends AppState {
   setValidationResult: (result: ValidationResult) => void
   clearValidation: () => void
   
+  // Project actions
+  setCurrentProject: (project: ProjectSummary | undefined) => void
+  openProject: (project: ProjectSnapshot) => void
+  
   // Canvas actions
   updateCanvasState: (updates: Partial<CanvasState>) => void
   setSelectedBlocks: (blockIds: string[]) => void
@@ -71,9 +126,16 @@ export const useAppStore = create<AppStore>()(
         showGrid: true,
         showMeasurements: false,
         showConstraints: true,
+        showFlows: true,
+        showTraffic: false,
+        showPlayback: false,
+        showEgress: false,
+        editWalkways: false,
         snapToGrid: true,
         gridSize: 2, // 2 meter grid
+        showOptimizerPreview: true,
       },
+      planHistory: { past: [], future: [] },
       chatMessages: [{
         id: generateId(),
         role: 'assistant',
@@ -118,12 +180,72 @@ export const useAppStore = create<AppStore>()(
           }
         }),
 
+      setAdjacency: (a, b, desirability) =>
+        set((state) => {
+          const adjacency = state.currentRequest.adjacency || {}
+          const key = adjacencyKey(a, b)
+          if (desirability === undefined) delete adjacency[key]
+          else adjacency[key] = clampDesirability(desirability)
+          state.currentRequest.adjacency = Object.keys(adjacency).length > 0 ? adjacency : undefined
+        }),
+
+      resetAdjacency: () =>
+        set((state) => {
+          state.currentRequest.adjacency = undefined
+        }),
+
+      // Exits belong to the site; without one there is no boundary to put them on
+      addExit: (exit) =>
+        set((state) => {
+          const site = state.currentRequest.site
+          if (!site) return
+          site.exits = [...(site.exits || []), { ...exit, id: generateId() }]
+        }),
+
+      updateExit: (exitId, updates) =>
+        set((state) => {
+          const exit = state.currentRequest.site?.exits?.find(e => e.id === exitId)
+          if (exit) Object.assign(exit, updates)
+        }),
+
+      removeExit: (exitId) =>
+        set((state) => {
+          const site = state.currentRequest.site
+          if (!site?.exits) return
+          site.exits = site.exits.filter(e => e.id !== exitId)
+          if (site.exits.length === 0) site.exits = undefined
+        }),
+
+      // Dock doors sit on the site like exits; a layout replaces the role's doors
+      setDockDoors: (role, doors) =>
+        set((state) => {
+          const site = state.currentRequest.site
+          if (!site) return
+          const kept = (site.docks || []).filter(d => d.role !== role)
+          const next = [...kept, ...doors.map(door => ({ ...door, id: generateId() }))]
+          site.docks = next.length > 0 ? next : undefined
+        }),
+
+      removeDockDoor: (doorId) =>
+        set((state) => {
+          const site = state.currentRequest.site
+          if (!site?.docks) return
+          site.docks = site.docks.filter(d => d.id !== doorId)
+          if (site.docks.length === 0) site.docks = undefined
+        }),
+
       // Plan actions
-      setPlan: (plan) =>
+      setPlan: (plan) => {
+        const previous = get().currentPlan
         set((state) => {
+          pushPlanHistory(state, previous)
           state.currentPlan = plan
-        }),
+          pruneSelection(state)
+        })
+      },
 
+      // Live edit without a history entry; callers checkpoint once at the
+      // start of a gesture (drag, resize) via checkpointPlan
       updateBlock: (blockId, updates) =>
         set((state) => {
           if (state.currentPlan) {
@@ -134,8 +256,36 @@ export const useAppStore = create<AppStore>()(
           }
         }),
 
-      addBlock: (block) =>
+      addWalkway: (walkway) => {
+        const previous = get().currentPlan
+        if (!previous) return
+        set((state) => {
+          pushPlanHistory(state, previous)
+          state.currentPlan!.walkways = [...(state.currentPlan!.walkways || []), walkway]
+        })
+      },
+
+      // Live edit like updateBlock; callers checkpoint at the start of a drag
+      updateWalkway: (index, updates) =>
+        set((state) => {
+          const walkway = state.currentPlan?.walkways?.[index]
+          if (walkway) Object.assign(walkway, updates)
+        }),
+
+      removeWalkway: (index) => {
+        const previous = get().currentPlan
+        if (!previous?.walkways?.[index]) return
+        set((state) => {
+          pushPlanHistory(state, previous)
+          const walkways = state.currentPlan!.walkways!.filter((_, i) => i !== index)
+          state.currentPlan!.walkways = walkways.length > 0 ? walkways : undefined
+        })
+      },
+
+      addBlock: (block) => {
+        const previous = get().currentPlan
         set((state) => {
+          pushPlanHistory(state, previous)
           if (state.currentPlan) {
             state.currentPlan.blocks.push(block)
           } else {
@@ -147,24 +297,76 @@ export const useAppStore = create<AppStore>()(
               ruleFindings: []
             }
           }
-        }),
+        })
+      },
 
-      removeBlock: (blockId) =>
+      removeBlock: (blockId) => get().removeBlocks([blockId]),
+
+      removeBlocks: (blockIds) => {
+        const previous = get().currentPlan
+        if (!previous || blockIds.length === 0) return
         set((state) => {
-          if (state.currentPlan) {
-            state.currentPlan.blocks = state.currentPlan.blocks.filter(
-              b => b.id !== blockId
-            )
-            state.canvasState.selectedBlockIds = state.canvasState.selectedBlockIds.filter(
-              id => id !== blockId
-            )
-          }
-        }),
+          pushPlanHistory(state, previous)
+          state.currentPlan!.blocks = state.currentPlan!.blocks.filter(
+            b => !blockIds.includes(b.id)
+          )
+          pruneSelection(state)
+        })
+      },
 
-      clearPlan: () =>
+      clearPlan: () => {
+        const previous = get().currentPlan
         set((state) => {
+          pushPlanHistory(state, previous)
           state.currentPlan = undefined
           state.canvasState.selectedBlockIds = []
+        })
+      },
+
+      setModuleFlow: (fromKey, toKey, movesPerH) => {
+        const previous = get().currentPlan
+        if (!previous) return
+        set((state) => {
+          pushPlanHistory(state, previous)
+          const overrides = state.currentPlan!.flowOverrides || {}
+          setModuleFlow(overrides, state.currentPlan!.blocks, fromKey, toKey, movesPerH)
+          state.currentPlan!.flowOverrides = Object.keys(overrides).length > 0 ? overrides : undefined
+        })
+      },
+
+      clearFlowOverrides: () => {
+        const previous = get().currentPlan
+        if (!previous?.flowOverrides) return
+        set((state) => {
+          pushPlanHistory(state, previous)
+          state.currentPlan!.flowOverrides = undefined
+        })
+      },
+
+      // History actions
+      checkpointPlan: () => {
+        const previous = get().currentPlan
+        set((state) => {
+          pushPlanHistory(state, previous)
+        })
+      },
+
+      undo: () =>
+        set((state) => {
+          const previous = state.planHistory.past.pop()
+          if (!previous) return
+          if (state.currentPlan) state.planHistory.future.push(state.currentPlan)
+          state.currentPlan = previous
+          pruneSelection(state)
+        }),
+
+      redo: () =>
+        set((state) => {
+          const next = state.planHistory.future.pop()
+          if (!next) return
+          if (state.currentPlan) state.planHistory.past.push(state.currentPlan)
+          state.currentPlan = next
+          pruneSelection(state)
         }),
 
       // Optimization actions
@@ -173,16 +375,28 @@ export const useAppStore = create<AppStore>()(
           state.optimizationResult = result
         }),
 
-      selectPlan: (planId) =>
+      setOptimizationProgress: (progress, previewPlan) =>
+        set((state) => {
+          if (state.optimizationResult) {
+            state.optimizationResult.progress = progress
+            if (previewPlan) state.optimizationResult.previewPlan = previewPlan
+          }
+        }),
+
+      selectPlan: (planId) => {
+        const previous = get().currentPlan
         set((state) => {
           if (state.optimizationResult) {
             const selectedPlan = state.optimizationResult.plans.find(p => p.id === planId)
             if (selectedPlan) {
+              pushPlanHistory(state, previous)
               state.currentPlan = selectedPlan
               state.optimizationResult.selectedPlanId = planId
+              pruneSelection(state)
             }
           }
-        }),
+        })
+      },
 
       clearOptimization: () =>
         set((state) => {
@@ -200,6 +414,25 @@ export const useAppStore = create<AppStore>()(
           state.validationResult = undefined
         }),
 
+      // Project actions
+      setCurrentProject: (project) =>
+        set((state) => {
+          state.currentProject = project
+        }),
+
+      // Replace the working state with a saved project; history starts fresh
+      openProject: (project) =>
+        set((state) => {
+          state.currentProject = toProjectSummary(project)
+          state.currentRequest = project.request || {}
+          state.currentPlan = project.plan
+          state.optimizationResult = project.optimizationResult
+          state.validationResult = undefined
+          state.chatMessages = restoreChatMessages(project)
+          state.planHistory = { past: [], future: [] }
+          state.canvasState.selectedBlockIds = []
+        }),
+
       // Canvas actions
       updateCanvasState: (updates) =>
         set((state) => {
@@ -0,0 +1,63 @@
+// Traffic on the floor: every routed trip of the flow matrix adds its moves
+// to the cells it crosses, twice (loaded out, empty back along the same
+// route), so busy aisle stretches show up and can be checked against a
+// per-cell load limit.
+
+import { Plan, Request } from './types'
+import { cellZones, RectM } from './grid'
+import { routedFlows } from './flows'
+import { ROUTE_CELL_M } from './routing'
+import { getSiteRect } from './site'
+
+// Vehicle passes per hour one aisle cell takes before traffic starts to
+// queue: one every 12 s
+export const DEFAULT_AISLE_LOAD_LIMIT = 300
+
+export interface TrafficSegment {
+  bounds: RectM // extent of the overloaded cells (m)
+  peakLoad: number // passes/hour on its busiest cell
+  cells: number // overloaded cells in it
+  aisleId?: string // the aisle block it lies on, if any
+}
+
+export interface TrafficMap {
+  cellSize: number // m; cells start at the origin like the routing grid
+  cols: number
+  rows: number
+  load: Float64Array // passes/hour per cell, row-major
+  peakLoad: number
+  limit: number
+  peakUtilization: number // busiest cell's load over the limit
+  overloads: TrafficSegment[] // connected stretches over the limit, busiest first
+}
+
+// Traffic of a plan's material flows; undefined when there are no flows
+export function computeTraffic(plan: Plan, request: Partial<Request>): TrafficMap | undefined {
+  const cellSize = ROUTE_CELL_M
+  const flows = routedFlows(plan, request, cellSize)
+  if (!flows) return undefined
+
+  const site = getSiteRect(request.site, plan.blocks)
+  const cols = Math.ceil((site.x + site.w) / cellSize)
+  const rows = Math.ceil((site.y + site.h) / cellSize)
+  const load = new Float64Array(cols * rows)
+
+  for (const { moves, path } of flows) {
+    for (const [c, r] of path.cells) load[r * cols + c] += 2 * moves
+  }
+
+  let peakLoad = 0
+  for (let i = 0; i < load.length; i++) peakLoad = Math.max(peakLoad, load[i])
+  const limit = request.aisleLoadLimit ?? DEFAULT_AISLE_LOAD_LIMIT
+
+  const aisles = plan.blocks.filter(b => b.key === 'aisle')
+  // Connected runs of cells over the limit, busiest first
+  const overloads: TrafficSegment[] = cellZones(cols, rows, cellSize, i => load[i] > limit, i => load[i], (a, b) => a > b)
+    .sort((a, b) => b.worst - a.worst)
+    .map(({ bounds: s, cells, worst }) => {
+      const aisle = aisles.find(a => a.x < s.x + s.w && s.x < a.x + a.w && a.y < s.y + s.h && s.y < a.y + a.h)
+      return { bounds: s, peakLoad: worst, cells, aisleId: aisle?.id }
+    })
+
+  return { cellSize, cols, rows, load, peakLoad, limit, peakUtilization: peakLoad / limit, overloads }
+}
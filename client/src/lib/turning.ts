@@ -0,0 +1,207 @@
+// Swept-path checks for the site's forklift class: every right-angle turn
+// between two aisles needs the loaded truck's swept radius clear of
+// equipment and walls, and every aisle end that leads nowhere needs room to
+// turn around.  Limits default to forklift_aisles in rules.yaml.
+
+import { Block, BlockSide, ForkliftClass, MODULE_DEFINITIONS, ModuleKey, Plan, Request, RuleFinding } from './types'
+import { aabbOverlap, RectM } from './grid'
+import { Point } from './routing'
+import { getSiteObstacles, getSiteRect } from './site'
+import { FEET_TO_M, feetOr, metres } from './units'
+import { DEFAULT_VEHICLE_PROFILES, VehicleProfile } from './vehicle-profiles'
+
+const EPS = 1e-6
+
+export interface TurningDesign {
+  radiusFactor: number // swept radius per metre of truck length
+  loadClearanceM: number // kept beyond the swept path
+}
+
+export const DEFAULT_TURNING_DESIGN: TurningDesign = {
+  radiusFactor: 1.2,
+  loadClearanceM: 1 * FEET_TO_M,
+}
+
+export function turningDesignFromRules(rules?: Record<string, any>): TurningDesign {
+  const aisles = rules?.forklift_aisles || {}
+  return {
+    radiusFactor: Number(aisles.turning_radius_factor) || DEFAULT_TURNING_DESIGN.radiusFactor,
+    loadClearanceM: feetOr(aisles.load_clearance, DEFAULT_TURNING_DESIGN.loadClearanceM),
+  }
+}
+
+// Radius the loaded truck sweeps in a turn: the larger of its own turning
+// radius and the rule of thumb on its length
+export function sweptRadius(profile: VehicleProfile, design: TurningDesign = DEFAULT_TURNING_DESIGN): number {
+  return Math.max(profile.turningRadiusM, design.radiusFactor * profile.lengthM)
+}
+
+export interface TurningCorner {
+  at: Point // inner corner the truck turns about (m)
+  toward: [number, number] // quadrant the truck sweeps through, ±1 in x and y
+  aisleIds: [string, string]
+  clearM: number // from the corner to the nearest obstruction in the quadrant
+  ok: boolean
+}
+
+export interface DeadEnd {
+  aisleId: string
+  at: Point // middle of the closed end (m)
+  side: BlockSide
+  widthM: number
+  ok: boolean
+}
+
+export interface TurningReport {
+  forklift: ForkliftClass
+  profile: VehicleProfile
+  sweptRadiusM: number
+  requiredM: number // swept radius plus load clearance
+  corners: TurningCorner[]
+  deadEnds: DeadEnd[]
+  findings: RuleFinding[]
+}
+
+interface Obstruction extends RectM {
+  label: string
+  blockId?: string
+}
+
+const where = (p: Point) => `${p.x.toFixed(0)}, ${p.y.toFixed(0)} m`
+const horizontal = (aisle: Block) => aisle.w >= aisle.h
+
+// Distance from a corner to the part of a rectangle inside the quadrant
+// `toward` it; Infinity when none of the rectangle lies there
+function quadrantDistance(corner: Point, toward: [number, number], r: RectM): number {
+  const [sx, sy] = toward
+  const x0 = sx > 0 ? Math.max(r.x, corner.x) : r.x
+  const x1 = sx > 0 ? r.x + r.w : Math.min(r.x + r.w, corner.x)
+  const y0 = sy > 0 ? Math.max(r.y, corner.y) : r.y
+  const y1 = sy > 0 ? r.y + r.h : Math.min(r.y + r.h, corner.y)
+  if (x1 - x0 < EPS || y1 - y0 < EPS) return Infinity
+  const dx = Math.max(0, x0 - corner.x, corner.x - x1)
+  const dy = Math.max(0, y0 - corner.y, corner.y - y1)
+  return Math.hypot(dx, dy)
+}
+
+// Right-angle turns where a cross-aisle meets a vertical one: the box both
+// share, and the arms leading away from it on each side
+function aisleTurns(a: Block, b: Block): Array<{ at: Point; toward: [number, number] }> {
+  const [h, v] = horizontal(a) ? [a, b] : [b, a]
+  if (!horizontal(h) || horizontal(v)) return []
+  const x0 = Math.max(h.x, v.x)
+  const x1 = Math.min(h.x + h.w, v.x + v.w)
+  const y0 = h.y
+  const y1 = h.y + h.h
+  if (x1 - x0 < EPS) return []
+  if (v.y > y1 + EPS || v.y + v.h < y0 - EPS) return []
+
+  const arms = {
+    left: h.x < x0 - EPS,
+    right: h.x + h.w > x1 + EPS,
+    up: v.y < y0 - EPS,
+    down: v.y + v.h > y1 + EPS,
+  }
+  const turns: Array<{ at: Point; toward: [number, number] }> = []
+  for (const dx of [-1, 1]) {
+    for (const dy of [-1, 1]) {
+      if (!(dx < 0 ? arms.left : arms.right) || !(dy < 0 ? arms.up : arms.down)) continue
+      // Turning from the arm on the dx side into the arm on the dy side the
+      // truck pivots on the box corner between them and swings across the box
+      turns.push({ at: { x: dx < 0 ? x0 : x1, y: dy < 0 ? y0 : y1 }, toward: [-dx, -dy] })
+    }
+  }
+  return turns
+}
+
+// Corner and dead-end clearance for the plan's aisles
+export function checkTurning(
+  plan: Plan,
+  request: Partial<Request>,
+  profiles: Record<ForkliftClass, VehicleProfile> = DEFAULT_VEHICLE_PROFILES,
+  design: TurningDesign = DEFAULT_TURNING_DESIGN
+): TurningReport {
+  const forklift = request.site?.forklift ?? 'WA'
+  const profile = profiles[forklift]
+  const sweptRadiusM = sweptRadius(profile, design)
+  const requiredM = sweptRadiusM + design.loadClearanceM
+  const aisles = plan.blocks.filter(b => b.key === 'aisle')
+  const site = getSiteRect(request.site, plan.blocks)
+  const obstructions: Obstruction[] = [
+    ...plan.blocks
+      .filter(b => b.key !== 'aisle')
+      .map(b => ({ x: b.x, y: b.y, w: b.w, h: b.h, blockId: b.id, label: MODULE_DEFINITIONS[b.key as ModuleKey]?.name ?? b.key })),
+    ...getSiteObstacles(request.site).map(o => ({ ...o, label: 'a building obstruction' })),
+  ]
+  const corners: TurningCorner[] = []
+  const deadEnds: DeadEnd[] = []
+  const findings: RuleFinding[] = []
+  const flag = (finding: Pick<RuleFinding, 'id' | 'message' | 'suggestion' | 'blockId'>) =>
+    findings.push({ type: 'warning', rule: 'turning_radius', ...finding })
+  const truck = `${forklift} ${profile.name.toLowerCase()}`
+
+  // Right-angle turns: the swept quadrant must be clear of equipment and walls
+  aisles.forEach((a, i) => {
+    aisles.slice(i + 1).forEach(b => {
+      for (const { at, toward } of aisleTurns(a, b)) {
+        const wall = Math.min(
+          toward[0] > 0 ? site.x + site.w - at.x : at.x - site.x,
+          toward[1] > 0 ? site.y + site.h - at.y : at.y - site.y
+        )
+        let clearM = wall
+        let nearest: Obstruction | undefined
+        for (const o of obstructions) {
+          const d = quadrantDistance(at, toward, o)
+          if (d < clearM) {
+            clearM = d
+            nearest = o
+          }
+        }
+        const ok = clearM >= requiredM - EPS
+        corners.push({ at, toward, aisleIds: [a.id, b.id], clearM, ok })
+        if (ok) continue
+        flag({
+          id: `corner-${a.id}-${b.id}-${toward.join('')}`,
+          blockId: nearest?.blockId,
+          message: `Corner at ${where(at)} leaves ${metres(clearM)} to turn a ${truck}, ${metres(requiredM)} needed`,
+          suggestion: nearest
+            ? `${nearest.label} stands in the swept path; pull it back or widen the aisles`
+            : 'The wall stands in the swept path; widen the aisles or move the turn',
+        })
+      }
+    })
+  })
+
+  // Aisle ends that meet no other aisle and open onto no clear floor are
+  // dead-ends; a truck turns around there within the aisle's width
+  for (const aisle of aisles) {
+    const across = horizontal(aisle)
+    const widthM = across ? aisle.h : aisle.w
+    const ends: Array<{ side: BlockSide; edge: RectM; beyond: RectM }> = across
+      ? [
+          { side: 'left', edge: { x: aisle.x, y: aisle.y, w: 0, h: aisle.h }, beyond: { x: aisle.x - requiredM, y: aisle.y, w: requiredM, h: aisle.h } },
+          { side: 'right', edge: { x: aisle.x + aisle.w, y: aisle.y, w: 0, h: aisle.h }, beyond: { x: aisle.x + aisle.w, y: aisle.y, w: requiredM, h: aisle.h } },
+        ]
+      : [
+          { side: 'top', edge: { x: aisle.x, y: aisle.y, w: aisle.w, h: 0 }, beyond: { x: aisle.x, y: aisle.y - requiredM, w: aisle.w, h: requiredM } },
+          { side: 'bottom', edge: { x: aisle.x, y: aisle.y + aisle.h, w: aisle.w, h: 0 }, beyond: { x: aisle.x, y: aisle.y + aisle.h, w: aisle.w, h: requiredM } },
+        ]
+    for (const { side, edge, beyond } of ends) {
+      if (aisles.some(other => other !== aisle && aabbOverlap(other, edge, -EPS))) continue
+      const insideSite = beyond.x >= site.x - EPS && beyond.y >= site.y - EPS &&
+        beyond.x + beyond.w <= site.x + site.w + EPS && beyond.y + beyond.h <= site.y + site.h + EPS
+      if (insideSite && !obstructions.some(o => aabbOverlap(o, beyond, EPS))) continue
+      const at = { x: edge.x + edge.w / 2, y: edge.y + edge.h / 2 }
+      const ok = widthM >= requiredM - EPS
+      deadEnds.push({ aisleId: aisle.id, at, side, widthM, ok })
+      if (ok) continue
+      flag({
+        id: `dead-end-${aisle.id}-${side}`,
+        message: `Dead-end aisle at ${where(at)} is ${metres(widthM)} wide, ${metres(requiredM)} needed to turn a ${truck}`,
+        suggestion: 'Trucks would have to reverse out; connect the aisle through or widen its end',
+      })
+    }
+  }
+
+  return { forklift, profile, sweptRadiusM, requiredM, corners, deadEnds, findings }
+}
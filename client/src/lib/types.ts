@@ -2,6 +2,7 @@ import { z } from 'zod'
 
 // Core data types from the requirements
 export type ForkliftClass = 'WA' | 'NA' | 'VNA' // wide/narrow/very narrow
+export type VehicleClass = 'forklift' | 'amr'
 export type ModuleKey = 
   | 'pallet_asrs'
   | 'tote_asrs' 
@@ -26,15 +27,56 @@ export const ThroughputSchema = z.object({
   ordersPerH: z.number().min(0),
 })
 
+// One vehicle class: how many the shift runs with, how fast they drive and
+// how long a move's pick-up and drop-off take
+export const VehicleSpecSchema = z.object({
+  vehicles: z.number().int().min(0),
+  speedMps: z.number().positive(),
+  loadS: z.number().min(0),
+  unloadS: z.number().min(0),
+})
+
+// Vehicles that carry the material flows: forklifts take pallet moves, AMRs
+// tote and order moves.  Fleet sizing and the shift simulation both read it.
+export const FleetSchema = z.object({
+  forklift: VehicleSpecSchema,
+  amr: VehicleSpecSchema,
+  targetUtilization: z.number().positive().max(1), // fleet sizing aims for it
+})
+
+export const SiteRectSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  w: z.number().min(0),
+  h: z.number().min(0),
+})
+
+// Exit door on the site boundary; `offset` runs along its side from the
+// top or left end to the door's centre (m)
+export const ExitSchema = z.object({
+  id: z.string(),
+  side: z.enum(['top', 'right', 'bottom', 'left']),
+  offset: z.number().min(0),
+  widthM: z.number().positive(),
+})
+
+// Dock door on the site boundary, placed like an exit; the role says which
+// dock's pallets cross it
+export const DockDoorSchema = z.object({
+  id: z.string(),
+  role: z.enum(['inbound', 'outbound']),
+  side: z.enum(['top', 'right', 'bottom', 'left']),
+  offset: z.number().min(0),
+  widthM: z.number().positive(),
+})
+
 export const SiteSchema = z.object({
   widthM: z.number().min(1),
   heightM: z.number().min(1),
-  obstructions: z.array(z.object({
-    x: z.number(),
-    y: z.number(),
-    w: z.number().min(0),
-    h: z.number().min(0),
-  })).optional(),
+  obstructions: z.array(SiteRectSchema).optional(),
+  columns: z.array(SiteRectSchema).optional(), // building columns, e.g. from a DXF import
+  exits: z.array(ExitSchema).optional(),
+  docks: z.array(DockDoorSchema).optional(),
   forklift: z.enum(['WA', 'NA', 'VNA']),
   pedestrianDensity: z.enum(['low', 'med', 'high']),
 })
@@ -52,6 +94,11 @@ export const RequestSchema = z.object({
     safety: z.number().min(0).max(1),
     compactness: z.number().min(0).max(1),
   }),
+  // Edited adjacency desirability by module pair, on top of ADJACENCY_WEIGHTS
+  adjacency: z.record(z.string(), z.number().min(-1).max(1)).optional(),
+  // Vehicle passes/hour one aisle cell may carry before it is flagged
+  aisleLoadLimit: z.number().positive().optional(),
+  fleet: FleetSchema.optional(),
 })
 
 export const BlockSchema = z.object({
@@ -65,19 +112,25 @@ export const BlockSchema = z.object({
   y: z.number(),
   w: z.number().min(0),
   h: z.number().min(0),
-  rot: z.enum([0, 90]).optional(),
+  rot: z.union([z.literal(0), z.literal(90), z.literal(180), z.literal(270)]).optional(), // clockwise degrees
   meta: z.object({
     kpis: z.record(z.string(), z.number()),
     notes: z.array(z.string()).optional(),
   }),
 })
 
+// Pedestrian walkway: a polyline of corridor centrelines (m) with its
+// width; marked walkways may be narrower than unmarked ones
+export const WalkwaySchema = z.object({
+  polyline: z.array(z.tuple([z.number(), z.number()])),
+  widthM: z.number().positive().optional(),
+  marked: z.boolean().optional(),
+})
+
 export const PlanSchema = z.object({
   id: z.string(),
   blocks: z.array(BlockSchema),
-  walkways: z.array(z.object({
-    polyline: z.array(z.tuple([z.number(), z.number()])),
-  })).optional(),
+  walkways: z.array(WalkwaySchema).optional(),
   score: z.number(),
   scores: z.object({
     travel: z.number(),
@@ -86,10 +139,27 @@ export const PlanSchema = z.object({
     compact: z.number(),
   }),
   ruleFindings: z.array(z.string()),
+  seed: z.number().optional(), // optimizer seed that produced this plan
+  // Raw objective values (lower is better) for plans from the Pareto search
+  objectives: z.object({
+    travel: z.number(),
+    adjacency: z.number(),
+    safety: z.number(),
+    compact: z.number(),
+  }).optional(),
+  // From-To cells edited by hand (moves/h by block id); these replace the
+  // values derived from throughput
+  flowOverrides: z.record(z.string(), z.record(z.string(), z.number())).optional(),
 })
 
 // TypeScript types derived from schemas
 export type Throughput = z.infer<typeof ThroughputSchema>
+export type Fleet = z.infer<typeof FleetSchema>
+export type VehicleSpec = z.infer<typeof VehicleSpecSchema>
+export type Exit = z.infer<typeof ExitSchema>
+export type DockDoor = z.infer<typeof DockDoorSchema>
+export type DockRole = DockDoor['role']
+export type Walkway = z.infer<typeof WalkwaySchema>
 export type Site = z.infer<typeof SiteSchema>
 export type Request = z.infer<typeof RequestSchema>
 export type Block = z.infer<typeof BlockSchema>
@@ -104,15 +174,32 @@ export interface ChatMessage {
   type?: 'text' | 'plan' | 'optimization' | 'validation'
 }
 
+export interface OptimizationProgress {
+  iteration: number
+  iterations: number
+  currentScore: number
+  bestScore: number
+  acceptedMoves: number
+  temperature: number
+  restart: number
+}
+
 export interface OptimizationResult {
   plans: Plan[]
   selectedPlanId?: string
   isOptimizing: boolean
+  progress?: OptimizationProgress
+  previewPlan?: Plan // best layout found so far while the optimizer runs
+  sourcePlan?: Plan // layout the run started from, for re-running with a seed
+  seed?: number
+  mode?: 'anneal' | 'pareto' // pareto: plans are a trade-off front, not a ranking
 }
 
 export interface ValidationResult {
   findings: RuleFinding[]
+  rules?: RuleSummary[] // per configured rule, whether it ran and what it found
   isValidating: boolean
+  error?: string
 }
 
 export interface RuleFinding {
@@ -122,6 +209,17 @@ export interface RuleFinding {
   blockId?: string
   suggestion?: string
   source?: string
+  rule?: string // validation_rules entry that raised it
+  citation?: string
+}
+
+export interface RuleSummary {
+  rule: string
+  description: string
+  severity: 'error' | 'warning' | 'info'
+  citation?: string
+  checked: boolean // false when the server has no check for the rule
+  findings: number
 }
 
 export interface CanvasState {
@@ -132,13 +230,41 @@ export interface CanvasState {
   showGrid: boolean
   showMeasurements: boolean
   showConstraints: boolean
+  showFlows: boolean // routed material flow arrows
+  showTraffic: boolean // aisle traffic heatmap
+  showPlayback: boolean // replay of the simulated shift
+  showEgress: boolean // exit travel distances; clicks on the boundary place exits
+  editWalkways: boolean // clicks draw walkway polylines; walkway points drag
   snapToGrid: boolean
   gridSize: number
+  showOptimizerPreview: boolean // draw the optimizer's best-so-far layout while it runs
+}
+
+export interface ProjectSummary {
+  id: string
+  name: string
+  updatedAt: string // ISO timestamp
+  source?: 'local' | 'server' | 'both'
+}
+
+// Serializable copy of everything a project needs to resume work
+export interface ProjectSnapshot extends ProjectSummary {
+  request: Partial<Request>
+  plan?: Plan
+  optimizationResult?: OptimizationResult
+  chatMessages: Array<Omit<ChatMessage, 'timestamp'> & { timestamp: string }>
+}
+
+export interface PlanHistory {
+  past: Plan[]
+  future: Plan[]
 }
 
 export interface AppState {
   currentRequest: Partial<Request>
   currentPlan?: Plan
+  planHistory: PlanHistory
+  currentProject?: ProjectSummary
   optimizationResult?: OptimizationResult
   validationResult?: ValidationResult
   canvasState: CanvasState
@@ -149,6 +275,17 @@ export interface AppState {
   error?: string
 }
 
+// Pickup/drop-off point on a module's edge, in the unrotated orientation.
+// `offset` runs 0..1 along the side, left to right or top to bottom.
+export type BlockSide = 'top' | 'right' | 'bottom' | 'left'
+
+export interface IOPoint {
+  side: BlockSide
+  offset: number
+  kind: 'in' | 'out' | 'inout'
+  label: string
+}
+
 // Module definitions with metadata
 export interface ModuleDefinition {
   key: ModuleKey
@@ -159,6 +296,7 @@ export interface ModuleDefinition {
   icon: string
   defaultSize: { w: number; h: number }
   areaCoefficient: number // m² per unit throughput
+  ioPoints: IOPoint[]
 }
 
 export const MODULE_DEFINITIONS: Record<ModuleKey, ModuleDefinition> = {
@@ -170,7 +308,8 @@ export const MODULE_DEFINITIONS: Record<ModuleKey, ModuleDefinition> = {
     color: '#3B82F6',
     icon: '📦',
     defaultSize: { w: 32, h: 18 },
-    areaCoefficient: 0.8
+    areaCoefficient: 0.8,
+    ioPoints: [{ side: 'bottom', offset: 0.5, kind: 'inout', label: 'Front-end conveyor' }]
   },
   tote_asrs: {
     key: 'tote_asrs',
@@ -180,7 +319,8 @@ export const MODULE_DEFINITIONS: Record<ModuleKey, ModuleDefinition> = {
     color: '#10B981',
     icon: '📋',
     defaultSize: { w: 24, h: 12 },
-    areaCoefficient: 0.3
+    areaCoefficient: 0.3,
+    ioPoints: [{ side: 'bottom', offset: 0.5, kind: 'inout', label: 'Tote conveyor' }]
   },
   gtp: {
     key: 'gtp',
@@ -190,7 +330,11 @@ export const MODULE_DEFINITIONS: Record<ModuleKey, ModuleDefinition> = {
     color: '#F59E0B',
     icon: '🤖',
     defaultSize: { w: 18, h: 12 },
-    areaCoefficient: 0.05
+    areaCoefficient: 0.05,
+    ioPoints: [
+      { side: 'left', offset: 0.5, kind: 'in', label: 'Tote infeed' },
+      { side: 'right', offset: 0.5, kind: 'out', label: 'Order outfeed' }
+    ]
   },
   picking: {
     key: 'picking',
@@ -200,7 +344,11 @@ export const MODULE_DEFINITIONS: Record<ModuleKey, ModuleDefinition> = {
     color: '#EF4444',
     icon: '👤',
     defaultSize: { w: 26, h: 16 },
-    areaCoefficient: 0.1
+    areaCoefficient: 0.1,
+    ioPoints: [
+      { side: 'left', offset: 0.5, kind: 'in', label: 'Replenishment' },
+      { side: 'right', offset: 0.5, kind: 'out', label: 'Picked orders' }
+    ]
   },
   consolidation: {
     key: 'consolidation',
@@ -210,7 +358,11 @@ export const MODULE_DEFINITIONS: Record<ModuleKey, ModuleDefinition> = {
     color: '#8B5CF6',
     icon: '📦',
     defaultSize: { w: 20, h: 14 },
-    areaCoefficient: 0.08
+    areaCoefficient: 0.08,
+    ioPoints: [
+      { side: 'left', offset: 0.5, kind: 'in', label: 'Order infeed' },
+      { side: 'right', offset: 0.5, kind: 'out', label: 'Packed orders' }
+    ]
   },
   palletizer: {
     key: 'palletizer',
@@ -220,7 +372,11 @@ export const MODULE_DEFINITIONS: Record<ModuleKey, ModuleDefinition> = {
     color: '#06B6D4',
     icon: '🏗️',
     defaultSize: { w: 12, h: 8 },
-    areaCoefficient: 0.15
+    areaCoefficient: 0.15,
+    ioPoints: [
+      { side: 'left', offset: 0.5, kind: 'in', label: 'Case infeed' },
+      { side: 'right', offset: 0.5, kind: 'out', label: 'Pallet outfeed' }
+    ]
   },
   depalletizer: {
     key: 'depalletizer',
@@ -230,7 +386,11 @@ export const MODULE_DEFINITIONS: Record<ModuleKey, ModuleDefinition> = {
     color: '#84CC16',
     icon: '🔧',
     defaultSize: { w: 12, h: 8 },
-    areaCoefficient: 0.15
+    areaCoefficient: 0.15,
+    ioPoints: [
+      { side: 'left', offset: 0.5, kind: 'in', label: 'Pallet infeed' },
+      { side: 'right', offset: 0.5, kind: 'out', label: 'Case outfeed' }
+    ]
   },
   inbound: {
     key: 'inbound',
@@ -240,7 +400,12 @@ export const MODULE_DEFINITIONS: Record<ModuleKey, ModuleDefinition> = {
     color: '#F97316',
     icon: '📥',
     defaultSize: { w: 24, h: 12 },
-    areaCoefficient: 1.2
+    areaCoefficient: 1.2,
+    ioPoints: [
+      { side: 'top', offset: 0.25, kind: 'in', label: 'Dock door' },
+      { side: 'top', offset: 0.75, kind: 'in', label: 'Dock door' },
+      { side: 'bottom', offset: 0.5, kind: 'out', label: 'To depalletizing' }
+    ]
   },
   outbound: {
     key: 'outbound',
@@ -250,7 +415,12 @@ export const MODULE_DEFINITIONS: Record<ModuleKey, ModuleDefinition> = {
     color: '#EC4899',
     icon: '📤',
     defaultSize: { w: 24, h: 12 },
-    areaCoefficient: 1.2
+    areaCoefficient: 1.2,
+    ioPoints: [
+      { side: 'top', offset: 0.5, kind: 'in', label: 'From palletizing' },
+      { side: 'bottom', offset: 0.25, kind: 'out', label: 'Dock door' },
+      { side: 'bottom', offset: 0.75, kind: 'out', label: 'Dock door' }
+    ]
   },
   charging: {
     key: 'charging',
@@ -260,7 +430,8 @@ export const MODULE_DEFINITIONS: Record<ModuleKey, ModuleDefinition> = {
     color: '#6366F1',
     icon: '🔋',
     defaultSize: { w: 8, h: 6 },
-    areaCoefficient: 0.5
+    areaCoefficient: 0.5,
+    ioPoints: [{ side: 'left', offset: 0.5, kind: 'inout', label: 'Robot access' }]
   },
   qc: {
     key: 'qc',
@@ -270,7 +441,11 @@ export const MODULE_DEFINITIONS: Record<ModuleKey, ModuleDefinition> = {
     color: '#14B8A6',
     icon: '🔍',
     defaultSize: { w: 16, h: 10 },
-    areaCoefficient: 0.12
+    areaCoefficient: 0.12,
+    ioPoints: [
+      { side: 'left', offset: 0.5, kind: 'in', label: 'Exceptions in' },
+      { side: 'right', offset: 0.5, kind: 'out', label: 'Repacked out' }
+    ]
   },
   maintenance: {
     key: 'maintenance',
@@ -280,11 +455,13 @@ export const MODULE_DEFINITIONS: Record<ModuleKey, ModuleDefinition> = {
     color: '#64748B',
     icon: '🔧',
     defaultSize: { w: 12, h: 8 },
-    areaCoefficient: 0.3
+    areaCoefficient: 0.3,
+    ioPoints: [{ side: 'bottom', offset: 0.5, kind: 'inout', label: 'Service door' }]
   }
 }
 
-// Adjacency weights for optimization
+// Adjacency desirability between modules for optimization, in [-1, 1];
+// negative pairs should be kept apart
 export const ADJACENCY_WEIGHTS: Record<string, number> = {
   'inbound-depalletizer': 0.9,
   'depalletizer-pallet_asrs': 0.8,
@@ -298,4 +475,7 @@ export const ADJACENCY_WEIGHTS: Record<string, number> = {
   'qc-consolidation': 0.6,
   'maintenance-pallet_asrs': 0.4,
   'maintenance-tote_asrs': 0.4,
+  // Keep apart: charging robots queue away from dock traffic
+  'charging-inbound': -0.5,
+  'charging-outbound': -0.5,
 }
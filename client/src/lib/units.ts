@@ -0,0 +1,30 @@
+// Units: rules.yaml gives lengths in feet and inches, the layout works in
+// metres.  Helpers read a rules figure in metres and format lengths the way
+// findings quote them.
+
+export const FEET_TO_M = 0.3048
+export const INCH_TO_M = 0.0254
+
+// A rules figure as a number; undefined when it is missing or not a number.
+// A configured 0 is kept.
+function figure(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined
+  const n = Number(value)
+  return Number.isFinite(n) ? n : undefined
+}
+
+// A rules figure in feet as metres; `fallback` when it is missing or not a number
+export function feetOr(value: unknown, fallback: number): number {
+  const n = figure(value)
+  return n === undefined ? fallback : n * FEET_TO_M
+}
+
+// A rules figure in inches as metres; `fallback` when it is missing or not a number
+export function inchesOr(value: unknown, fallback: number): number {
+  const n = figure(value)
+  return n === undefined ? fallback : n * INCH_TO_M
+}
+
+export function metres(value: number): string {
+  return `${value.toFixed(1)} m`
+}
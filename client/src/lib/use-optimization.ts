@@ -0,0 +1,158 @@
+// Optimize / cancel / re-run actions shared by the header and the insights
+// panel.  Only one optimization runs at a time, so the active run lives at
+// module level where every caller can reach it to cancel.
+
+import { useAppStore } from './store'
+import { OptimizationMode, OptimizationRun, runOptimization } from './optimizer-runner'
+import { withKpis } from './kpi'
+import { Plan } from './types'
+
+let activeRun: OptimizationRun | null = null
+
+async function generateOptimizationSummary(originalPlan: Plan, optimizedPlan: Plan): Promise<string> {
+  const payload = {
+    original_score: originalPlan.score,
+    optimized_score: optimizedPlan.score,
+    original_blocks: originalPlan.blocks.length,
+    optimized_blocks: optimizedPlan.blocks.length,
+    improvements: {
+      travel: ((optimizedPlan.scores.travel - originalPlan.scores.travel) * 100).toFixed(1),
+      adjacency: ((optimizedPlan.scores.adj - originalPlan.scores.adj) * 100).toFixed(1),
+      safety: ((optimizedPlan.scores.safety - originalPlan.scores.safety) * 100).toFixed(1)
+    }
+  }
+
+  try {
+    const response = await fetch('http://localhost:3002/api/ai/placements', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        optimization_summary: payload,
+        request_type: 'summary'
+      })
+    })
+
+    if (response.ok) {
+      const data = await response.json()
+      return data.rationale || generateFallbackSummary(payload)
+    }
+  } catch (e) {
+    console.log('AI summary failed, using fallback')
+  }
+
+  return generateFallbackSummary(payload)
+}
+
+function generateFallbackSummary(data: any): string {
+  const scoreImprovement = ((data.optimized_score - data.original_score) * 100).toFixed(1)
+  return `✅ **Optimization Complete!**\n\n**Key Improvements:**\n• Overall efficiency increased by ${scoreImprovement}%\n• Travel distances reduced by ${Math.abs(data.improvements.travel)}%\n• Adjacency optimization improved by ${data.improvements.adjacency}%\n• Safety compliance enhanced by ${data.improvements.safety}%\n\n**Strategy Applied:**\nRelocated inbound and depalletizer closer together, positioned ASRS systems for optimal material flow, and clustered picking operations near GTP stations. The new layout reduces forklift travel time and improves overall warehouse throughput.\n\n*Select different variants in the Insights panel to compare alternatives.*`
+}
+
+export function useOptimization() {
+  const {
+    currentPlan,
+    currentRequest,
+    optimizationResult,
+    setPlan,
+    setOptimizationResult,
+    setOptimizationProgress,
+    addMessage
+  } = useAppStore()
+
+  // Optimize from `sourcePlan` (default: the current plan).  Passing the seed,
+  // mode and source plan of an earlier run reproduces that run exactly.
+  const optimize = async (opts: { seed?: number; sourcePlan?: Plan; mode?: OptimizationMode } = {}) => {
+    const originalPlan = opts.sourcePlan ?? currentPlan
+    const mode = opts.mode ?? 'anneal'
+    if (!originalPlan || activeRun) return
+    setOptimizationResult({ plans: [], selectedPlanId: undefined, isOptimizing: true, sourcePlan: originalPlan, mode })
+
+    addMessage({
+      role: 'assistant',
+      content: mode === 'pareto'
+        ? `🔄 **Trade-off Search Starting**\n\nEvolving a population of layouts${opts.seed !== undefined ? ` (seed ${opts.seed})` : ''}...\n- Travel, adjacency, safety and compactness scored separately\n- Keeping every layout no other layout beats on all four`
+        : `🔄 **Optimization Starting**\n\nSearching layout variants with simulated annealing${opts.seed !== undefined ? ` (seed ${opts.seed})` : ''}...\n- Measuring travel distances between stations\n- Evaluating adjacency relationships\n- Enforcing site bounds, obstructions and aisle clearances`,
+      type: 'optimization'
+    })
+
+    try {
+      const run = runOptimization(originalPlan, currentRequest, { mode, seed: opts.seed }, ({ bestPlan, ...progress }) =>
+        setOptimizationProgress(progress, bestPlan)
+      )
+      activeRun = run
+      const outcome = await run.promise
+
+      if (outcome.cancelled) {
+        // Keep whatever was found as variants, but leave the user's plan alone
+        setOptimizationResult({ plans: outcome.plans, selectedPlanId: undefined, isOptimizing: false, sourcePlan: originalPlan, seed: outcome.seed, mode })
+        addMessage({
+          role: 'assistant',
+          content: outcome.plans.length > 0
+            ? `⏹️ **Optimization cancelled** after ${outcome.iterationsRun} iterations. The ${outcome.plans.length} best layouts found so far are available as variants in the Insights panel.`
+            : `⏹️ **Optimization cancelled** after ${outcome.iterationsRun} iterations before a legal layout was found.`,
+          type: 'optimization'
+        })
+        return
+      }
+      if (outcome.plans.length === 0) throw new Error('Optimizer returned no plans')
+
+      if (mode === 'pareto') {
+        // No single winner: leave the current plan in place and let the user pick
+        setOptimizationResult({ plans: outcome.plans, selectedPlanId: undefined, isOptimizing: false, sourcePlan: originalPlan, seed: outcome.seed, mode })
+        addMessage({
+          role: 'assistant',
+          content: `⚖️ **Trade-off search complete** - ${outcome.plans.length} Pareto-optimal layouts found (seed ${outcome.seed}). None is better than another on every objective; pick the balance that suits you in the Insights panel's trade-off explorer.`,
+          type: 'optimization'
+        })
+        return
+      }
+
+      const improvement = outcome.initialScore > 0
+        ? (outcome.initialScore - outcome.bestScore) / outcome.initialScore
+        : 0
+      addMessage({
+        role: 'assistant',
+        content: `⚡ **Search complete** - ${outcome.plans.length} distinct layouts found, layout cost ${improvement >= 0 ? 'reduced' : 'changed'} by ${(Math.abs(improvement) * 100).toFixed(1)}% (seed ${outcome.seed})`,
+        type: 'optimization'
+      })
+
+      // Get AI summary of optimization; score the original the same way as
+      // the variants so the deltas compare like with like
+      const aiSummary = await generateOptimizationSummary(
+        withKpis(originalPlan, currentRequest),
+        outcome.plans[0]
+      )
+
+      setOptimizationResult({
+        plans: outcome.plans,
+        selectedPlanId: outcome.plans[0].id,
+        isOptimizing: false,
+        sourcePlan: originalPlan,
+        seed: outcome.seed,
+        mode
+      })
+      setPlan(outcome.plans[0]) // Adopt best plan
+
+      addMessage({
+        role: 'assistant',
+        content: aiSummary,
+        type: 'optimization'
+      })
+    } catch (e) {
+      addMessage({ role: 'assistant', content: 'Optimization failed. Please try again.', type: 'text' })
+      setOptimizationResult({ plans: [], selectedPlanId: undefined, isOptimizing: false })
+    } finally {
+      activeRun = null
+    }
+  }
+
+  const cancel = () => {
+    activeRun?.cancel()
+  }
+
+  return {
+    optimize,
+    cancel,
+    isOptimizing: !!optimizationResult?.isOptimizing
+  }
+}
@@ -0,0 +1,11 @@
+// The server's rules.yaml, fetched once and cached; undefined until it
+// arrives or when the server is unreachable, so callers fall back to their
+// defaults.
+
+import { useQuery } from '@tanstack/react-query'
+import { apiService, queryKeys } from './api'
+
+export function useRules(): Record<string, any> | undefined {
+  const { data } = useQuery({ queryKey: queryKeys.rules, queryFn: () => apiService.getRules() })
+  return data
+}
@@ -0,0 +1,34 @@
+// Keeps the store's validation result in step with the plan: the server's
+// rule engine re-checks the layout shortly after every edit.  Findings from
+// an older plan are dropped if a newer check has started.
+
+import { useEffect } from 'react'
+import { useAppStore } from './store'
+import { apiService } from './api'
+
+const VALIDATE_DELAY_MS = 600
+
+export function useValidation(): void {
+  const { currentPlan, currentRequest, setValidationResult } = useAppStore()
+  const site = currentRequest.site
+  const t = currentRequest.t
+
+  useEffect(() => {
+    if (!currentPlan) return
+    let stale = false
+    const timer = setTimeout(async () => {
+      const previous = useAppStore.getState().validationResult
+      setValidationResult({ findings: previous?.findings ?? [], rules: previous?.rules, isValidating: true })
+      try {
+        const { findings, rules } = await apiService.validate(currentPlan, site, t)
+        if (!stale) setValidationResult({ findings, rules, isValidating: false })
+      } catch (e) {
+        if (!stale) setValidationResult({ findings: [], isValidating: false, error: 'Validation service unavailable' })
+      }
+    }, VALIDATE_DELAY_MS)
+    return () => {
+      stale = true
+      clearTimeout(timer)
+    }
+  }, [currentPlan, site, t, setValidationResult])
+}
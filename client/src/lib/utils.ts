@@ -105,6 +105,19 @@ export function getBgColorForScore(score: number): string {
   return 'bg-safety-100'
 }
 
+// Trigger a browser download of in-memory content
+export function downloadFile(content: string | Blob, filename: string, mimeType = 'application/octet-stream'): void {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
 export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms))
 }
@@ -0,0 +1,38 @@
+// Truck profiles per forklift class: the dimensions that decide whether a
+// truck can turn where the layout asks it to.  Defaults mirror
+// vehicle_profiles in rules.yaml.
+
+import { ForkliftClass } from './types'
+import { FEET_TO_M, feetOr } from './units'
+
+export interface VehicleProfile {
+  name: string
+  lengthM: number // overall, with a pallet on the forks
+  widthM: number
+  turningRadiusM: number // outside turning radius of the truck
+}
+
+export const FORKLIFT_CLASSES: ForkliftClass[] = ['WA', 'NA', 'VNA']
+
+export const DEFAULT_VEHICLE_PROFILES: Record<ForkliftClass, VehicleProfile> = {
+  WA: { name: 'Counterbalance truck', lengthM: 12 * FEET_TO_M, widthM: 3.8 * FEET_TO_M, turningRadiusM: 7.5 * FEET_TO_M },
+  NA: { name: 'Reach truck', lengthM: 8.5 * FEET_TO_M, widthM: 3.6 * FEET_TO_M, turningRadiusM: 5.5 * FEET_TO_M },
+  VNA: { name: 'Turret truck', lengthM: 14 * FEET_TO_M, widthM: 5.2 * FEET_TO_M, turningRadiusM: 9.5 * FEET_TO_M },
+}
+
+// Configured profiles fall back to the defaults per class and per field
+export function vehicleProfilesFromRules(rules?: Record<string, any>): Record<ForkliftClass, VehicleProfile> {
+  const configured = rules?.vehicle_profiles || {}
+  const profiles = {} as Record<ForkliftClass, VehicleProfile>
+  for (const forklift of FORKLIFT_CLASSES) {
+    const p = configured[forklift] || {}
+    const d = DEFAULT_VEHICLE_PROFILES[forklift]
+    profiles[forklift] = {
+      name: typeof p.name === 'string' ? p.name : d.name,
+      lengthM: feetOr(p.length, d.lengthM),
+      widthM: feetOr(p.width, d.widthM),
+      turningRadiusM: feetOr(p.turning_radius, d.turningRadiusM),
+    }
+  }
+  return profiles
+}
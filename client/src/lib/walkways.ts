@@ -0,0 +1,215 @@
+// Pedestrian walkways: corridors along polylines, checked for width,
+// clearance from equipment and where they cross or run along forklift
+// aisles.  Crossings are weighted by the site's pedestrian density.  Limits
+// default to pedestrian_areas in rules.yaml.
+
+import { Block, MODULE_DEFINITIONS, ModuleKey, Plan, Request, RuleFinding, Site, Walkway } from './types'
+import { aabbOverlap, RectM, rectGap } from './grid'
+import { Point } from './routing'
+import { FEET_TO_M, feetOr, metres } from './units'
+
+const EPS = 1e-6
+
+export interface WalkwayLimits {
+  minWidthM: number // unmarked walkways
+  markedWidthM: number // marked walkways
+  clearanceM: number // from equipment
+}
+
+export const DEFAULT_WALKWAY_LIMITS: WalkwayLimits = {
+  minWidthM: 4 * FEET_TO_M,
+  markedWidthM: 3 * FEET_TO_M,
+  clearanceM: 2 * FEET_TO_M,
+}
+
+// Walkways drawn without a width get the unmarked minimum
+export const DEFAULT_WALKWAY_WIDTH_M = DEFAULT_WALKWAY_LIMITS.minWidthM
+
+export function walkwayLimitsFromRules(rules?: Record<string, any>): WalkwayLimits {
+  const pedestrian = rules?.pedestrian_areas || {}
+  const d = DEFAULT_WALKWAY_LIMITS
+  return {
+    minWidthM: feetOr(pedestrian.min_walkway_width, d.minWidthM),
+    markedWidthM: feetOr(pedestrian.marked_walkway_width, d.markedWidthM),
+    clearanceM: feetOr(pedestrian.clearance_from_equipment, d.clearanceM),
+  }
+}
+
+// How much a crossing counts for at each pedestrian density
+export const DENSITY_WEIGHTS: Record<Site['pedestrianDensity'], number> = { low: 1, med: 2, high: 3 }
+
+export function walkwayWidth(walkway: Walkway): number {
+  return walkway.widthM ?? DEFAULT_WALKWAY_WIDTH_M
+}
+
+export function requiredWalkwayWidth(walkway: Walkway, limits: WalkwayLimits = DEFAULT_WALKWAY_LIMITS): number {
+  return walkway.marked ? limits.markedWidthM : limits.minWidthM
+}
+
+export function walkwayLength(walkway: Walkway): number {
+  let length = 0
+  for (let i = 1; i < walkway.polyline.length; i++) {
+    const [x0, y0] = walkway.polyline[i - 1]
+    const [x1, y1] = walkway.polyline[i]
+    length += Math.hypot(x1 - x0, y1 - y0)
+  }
+  return length
+}
+
+// The corridor of each segment, as PathMask.addPolyline reserves it
+export function walkwayRects(walkway: Walkway): RectM[] {
+  const half = walkwayWidth(walkway) / 2
+  const rects: RectM[] = []
+  for (let i = 1; i < walkway.polyline.length; i++) {
+    const [x0, y0] = walkway.polyline[i - 1]
+    const [x1, y1] = walkway.polyline[i]
+    const x = Math.min(x0, x1) - half
+    const y = Math.min(y0, y1) - half
+    rects.push({ x, y, w: Math.abs(x1 - x0) + 2 * half, h: Math.abs(y1 - y0) + 2 * half })
+  }
+  return rects
+}
+
+// Snap a point so the segment from `from` runs straight across or down
+export function orthogonalPoint(from: Point, to: Point): Point {
+  return Math.abs(to.x - from.x) >= Math.abs(to.y - from.y) ? { x: to.x, y: from.y } : { x: from.x, y: to.y }
+}
+
+// Part of the segment p0-p1 inside a rectangle (Liang-Barsky), or undefined
+function clipSegment(p0: Point, p1: Point, r: RectM): [Point, Point] | undefined {
+  const dx = p1.x - p0.x
+  const dy = p1.y - p0.y
+  let t0 = 0
+  let t1 = 1
+  const edges: Array<[number, number]> = [
+    [-dx, p0.x - r.x], [dx, r.x + r.w - p0.x],
+    [-dy, p0.y - r.y], [dy, r.y + r.h - p0.y],
+  ]
+  for (const [p, q] of edges) {
+    if (Math.abs(p) < EPS) {
+      if (q < 0) return undefined
+      continue
+    }
+    const t = q / p
+    if (p < 0) t0 = Math.max(t0, t)
+    else t1 = Math.min(t1, t)
+    if (t0 > t1) return undefined
+  }
+  return [
+    { x: p0.x + t0 * dx, y: p0.y + t0 * dy },
+    { x: p0.x + t1 * dx, y: p0.y + t1 * dy },
+  ]
+}
+
+export interface WalkwayCrossing {
+  walkway: number // index into plan.walkways
+  aisleId: string
+  at: Point // middle of the crossing (m)
+}
+
+export interface WalkwaySummary {
+  index: number
+  lengthM: number
+  widthM: number
+  requiredWidthM: number
+  crossings: number
+  sharedM: number // length run along inside a forklift aisle
+}
+
+export interface WalkwayReport {
+  walkways: WalkwaySummary[]
+  crossings: WalkwayCrossing[]
+  density: Site['pedestrianDensity']
+  weightedCrossings: number
+  findings: RuleFinding[]
+}
+
+const moduleName = (block: Block) => MODULE_DEFINITIONS[block.key as ModuleKey]?.name ?? block.key
+
+// Width, equipment clearance and aisle crossings of every walkway in a plan
+export function checkWalkways(plan: Plan, request: Partial<Request>, limits: WalkwayLimits = DEFAULT_WALKWAY_LIMITS): WalkwayReport {
+  const density = request.site?.pedestrianDensity ?? 'med'
+  const weight = DENSITY_WEIGHTS[density]
+  const equipment = plan.blocks.filter(b => b.key !== 'aisle')
+  const aisles = plan.blocks.filter(b => b.key === 'aisle')
+  const summaries: WalkwaySummary[] = []
+  const crossings: WalkwayCrossing[] = []
+  const findings: RuleFinding[] = []
+  const flag = (finding: Pick<RuleFinding, 'id' | 'message' | 'suggestion' | 'blockId'>) =>
+    findings.push({ type: 'warning', rule: 'pedestrian_safety', ...finding })
+
+  ;(plan.walkways ?? []).forEach((walkway, index) => {
+    const name = `Walkway ${index + 1}`
+    const widthM = walkwayWidth(walkway)
+    const requiredWidthM = requiredWalkwayWidth(walkway, limits)
+    const rects = walkwayRects(walkway)
+
+    if (widthM < requiredWidthM - EPS) {
+      flag({
+        id: `width-${index}`,
+        message: `${name} is ${metres(widthM)} wide, ${metres(requiredWidthM)} needed`,
+        suggestion: walkway.marked ? 'Marked walkways need the marked minimum' : 'Widen it, or mark it to use the marked minimum',
+      })
+    }
+
+    // Closest approach of the corridor to each piece of equipment
+    for (const block of equipment) {
+      const gap = Math.min(...rects.map(r => rectGap(r, block)))
+      if (gap >= limits.clearanceM - EPS) continue
+      const through = rects.some(r => aabbOverlap(r, block, EPS))
+      flag({
+        id: `clearance-${index}-${block.id}`,
+        blockId: block.id,
+        message: through
+          ? `${name} runs through ${moduleName(block)}`
+          : `${name} passes ${metres(gap)} from ${moduleName(block)}`,
+        suggestion: `Keep ${metres(limits.clearanceM)} between walkways and equipment`,
+      })
+    }
+
+    // Segments across an aisle are crossings; segments along one share it
+    let count = 0
+    let sharedM = 0
+    for (let i = 1; i < walkway.polyline.length; i++) {
+      const p0 = { x: walkway.polyline[i - 1][0], y: walkway.polyline[i - 1][1] }
+      const p1 = { x: walkway.polyline[i][0], y: walkway.polyline[i][1] }
+      const across = Math.abs(p1.x - p0.x) >= Math.abs(p1.y - p0.y)
+      for (const aisle of aisles) {
+        const inside = clipSegment(p0, p1, aisle)
+        if (!inside) continue
+        const length = Math.hypot(inside[1].x - inside[0].x, inside[1].y - inside[0].y)
+        if (length < EPS) continue
+        const aisleAcross = aisle.w >= aisle.h
+        if (across !== aisleAcross) {
+          count++
+          crossings.push({
+            walkway: index,
+            aisleId: aisle.id,
+            at: { x: (inside[0].x + inside[1].x) / 2, y: (inside[0].y + inside[1].y) / 2 },
+          })
+        } else {
+          sharedM += length
+        }
+      }
+    }
+
+    if (count > 0) {
+      flag({
+        id: `crossings-${index}`,
+        message: `${name} crosses forklift aisles ${count} time${count === 1 ? '' : 's'}`,
+        suggestion: `Weighs ${count * weight} at ${density} pedestrian density; mark the crossings or reroute it`,
+      })
+    }
+    if (sharedM > EPS) {
+      flag({
+        id: `shared-${index}`,
+        message: `${name} runs ${metres(sharedM)} inside forklift aisles`,
+        suggestion: 'Pedestrians share the aisle with trucks there; move it beside the aisle',
+      })
+    }
+
+    summaries.push({ index, lengthM: walkwayLength(walkway), widthM, requiredWidthM, crossings: count, sharedM })
+  })
+
+  return { walkways: summaries, crossings, density, weightedCrossings: crossings.length * weight, findings }
+}
@@ -0,0 +1,184 @@
+// Emergency egress: the shortest walk from every walkable floor cell to the
+// nearest exit, checked against the maximum travel distance, and the floor
+// too narrow for the egress width.  While no exits are placed, any stretch of
+// exterior wall counts as one.  Mirrors computeEgress in
+// client/src/lib/egress.ts so the egress card and validation agree.
+
+import { buildGrid, createHeap } from './routing.js';
+
+const FEET_TO_METERS = 0.3048;
+const INCH_TO_METERS = 0.0254;
+// Finer than the routing grid so that gaps close to the egress width are
+// told apart; same as EGRESS_CELL_M on the client
+export const EGRESS_CELL_M = 0.25;
+const STEPS = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, Math.SQRT2], [1, -1, Math.SQRT2], [-1, 1, Math.SQRT2], [-1, -1, Math.SQRT2],
+];
+
+// A rules figure, or `fallback` when it is missing or not a number
+function figureOr(value, fallback) {
+  if (value === null || value === undefined || value === '') return fallback;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+export function egressLimitsFromRules(rules) {
+  const safety = rules?.safety_clearances || {};
+  return {
+    maxTravelM: figureOr(safety.max_travel_distance, 200.0) * FEET_TO_METERS,
+    egressWidthM: figureOr(safety.emergency_egress_width, 44.0) * INCH_TO_METERS,
+  };
+}
+
+// Zones of 4-connected cells where `inZone` holds, each with its bounds, cell
+// count and worst value; mirrors cellZones in client/src/lib/grid.ts
+function cellZones(cols, rows, cellSize, inZone, value, worse) {
+  const seen = new Uint8Array(cols * rows);
+  const found = [];
+  for (let start = 0; start < seen.length; start++) {
+    if (seen[start] || !inZone(start)) continue;
+    seen[start] = 1;
+    const stack = [start];
+    let c0 = cols, r0 = rows, c1 = -1, r1 = -1;
+    let worst = value(start);
+    let cells = 0;
+    while (stack.length > 0) {
+      const node = stack.pop();
+      const c = node % cols;
+      const r = Math.floor(node / cols);
+      c0 = Math.min(c0, c); c1 = Math.max(c1, c);
+      r0 = Math.min(r0, r); r1 = Math.max(r1, r);
+      if (worse(value(node), worst)) worst = value(node);
+      cells++;
+      for (const [nc, nr] of [[c + 1, r], [c - 1, r], [c, r + 1], [c, r - 1]]) {
+        if (nc < 0 || nr < 0 || nc >= cols || nr >= rows) continue;
+        const next = nr * cols + nc;
+        if (seen[next] || !inZone(next)) continue;
+        seen[next] = 1;
+        stack.push(next);
+      }
+    }
+    const bounds = { x: c0 * cellSize, y: r0 * cellSize, w: (c1 - c0 + 1) * cellSize, h: (r1 - r0 + 1) * cellSize };
+    found.push({ bounds, cells, worst });
+  }
+  return found;
+}
+
+// Both ends of an exit's opening along its wall, in metres from the corner
+function exitSpan(exit) {
+  const half = exit.widthM / 2;
+  return [exit.offset - half, exit.offset + half];
+}
+
+// Egress over the blocks and obstacles of a site rectangle.  Returns the
+// distance raster, the far and narrow zones (worst first), the ids of exits
+// with no floor in front of them, and whether distances run to the walls.
+export function computeEgress({ movable, site, obstacles, exits, limits }) {
+  const cs = EGRESS_CELL_M;
+  const grid = buildGrid(site, [...obstacles, ...movable], cs);
+  const { cols, rows } = grid;
+  const floor = (c, r) => !grid.blocked(c, r);
+
+  // Width of the floor through each cell: the shorter of its horizontal and
+  // vertical runs of walkable cells
+  const across = new Float32Array(cols * rows);
+  const down = new Float32Array(cols * rows);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; ) {
+      if (!floor(c, r)) { c++; continue; }
+      let end = c;
+      while (end < cols && floor(end, r)) end++;
+      for (let k = c; k < end; k++) across[r * cols + k] = (end - c) * cs;
+      c = end;
+    }
+  }
+  for (let c = 0; c < cols; c++) {
+    for (let r = 0; r < rows; ) {
+      if (!floor(c, r)) { r++; continue; }
+      let end = r;
+      while (end < rows && floor(c, end)) end++;
+      for (let k = r; k < end; k++) down[k * cols + c] = (end - r) * cs;
+      r = end;
+    }
+  }
+  const narrow = new Uint8Array(cols * rows);
+  for (let i = 0; i < narrow.length; i++) {
+    if (across[i] > 0 && Math.min(across[i], down[i]) < limits.egressWidthM - 1e-6) narrow[i] = 1;
+  }
+
+  // Dijkstra from the floor cells along every exit opening; diagonal steps
+  // may not cut a corner
+  const distance = new Float64Array(cols * rows).fill(Infinity);
+  for (let r = 0; r < rows; r++) for (let c = 0; c < cols; c++) if (!floor(c, r)) distance[r * cols + c] = -1;
+  const { push, pop, size } = createHeap();
+  const seed = (c, r) => {
+    const node = r * cols + c;
+    distance[node] = cs / 2;
+    push(cs / 2, node);
+  };
+  // Without exits, every floor cell along the walls
+  if (exits.length === 0) {
+    for (let c = 0; c < cols; c++) {
+      if (floor(c, 0)) seed(c, 0);
+      if (rows > 1 && floor(c, rows - 1)) seed(c, rows - 1);
+    }
+    for (let r = 1; r < rows - 1; r++) {
+      if (floor(0, r)) seed(0, r);
+      if (cols > 1 && floor(cols - 1, r)) seed(cols - 1, r);
+    }
+  }
+
+  // Floor cells along each opening; an exit with none is blocked off
+  const span = (lo, hi, n) => [Math.max(0, Math.floor(lo / cs)), Math.min(n - 1, Math.ceil(hi / cs) - 1)];
+  const blockedExits = [];
+  for (const exit of exits) {
+    const [lo, hi] = exitSpan(exit);
+    const horizontal = exit.side === 'top' || exit.side === 'bottom';
+    const [from, to] = horizontal ? span(lo, hi, cols) : span(lo, hi, rows);
+    const line = exit.side === 'top' || exit.side === 'left' ? 0 : (horizontal ? rows : cols) - 1;
+    let open = false;
+    for (let k = from; k <= to; k++) {
+      const [c, r] = horizontal ? [k, line] : [line, k];
+      if (!floor(c, r)) continue;
+      open = true;
+      seed(c, r);
+    }
+    if (!open) blockedExits.push(exit.id);
+  }
+
+  while (size() > 0) {
+    const [d, node] = pop();
+    if (d > distance[node]) continue;
+    const c = node % cols;
+    const r = (node - c) / cols;
+    for (const [dc, dr, cost] of STEPS) {
+      const nc = c + dc;
+      const nr = r + dr;
+      if (!floor(nc, nr)) continue;
+      if (dc !== 0 && dr !== 0 && (!floor(c + dc, r) || !floor(c, r + dr))) continue;
+      const next = nr * cols + nc;
+      const nd = d + cost * cs;
+      if (nd < distance[next]) {
+        distance[next] = nd;
+        push(nd, next);
+      }
+    }
+  }
+
+  let maxDistance = 0;
+  const far = new Uint8Array(cols * rows);
+  for (let i = 0; i < distance.length; i++) {
+    const d = distance[i];
+    if (d < 0) continue;
+    if (d !== Infinity) maxDistance = Math.max(maxDistance, d);
+    if (d > limits.maxTravelM) far[i] = 1;
+  }
+
+  const farZones = cellZones(cols, rows, cs, i => far[i] === 1, i => distance[i], (a, b) => a > b)
+    .sort((a, b) => b.worst - a.worst);
+  const narrowZones = cellZones(cols, rows, cs, i => narrow[i] === 1, i => Math.min(across[i], down[i]), (a, b) => a < b)
+    .sort((a, b) => a.worst - b.worst);
+
+  return { cellSize: cs, cols, rows, distance, limits, maxDistance, farZones, narrowZones, blockedExits, toWalls: exits.length === 0 };
+}
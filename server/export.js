@@ -0,0 +1,177 @@
+// Plan exporters.  Each exporter turns a `Plan` (blocks in metres with a
+// top-left origin, as used by the canvas) into a downloadable document.
+// CAD formats flip the Y axis so the layout reads the same way up in a
+// drawing package as it does in the browser.
+
+// Fill colours per block key, mirroring MODULE_DEFINITIONS on the client
+const BLOCK_COLORS = {
+  pallet_asrs: '#3B82F6',
+  tote_asrs: '#10B981',
+  gtp: '#F59E0B',
+  picking: '#EF4444',
+  consolidation: '#8B5CF6',
+  palletizer: '#06B6D4',
+  depalletizer: '#84CC16',
+  inbound: '#F97316',
+  outbound: '#EC4899',
+  charging: '#6366F1',
+  qc: '#14B8A6',
+  maintenance: '#64748B',
+  aisle: '#E5E7EB',
+  dock: '#94A3B8'
+};
+
+// AutoCAD Color Index used for the DXF layer of each block key
+const BLOCK_ACI = {
+  pallet_asrs: 5,
+  tote_asrs: 3,
+  gtp: 2,
+  picking: 1,
+  consolidation: 6,
+  palletizer: 4,
+  depalletizer: 3,
+  inbound: 30,
+  outbound: 210,
+  charging: 170,
+  qc: 130,
+  maintenance: 8,
+  aisle: 9,
+  dock: 8
+};
+
+function round(value, decimals = 3) {
+  const f = Math.pow(10, decimals);
+  return Math.round(value * f) / f;
+}
+
+function planBlocks(plan) {
+  return Array.isArray(plan?.blocks) ? plan.blocks : [];
+}
+
+// Extent of all blocks, anchored at the origin so site coordinates are kept
+function planExtent(plan) {
+  return planBlocks(plan).reduce((acc, b) => ({
+    maxX: Math.max(acc.maxX, b.x + b.w),
+    maxY: Math.max(acc.maxY, b.y + b.h)
+  }), { maxX: 0, maxY: 0 });
+}
+
+function csvCell(value) {
+  const s = String(value ?? '');
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function escapeXml(value) {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toJson(plan) {
+  return JSON.stringify(plan, null, 2);
+}
+
+// Block schedule: one row per block with its footprint in metres
+function toCsv(plan) {
+  const rows = [['id', 'key', 'x', 'y', 'w', 'h', 'area']];
+  planBlocks(plan).forEach(b => {
+    rows.push([b.id, b.key, round(b.x), round(b.y), round(b.w), round(b.h), round(b.w * b.h, 2)]);
+  });
+  return rows.map(r => r.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+// SVG drawn in metre units via the viewBox; 1 m renders as 10 px by default
+function toSvg(plan) {
+  const margin = 2;
+  const { maxX, maxY } = planExtent(plan);
+  const w = maxX + margin * 2;
+  const h = maxY + margin * 2;
+  const parts = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${round(w * 10, 1)}" height="${round(h * 10, 1)}" viewBox="${-margin} ${-margin} ${round(w)} ${round(h)}">`,
+    `  <title>${escapeXml(plan?.id || 'plan')}</title>`,
+    `  <rect x="0" y="0" width="${round(maxX)}" height="${round(maxY)}" fill="#F1F5F9" stroke="#CBD5E1" stroke-width="0.2"/>`
+  ];
+  planBlocks(plan).forEach(b => {
+    const fill = BLOCK_COLORS[b.key] || '#94A3B8';
+    parts.push(`  <g id="${escapeXml(b.id)}" data-key="${escapeXml(b.key)}">`);
+    parts.push(`    <rect x="${round(b.x)}" y="${round(b.y)}" width="${round(b.w)}" height="${round(b.h)}" fill="${fill}" fill-opacity="0.35" stroke="${fill}" stroke-width="0.15"/>`);
+    parts.push(`    <text x="${round(b.x + 0.5)}" y="${round(b.y + 1.5)}" font-family="Inter, sans-serif" font-size="1.2" fill="#1F2937">${escapeXml(b.key)}</text>`);
+    parts.push('  </g>');
+  });
+  parts.push('</svg>');
+  return parts.join('\n') + '\n';
+}
+
+// Minimal AutoCAD R12 ASCII DXF: one layer per block key, each block as a
+// closed outline of LINE entities plus a TEXT label.  Units are metres; R12
+// has no $INSUNITS header variable to say so.
+function toDxf(plan) {
+  const { maxY } = planExtent(plan);
+  const flipY = y => round(maxY - y);
+  const out = [];
+  const pair = (code, value) => { out.push(String(code), String(value)); };
+
+  const blocks = planBlocks(plan);
+  const layers = [...new Set(blocks.map(b => b.key))];
+
+  pair(0, 'SECTION'); pair(2, 'HEADER');
+  pair(9, '$ACADVER'); pair(1, 'AC1009');
+  pair(0, 'ENDSEC');
+
+  pair(0, 'SECTION'); pair(2, 'TABLES');
+  pair(0, 'TABLE'); pair(2, 'LAYER'); pair(70, layers.length);
+  layers.forEach(layer => {
+    pair(0, 'LAYER'); pair(2, layer.toUpperCase()); pair(70, 0);
+    pair(62, BLOCK_ACI[layer] || 7); pair(6, 'CONTINUOUS');
+  });
+  pair(0, 'ENDTAB');
+  pair(0, 'ENDSEC');
+
+  pair(0, 'SECTION'); pair(2, 'ENTITIES');
+  blocks.forEach(b => {
+    const layer = b.key.toUpperCase();
+    const corners = [
+      [b.x, b.y], [b.x + b.w, b.y], [b.x + b.w, b.y + b.h], [b.x, b.y + b.h]
+    ];
+    corners.forEach(([x0, y0], i) => {
+      const [x1, y1] = corners[(i + 1) % corners.length];
+      pair(0, 'LINE'); pair(8, layer);
+      pair(10, round(x0)); pair(20, flipY(y0)); pair(30, 0);
+      pair(11, round(x1)); pair(21, flipY(y1)); pair(31, 0);
+    });
+    pair(0, 'TEXT'); pair(8, layer);
+    pair(10, round(b.x + 0.5)); pair(20, flipY(b.y + 1.5)); pair(30, 0);
+    pair(40, 1.0); pair(1, b.id);
+  });
+  pair(0, 'ENDSEC');
+  pair(0, 'EOF');
+  return out.join('\n') + '\n';
+}
+
+export const EXPORT_FORMATS = {
+  json: { extension: 'json', mimeType: 'application/json', render: toJson },
+  csv: { extension: 'csv', mimeType: 'text/csv', render: toCsv },
+  svg: { extension: 'svg', mimeType: 'image/svg+xml', render: toSvg },
+  dxf: { extension: 'dxf', mimeType: 'application/dxf', render: toDxf }
+};
+
+// Render `plan` in the requested format.  Throws on unknown formats or a
+// plan without blocks so the endpoint can answer with a 400.
+export function exportPlan(plan, format) {
+  const spec = EXPORT_FORMATS[String(format || '').toLowerCase()];
+  if (!spec) {
+    throw new Error(`Unsupported export format: ${format}. Expected one of ${Object.keys(EXPORT_FORMATS).join(', ')}`);
+  }
+  if (!plan || !Array.isArray(plan.blocks)) {
+    throw new Error('A plan with blocks is required for export');
+  }
+  const safeId = String(plan.id || 'plan').replace(/[^a-zA-Z0-9_-]+/g, '-');
+  return {
+    filename: `${safeId}.${spec.extension}`,
+    mimeType: spec.mimeType,
+    content: spec.render(plan)
+  };
+}
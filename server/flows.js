@@ -0,0 +1,53 @@
+// Material flow model: moves/hour between blocks derived from throughput
+// along the standard process chain.  Mirrors client/src/lib/flows.ts.
+
+// Upstream first; rateOut is the throughput figure that leaves each stage
+const FLOW_CHAIN = [
+  { modules: ['inbound'], rateOut: 'palletsInPerH' },
+  { modules: ['depalletizer'], rateOut: 'palletsInPerH' },
+  { modules: ['pallet_asrs', 'tote_asrs'], rateOut: 'totesPerH' },
+  { modules: ['gtp', 'picking'], rateOut: 'ordersPerH' },
+  { modules: ['consolidation'], rateOut: 'ordersPerH' },
+  { modules: ['palletizer'], rateOut: 'palletsOutPerH' },
+  { modules: ['outbound'] },
+];
+
+export function deriveFlowMatrix(blocks, throughput, modules = {}) {
+  const flows = {};
+  if (!throughput) return flows;
+  const stages = FLOW_CHAIN
+    .map(stage => ({ stage, blocks: blocks.filter(b => stage.modules.includes(b.key) && modules[b.key] !== false) }))
+    .filter(s => s.blocks.length > 0);
+
+  for (let i = 0; i < stages.length - 1; i++) {
+    const from = stages[i];
+    const to = stages[i + 1];
+    const rate = from.stage.rateOut ? throughput[from.stage.rateOut] || 0 : 0;
+    const share = rate / (from.blocks.length * to.blocks.length);
+    if (share <= 0) continue;
+    for (const a of from.blocks) {
+      for (const b of to.blocks) {
+        if (a.id === b.id) continue;
+        flows[a.id] = flows[a.id] || {};
+        flows[a.id][b.id] = (flows[a.id][b.id] || 0) + share;
+      }
+    }
+  }
+  return flows;
+}
+
+// Derived flows with the plan's hand-edited cells on top; undefined when
+// there is no flow at all
+export function buildFlowMatrix(blocks, throughput, modules, overrides) {
+  const flows = deriveFlowMatrix(blocks, throughput, modules);
+  const ids = new Set(blocks.map(b => b.id));
+  for (const [from, row] of Object.entries(overrides || {})) {
+    for (const [to, moves] of Object.entries(row)) {
+      if (!ids.has(from) || !ids.has(to) || from === to) continue;
+      flows[from] = flows[from] || {};
+      flows[from][to] = Math.max(0, moves);
+    }
+  }
+  const total = Object.values(flows).reduce((sum, row) => sum + Object.values(row).reduce((a, v) => a + v, 0), 0);
+  return total > 0 ? flows : undefined;
+}
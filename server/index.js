@@ -5,6 +5,10 @@ import yaml from 'yaml';
 import OpenAI from 'openai';
 import { z } from 'zod';
 import { zodResponseFormat } from 'openai/helpers/zod';
+import { exportPlan } from './export.js';
+import { listProjects, loadProject, saveProject, deleteProject } from './projects.js';
+import { computeKpis, layoutBreach, siteRect } from './kpi.js';
+import { validatePlan } from './validation.js';
 
 // Initialise the Express application
 const app = express();
@@ -16,8 +20,9 @@ const openai = new OpenAI({
 
 // Enable JSON body parsing and allow cross‑origin requests so the
 // browser client can access the API while running on a different port.
+// Saved projects carry plans, variants and chat history, hence the limit.
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '5mb' }));
 
 // Load rules from the YAML file.  These rules can be tweaked in
 // `server/rules.yaml` without changing code.  If the file is missing
@@ -42,6 +47,7 @@ const BlockSchema = z.object({
   y: z.number(),
   w: z.number(),
   h: z.number(),
+  rot: z.union([z.literal(0), z.literal(90), z.literal(180), z.literal(270)]).optional(),
   meta: z.object({
     kpis: z.record(z.any())
   }).optional()
@@ -62,7 +68,8 @@ const PlanSchema = z.object({
   walkways: z.array(z.any()),
   score: z.number().min(0).max(1),
   scores: ScoresSchema,
-  ruleFindings: z.array(z.any())
+  ruleFindings: z.array(z.any()),
+  flowOverrides: z.record(z.record(z.number())).optional()
 });
 
 // Schema for validation findings
@@ -70,7 +77,20 @@ const FindingSchema = z.object({
   id: z.string(),
   type: z.enum(['info', 'warning', 'error']),
   message: z.string(),
-  suggestion: z.string()
+  suggestion: z.string(),
+  rule: z.string().optional(),
+  citation: z.string().optional(),
+  blockId: z.string().optional()
+});
+
+// Schema for the per-rule outcome of a validation run
+const RuleSummarySchema = z.object({
+  rule: z.string(),
+  description: z.string(),
+  severity: z.enum(['info', 'warning', 'error']),
+  citation: z.string().optional(),
+  checked: z.boolean(),
+  findings: z.number()
 });
 
 // Schema for chat response - the main structured output for OpenAI
@@ -104,7 +124,8 @@ const OptimizationResponseSchema = z.object({
 
 // Schema for validation response
 const ValidationResponseSchema = z.object({
-  findings: z.array(FindingSchema)
+  findings: z.array(FindingSchema),
+  rules: z.array(RuleSummarySchema)
 });
 
 // Schema for AI placement suggestion (Structured Output)
@@ -212,14 +233,14 @@ function generateInitialPlanTool({ request }) {
     cursorX += dims.w + margin;
   });
 
-  // Basic scoring stub
-  const scores = { travel: 0.8, adj: 0.75, safety: 0.9, compact: 0.78 };
-  const score = (scores.travel + scores.adj + scores.safety + scores.compact) / 4;
+  // Score the layout from its geometry and the throughput's material flows
+  const walkways = [];
+  const { scores, score } = computeKpis(blocks, site, { throughput: request?.t, modules, adjacency: request?.adjacency, walkways });
 
   const plan = {
     id: `plan-${Date.now()}`,
     blocks,
-    walkways: [],
+    walkways,
     score,
     scores,
     ruleFindings: []
@@ -235,76 +256,118 @@ function generateInitialPlanTool({ request }) {
   };
 }
 
-// Produce three simple variants by shifting blocks slightly and re-scoring
-function optimizePlanTool({ plan, weights }) {
-  console.log('⚡ optimizePlanTool called for plan:', plan?.id, 'with weights:', weights);
-  const makeVariant = (basePlan, label, offset) => {
-    const blocks = basePlan.blocks.map(b =>
-      b.key === 'aisle' ? b : { ...b, x: Math.max(0, b.x + offset), y: Math.max(0, b.y + (offset % 3)) }
-    );
-    const scores = {
-      travel: Math.max(0, Math.min(1, basePlan.scores.travel - offset * 0.005)),
-      adj: Math.max(0, Math.min(1, basePlan.scores.adj + offset * 0.004)),
-      safety: Math.max(0, Math.min(1, basePlan.scores.safety - offset * 0.002)),
-      compact: Math.max(0, Math.min(1, basePlan.scores.compact + offset * 0.003))
-    };
-    const score = Object.keys(scores).reduce((acc, k) => acc + scores[k], 0) / 4;
-    return { ...basePlan, id: label, blocks, scores, score };
+// Weighted mean of the KPI scores; ranks optimization variants without
+// replacing their computeKpis `score`
+function weightedScore(scores, weights) {
+  const w = {
+    travel: weights?.travel ?? 1,
+    adj: weights?.adj ?? weights?.adjacency ?? 1,
+    safety: weights?.safety ?? 1,
+    compact: weights?.compact ?? weights?.compactness ?? 1,
   };
+  const total = w.travel + w.adj + w.safety + w.compact;
+  if (!(total > 0)) return (scores.travel + scores.adj + scores.safety + scores.compact) / 4;
+  return (scores.travel * w.travel + scores.adj * w.adj + scores.safety * w.safety + scores.compact * w.compact) / total;
+}
 
-  const variants = [
-    makeVariant(plan, 'optimized-a', 1),
-    makeVariant(plan, 'optimized-b', -1),
-    makeVariant(plan, 'optimized-c', 2)
-  ];
-
-  // If weights provided, re-rank by weighted sum
-  if (weights && typeof weights === 'object') {
-    variants.forEach(v => {
-      const { travel = 1, adjacency = 1, safety = 1, compactness = 1 } = weights;
-      v.score = (
-        v.scores.travel * travel +
-        v.scores.adj * (weights.adj ?? adjacency) +
-        v.scores.safety * safety +
-        v.scores.compact * (weights.compact ?? compactness)
-      ) / (travel + (weights.adj ?? adjacency) + safety + (weights.compact ?? compactness));
+const SEARCH_STEPS_M = [2, 1, 0.5];
+const LEGALIZE_STEP_M = 1;
+const SEARCH_MAX_PASSES = 40;
+const SEARCH_REACH = [1, 2, 4, 8];
+const SEARCH_MOVES = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+const moveBlock = (blocks, i, x, y) => blocks.map((b, j) => j === i ? { ...b, x, y } : b);
+
+// Relocate blocks until the layout is legal: each pass puts the one block,
+// anywhere on a 1 m grid over the site, that shrinks the breach area most.
+// Returns the layout reached, legal or not.
+function legalizeLayout(blocks, site, breachOf) {
+  const rect = siteRect(site, blocks);
+  let current = blocks;
+  let breach = breachOf(current);
+  for (let pass = 0; pass < SEARCH_MAX_PASSES && breach > 0; pass++) {
+    let best = null;
+    current.forEach((b, i) => {
+      if (b.key === 'aisle') return;
+      for (let y = rect.y; y + b.h <= rect.y + rect.h; y += LEGALIZE_STEP_M) {
+        for (let x = rect.x; x + b.w <= rect.x + rect.w; x += LEGALIZE_STEP_M) {
+          const moved = moveBlock(current, i, x, y);
+          const area = breachOf(moved);
+          if (area < (best?.breach ?? breach) - 1e-9) best = { blocks: moved, breach: area };
+        }
+      }
     });
-    variants.sort((a, b) => b.score - a.score);
+    if (!best) break;
+    current = best.blocks;
+    breach = best.breach;
   }
+  return current;
+}
 
-  console.log('🔄 Generated', variants.length, 'optimized variants with scores:', variants.map(v => v.score.toFixed(3)).join(', '));
-  return { plans: variants };
+// Hill-climb the non-aisle blocks of a legal layout on a `step` metre grid:
+// each pass tries every block 1 to 8 steps in each direction and keeps the
+// legal move that raises the weighted score most; stops when none does.
+function improveLayout(blocks, step, evaluate, isLegal) {
+  let current = { blocks, ...evaluate(blocks) };
+  for (let pass = 0; pass < SEARCH_MAX_PASSES; pass++) {
+    let best = current;
+    current.blocks.forEach((b, i) => {
+      if (b.key === 'aisle') return;
+      for (const reach of SEARCH_REACH) {
+        for (const [dx, dy] of SEARCH_MOVES) {
+          const moved = moveBlock(current.blocks, i, b.x + dx * reach * step, b.y + dy * reach * step);
+          if (!isLegal(moved)) continue;
+          const candidate = { blocks: moved, ...evaluate(moved) };
+          if (candidate.rank > best.rank + 1e-9) best = candidate;
+        }
+      }
+    });
+    if (best === current) break;
+    current = best;
+  }
+  return current;
 }
 
-// Validate plan using simplified rule checks from YAML
-function validatePlanTool({ plan }) {
-  console.log('🔍 validatePlanTool called for plan:', plan?.id);
-  const findings = [];
-  const forklift = (plan?.meta?.forklift || 'WA');
-  const reqAisleFeet = rules?.forklift_aisles?.[forklift] || 13.0;
-  const reqAisleM = reqAisleFeet * FEET_TO_METERS;
-
-  const aisleBlocks = (plan.blocks || []).filter(b => b.key === 'aisle');
-  aisleBlocks.forEach(a => {
-    if (a.h < reqAisleM) {
-      findings.push({
-        id: `aisle-${a.id}`,
-        type: 'warning',
-        message: `Increase ${a.id} to ${reqAisleFeet.toFixed(1)} ft for ${forklift} forklifts.`,
-        suggestion: `Set height to ≥ ${reqAisleFeet.toFixed(1)} ft`
+// Produce up to three variants: legalize the plan, then search block
+// positions at coarse to fine steps.  Illegal layouts are never returned;
+// variants are ranked by the weighted score, `score` stays the KPI total.
+function optimizePlanTool({ plan, weights, site, t, adjacency }) {
+  console.log('⚡ optimizePlanTool called for plan:', plan?.id, 'with weights:', weights);
+  const breachOf = blocks => layoutBreach(blocks, site, { walkways: plan.walkways }).breach;
+  const isLegal = blocks => layoutBreach(blocks, site, { walkways: plan.walkways }).violations === 0;
+  const evaluate = blocks => {
+    const { scores, score } = computeKpis(blocks, site, { throughput: t, flowOverrides: plan.flowOverrides, adjacency, walkways: plan.walkways });
+    return { scores, score, rank: weightedScore(scores, weights) };
+  };
+
+  const start = legalizeLayout(plan.blocks, site, breachOf);
+  const variants = [];
+  if (isLegal(start)) {
+    const seen = new Set();
+    SEARCH_STEPS_M.forEach((step, i) => {
+      const result = improveLayout(start, step, evaluate, isLegal);
+      const layout = result.blocks.map(b => `${b.x},${b.y}`).join(';');
+      if (seen.has(layout)) return;
+      seen.add(layout);
+      variants.push({
+        plan: { ...plan, id: `optimized-${'abc'[i]}`, blocks: result.blocks, scores: result.scores, score: result.score },
+        rank: result.rank,
       });
-    }
-  });
+    });
+    variants.sort((a, b) => b.rank - a.rank);
+  }
 
-  findings.push({
-    id: 'flue-1',
-    type: 'info',
-    message: 'Consider flue spaces between back-to-back racks (NFPA)',
-    suggestion: `${rules?.fire_safety?.flue_space_transverse || 6}" transverse, ${rules?.fire_safety?.flue_space_longitudinal || 3}" longitudinal`
-  });
+  console.log('🔄 Generated', variants.length, 'legal optimized variants with scores:', variants.map(v => v.plan.score.toFixed(3)).join(', '));
+  return { plans: variants.map(v => v.plan) };
+}
 
-  console.log('📋 Validation found', findings.length, 'findings:', findings.map(f => f.type).join(', '));
-  return { findings };
+// Validate a plan with the rule engine: every validation_rules entry in
+// rules.yaml runs its geometric check
+function validatePlanTool({ plan, site, t }) {
+  console.log('🔍 validatePlanTool called for plan:', plan?.id);
+  const result = validatePlan(plan, rules, { site, throughput: t });
+  console.log('📋 Validation found', result.findings.length, 'findings:', result.findings.map(f => f.type).join(', '));
+  return result;
 }
 
 // Explain tradeoffs between two plans (simple diff)
@@ -370,7 +433,10 @@ const toolDefinitions = [
         type: 'object',
         properties: {
           plan: { type: 'object' },
-          weights: { type: 'object' }
+          weights: { type: 'object' },
+          site: { type: 'object' },
+          t: { type: 'object' },
+          adjacency: { type: 'object' }
         },
         required: ['plan']
       }
@@ -384,7 +450,9 @@ const toolDefinitions = [
       parameters: {
         type: 'object',
         properties: {
-          plan: { type: 'object' }
+          plan: { type: 'object' },
+          site: { type: 'object' },
+          t: { type: 'object' }
         },
         required: ['plan']
       }
@@ -545,8 +613,8 @@ app.post('/api/layout/synthesize', (req, res) => {
 app.post('/api/layout/optimize', (req, res) => {
   console.log('⚡ /api/layout/optimize called');
   try {
-    const { plan, weights } = req.body || {};
-    const result = optimizePlanTool({ plan, weights });
+    const { plan, weights, site, t, adjacency } = req.body || {};
+    const result = optimizePlanTool({ plan, weights, site, t, adjacency });
     
     // Validate the result against our schema
     const validatedResult = OptimizationResponseSchema.parse(result);
@@ -567,8 +635,8 @@ app.post('/api/layout/optimize', (req, res) => {
 app.post('/api/layout/validate', (req, res) => {
   console.log('🔍 /api/layout/validate called');
   try {
-    const { plan } = req.body || {};
-    const result = validatePlanTool({ plan });
+    const { plan, site, t } = req.body || {};
+    const result = validatePlanTool({ plan, site, t });
     
     // Validate the result against our schema
     const validatedResult = ValidationResponseSchema.parse(result);
@@ -585,11 +653,20 @@ app.post('/api/layout/validate', (req, res) => {
   }
 });
 
-// Export endpoint.  Would normally build CSV/JSON/SVG/DXF/USD outputs
-// based off the selected plan.  Responds with a stub message for now.
+// Export endpoint.  Renders the posted plan as JSON, a CSV block
+// schedule, SVG or DXF and returns the document inline so the client can
+// offer it as a download.
 app.post('/api/export', (req, res) => {
   console.log('📤 /api/export called');
-  res.json({ status: 'Export functionality not implemented yet.' });
+  try {
+    const { plan, format } = req.body || {};
+    const { filename, mimeType, content } = exportPlan(plan, format);
+    console.log('✅ Export complete:', filename, `(${content.length} bytes)`);
+    return res.json({ status: 'ok', format: String(format).toLowerCase(), filename, mimeType, data: content });
+  } catch (e) {
+    console.log('❌ Export error:', e?.message || e);
+    return res.status(400).json({ error: 'Failed to export plan', message: String(e?.message || e) });
+  }
 });
 
 // AI placements endpoint - uses Structured Outputs
@@ -647,6 +724,53 @@ app.post('/api/ai/placements', async (req, res) => {
   }
 });
 
+// Project endpoints.  Projects are stored as JSON files on disk (see
+// projects.js) so a team can iterate on one facility over weeks.
+function sendProjectError(res, action, e) {
+  console.log(`❌ Project ${action} error:`, e?.message || e);
+  return res.status(e?.status || 500).json({ error: `Failed to ${action} project`, message: String(e?.message || e) });
+}
+
+app.get('/api/projects', async (req, res) => {
+  console.log('📁 GET /api/projects called');
+  try {
+    const projects = await listProjects();
+    return res.json({ projects });
+  } catch (e) {
+    return sendProjectError(res, 'list', e);
+  }
+});
+
+app.get('/api/projects/:id', async (req, res) => {
+  console.log('📂 GET /api/projects/:id called for', req.params.id);
+  try {
+    return res.json(await loadProject(req.params.id));
+  } catch (e) {
+    return sendProjectError(res, 'load', e);
+  }
+});
+
+app.put('/api/projects/:id', async (req, res) => {
+  console.log('💾 PUT /api/projects/:id called for', req.params.id);
+  try {
+    const summary = await saveProject(req.params.id, req.body);
+    console.log('✅ Project saved:', summary.name);
+    return res.json(summary);
+  } catch (e) {
+    return sendProjectError(res, 'save', e);
+  }
+});
+
+app.delete('/api/projects/:id', async (req, res) => {
+  console.log('🗑️  DELETE /api/projects/:id called for', req.params.id);
+  try {
+    await deleteProject(req.params.id);
+    return res.json({ status: 'deleted', id: req.params.id });
+  } catch (e) {
+    return sendProjectError(res, 'delete', e);
+  }
+});
+
 // Rules endpoint returns the loaded rule set for transparency and
 // debugging.  This allows the front‑end to fetch constraints and
 // surface them in the UI.
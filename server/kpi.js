@@ -0,0 +1,224 @@
+// Normalized layout KPIs (0..1, higher is better) computed from block
+// geometry.  Mirrors client/src/lib/kpi.ts (and the parts of score.ts it
+// builds on) so plans scored here match what the client shows; keep the two
+// in step.
+
+import { createTravelDistance } from './routing.js';
+import { buildFlowMatrix } from './flows.js';
+
+// Desirability of placing two modules near each other, in [-1, 1]; negative
+// pairs should be kept apart.  Mirrors ADJACENCY_WEIGHTS in
+// client/src/lib/types.ts
+const ADJACENCY_WEIGHTS = {
+  'inbound-depalletizer': 0.9,
+  'depalletizer-pallet_asrs': 0.8,
+  'pallet_asrs-picking': 0.7,
+  'tote_asrs-gtp': 0.9,
+  'gtp-picking': 0.8,
+  'picking-consolidation': 0.8,
+  'consolidation-palletizer': 0.7,
+  'palletizer-outbound': 0.9,
+  'charging-gtp': 0.6,
+  'qc-consolidation': 0.6,
+  'maintenance-pallet_asrs': 0.4,
+  'maintenance-tote_asrs': 0.4,
+  'charging-inbound': -0.5,
+  'charging-outbound': -0.5,
+};
+
+export const DEFAULT_MIN_AISLE_M = 3.0;
+// The client checks aisles on a raster of this cell size; snapping rectangles
+// outward to the same cells keeps the violation counts identical
+const PATH_CELL_M = 0.25;
+const FALLBACK_SITE_MARGIN = 5;
+// Walkways drawn without a width; mirrors DEFAULT_WALKWAY_WIDTH_M in
+// client/src/lib/walkways.ts
+const DEFAULT_WALKWAY_WIDTH_M = 4 * 0.3048;
+const UTILIZATION_WEIGHT = 0.7;
+
+const clamp01 = v => Math.max(0, Math.min(1, v));
+
+function inflate(r, m) {
+  return { x: r.x - m, y: r.y - m, w: r.w + 2 * m, h: r.h + 2 * m };
+}
+
+function snapToCells(r) {
+  const x0 = Math.floor(r.x / PATH_CELL_M) * PATH_CELL_M;
+  const y0 = Math.floor(r.y / PATH_CELL_M) * PATH_CELL_M;
+  const x1 = Math.ceil((r.x + r.w) / PATH_CELL_M) * PATH_CELL_M;
+  const y1 = Math.ceil((r.y + r.h) / PATH_CELL_M) * PATH_CELL_M;
+  return { x: x0, y: y0, w: x1 - x0, h: y1 - y0 };
+}
+
+// The corridor of each walkway segment, reserved like an aisle
+function walkwayRects(walkway) {
+  const polyline = walkway.polyline || [];
+  const half = (walkway.widthM ?? DEFAULT_WALKWAY_WIDTH_M) / 2;
+  return polyline.slice(1).map((to, i) => {
+    const from = polyline[i];
+    const x = Math.min(from[0], to[0]) - half;
+    const y = Math.min(from[1], to[1]) - half;
+    return { x, y, w: Math.abs(to[0] - from[0]) + 2 * half, h: Math.abs(to[1] - from[1]) + 2 * half };
+  });
+}
+
+function manhattan(a, b) {
+  return Math.abs((a.x + a.w / 2) - (b.x + b.w / 2)) + Math.abs((a.y + a.h / 2) - (b.y + b.h / 2));
+}
+
+// Site rectangle, or the blocks' extent plus a margin when there is none
+export function siteRect(site, blocks) {
+  if (site?.widthM && site?.heightM) return { x: 0, y: 0, w: site.widthM, h: site.heightM };
+  const minX = Math.min(0, ...blocks.map(b => b.x));
+  const minY = Math.min(0, ...blocks.map(b => b.y));
+  const maxX = Math.max(100, ...blocks.map(b => b.x + b.w));
+  const maxY = Math.max(60, ...blocks.map(b => b.y + b.h));
+  return {
+    x: minX - FALLBACK_SITE_MARGIN,
+    y: minY - FALLBACK_SITE_MARGIN,
+    w: maxX - minX + 2 * FALLBACK_SITE_MARGIN,
+    h: maxY - minY + 2 * FALLBACK_SITE_MARGIN,
+  };
+}
+
+// Defaults with the request's edited pairs applied; mirrors resolveAdjacency
+// in client/src/lib/adjacency.ts
+function resolveAdjacency(overrides) {
+  const weights = { ...ADJACENCY_WEIGHTS };
+  for (const [key, value] of Object.entries(overrides || {})) {
+    const [a, b] = key.split('-');
+    const pair = `${a}-${b}` in ADJACENCY_WEIGHTS ? `${a}-${b}`
+      : `${b}-${a}` in ADJACENCY_WEIGHTS ? `${b}-${a}`
+      : a < b ? `${a}-${b}` : `${b}-${a}`;
+    weights[pair] = Math.max(-1, Math.min(1, value));
+  }
+  return weights;
+}
+
+// Weighted walking distance, adjacency reward earned and reward possible
+// over the module pairs present in the layout.  Keep-apart pairs only count
+// against the reward when they end up close.
+function adjacencyTerms(blocks, distance, weights) {
+  let weightedDistance = 0;
+  let totalWeight = 0;
+  let hits = 0;
+  for (const [key, w] of Object.entries(weights)) {
+    const [ka, kb] = key.split('-');
+    const a = blocks.find(b => b.key === ka);
+    const b = blocks.find(b => b.key === kb);
+    if (!a || !b || w === 0) continue;
+    if (manhattan(a, b) <= Math.max(a.w, a.h, b.w, b.h) * 3) hits += w;
+    if (w < 0) continue;
+    weightedDistance += w * distance(a, b);
+    totalWeight += w;
+  }
+  return { weightedDistance, totalWeight, hits };
+}
+
+// Flow-weighted walking distance and total moves/hour between blocks present
+function flowTerms(blocks, flows, distance) {
+  const byId = new Map(blocks.map(b => [b.id, b]));
+  let weightedDistance = 0;
+  let totalWeight = 0;
+  for (const [from, row] of Object.entries(flows)) {
+    for (const [to, moves] of Object.entries(row)) {
+      const a = byId.get(from);
+      const b = byId.get(to);
+      if (!a || !b || from === to) continue;
+      weightedDistance += (moves || 0) * distance(a, b);
+      totalWeight += moves || 0;
+    }
+  }
+  return { weightedDistance, totalWeight };
+}
+
+function overlapArea(a, b) {
+  const w = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+  return w > 0 && h > 0 ? w * h : 0;
+}
+
+// Path overlap, clearance breaches and blocks outside the site or on an
+// obstruction, counted the way the client's optimizer counts them.  Aisles
+// and walkways are both paths.  `breach` sums the overlapping areas behind
+// the count, so a search can tell a nearly legal layout from a crowded one.
+function countViolations(movable, paths, site, obstacles, minAisle) {
+  paths = paths.map(snapToCells);
+  // Like the client's path raster, anything beyond the site edge is blocked
+  const bounds = { x: 0, y: 0, w: site.x + site.w, h: site.y + site.h };
+  const outside = (r, b) => r.x < b.x || r.y < b.y || r.x + r.w > b.x + b.w || r.y + r.h > b.y + b.h;
+  const outsideArea = (r, b) => outside(r, b) ? Math.max(r.w * r.h - overlapArea(r, b), 0) : 0;
+  let violations = 0;
+  let breach = 0;
+  const add = (hit, area) => {
+    if (!hit) return;
+    violations += 1;
+    breach += area;
+  };
+  const addPath = r => {
+    const s = snapToCells(r);
+    const area = outsideArea(s, bounds) + paths.reduce((acc, p) => acc + overlapArea(s, p), 0);
+    add(outside(s, bounds) || paths.some(p => overlapArea(s, p) > 0), area);
+  };
+  for (let i = 0; i < movable.length; i++) {
+    const a = movable[i];
+    addPath(a);
+    const grown = inflate(a, minAisle);
+    addPath(grown);
+    for (let j = i + 1; j < movable.length; j++) {
+      const area = overlapArea(grown, movable[j]);
+      add(area > 0, area);
+    }
+    add(outside(a, site), outsideArea(a, site));
+    const onObstacle = obstacles.reduce((acc, o) => acc + overlapArea(a, o), 0);
+    add(onObstacle > 0, onObstacle);
+  }
+  return { violations, breach };
+}
+
+// Legality breaches of a layout: `violations` is the count behind the safety
+// score, 0 when the layout is legal, and `breach` their overlapping area
+export function layoutBreach(blocks = [], site, { minAisleM = DEFAULT_MIN_AISLE_M, walkways = [] } = {}) {
+  const movable = blocks.filter(b => b.key !== 'aisle');
+  const aisles = blocks.filter(b => b.key === 'aisle');
+  const rect = siteRect(site, blocks);
+  const obstacles = [...(site?.obstructions || []), ...(site?.columns || [])];
+  const paths = [...aisles, ...(walkways || []).flatMap(walkwayRects)];
+  return countViolations(movable, paths, rect, obstacles, minAisleM);
+}
+
+// `throughput`, `modules` and `flowOverrides` drive the flow model; without
+// any flow, travel is weighted by adjacency desirability instead.
+// `adjacency` holds the request's edited desirability by module pair;
+// `walkways` are the plan's drawn walkways.
+export function computeKpis(blocks = [], site, { minAisleM = DEFAULT_MIN_AISLE_M, throughput, modules, flowOverrides, adjacency: adjacencyOverrides, walkways = [] } = {}) {
+  const movable = blocks.filter(b => b.key !== 'aisle');
+  const rect = siteRect(site, blocks);
+  const obstacles = [...(site?.obstructions || []), ...(site?.columns || [])];
+
+  const distance = createTravelDistance(movable, rect, obstacles);
+  const adjacency = adjacencyTerms(movable, distance, resolveAdjacency(adjacencyOverrides));
+  const flows = buildFlowMatrix(movable, throughput, modules, flowOverrides);
+  const { weightedDistance, totalWeight } = flows ? flowTerms(movable, flows, distance) : adjacency;
+  const span = rect.w + rect.h;
+  const travel = totalWeight === 0 || span === 0 ? 1 : clamp01(1 - weightedDistance / (totalWeight * span));
+  const adj = adjacency.totalWeight === 0 ? clamp01(1 + adjacency.hits) : clamp01(adjacency.hits / adjacency.totalWeight);
+
+  const { violations } = layoutBreach(blocks, site, { minAisleM, walkways });
+  const safety = movable.length === 0 ? 1 : clamp01(1 - violations / movable.length);
+
+  let compact = 1;
+  if (movable.length > 0) {
+    const minX = Math.min(...movable.map(b => b.x));
+    const minY = Math.min(...movable.map(b => b.y));
+    const bw = Math.max(...movable.map(b => b.x + b.w)) - minX;
+    const bh = Math.max(...movable.map(b => b.y + b.h)) - minY;
+    const used = movable.reduce((acc, b) => acc + b.w * b.h, 0);
+    const utilization = Math.min(1, used / Math.max(1e-9, bw * bh));
+    const squareness = Math.min(bw, bh) / Math.max(bw, bh, 1e-9);
+    compact = clamp01(UTILIZATION_WEIGHT * utilization + (1 - UTILIZATION_WEIGHT) * squareness);
+  }
+
+  const scores = { travel, adj, safety, compact };
+  return { scores, score: (travel + adj + safety + compact) / 4 };
+}
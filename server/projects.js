@@ -0,0 +1,83 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// File-backed project store: one JSON document per project under
+// `PROJECTS_DIR` (defaults to `server/data/projects`).  Good enough for a
+// small team iterating on a handful of facilities.
+const DEFAULT_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'projects');
+const PROJECTS_DIR = process.env.PROJECTS_DIR || DEFAULT_DIR;
+
+// Project ids become file names, so only allow a conservative character set
+function projectPath(id) {
+  if (typeof id !== 'string' || !/^[a-zA-Z0-9_-]{1,64}$/.test(id)) {
+    const err = new Error(`Invalid project id: ${id}`);
+    err.status = 400;
+    throw err;
+  }
+  return path.join(PROJECTS_DIR, `${id}.json`);
+}
+
+function notFound(id) {
+  const err = new Error(`Project not found: ${id}`);
+  err.status = 404;
+  return err;
+}
+
+function toSummary(project) {
+  return { id: project.id, name: project.name, updatedAt: project.updatedAt };
+}
+
+export async function listProjects() {
+  let files = [];
+  try {
+    files = await fs.readdir(PROJECTS_DIR);
+  } catch (e) {
+    if (e.code === 'ENOENT') return [];
+    throw e;
+  }
+  const summaries = [];
+  for (const file of files.filter(f => f.endsWith('.json'))) {
+    try {
+      const raw = await fs.readFile(path.join(PROJECTS_DIR, file), 'utf8');
+      summaries.push(toSummary(JSON.parse(raw)));
+    } catch (e) {
+      console.warn('Warning: skipping unreadable project file', file, e.message);
+    }
+  }
+  return summaries.sort((a, b) => String(b.updatedAt).localeCompare(String(a.updatedAt)));
+}
+
+export async function loadProject(id) {
+  try {
+    return JSON.parse(await fs.readFile(projectPath(id), 'utf8'));
+  } catch (e) {
+    if (e.code === 'ENOENT') throw notFound(id);
+    throw e;
+  }
+}
+
+export async function saveProject(id, project) {
+  if (!project || typeof project !== 'object' || typeof project.name !== 'string' || !project.name.trim()) {
+    const err = new Error('A project with a name is required');
+    err.status = 400;
+    throw err;
+  }
+  const file = projectPath(id);
+  const stored = { ...project, id, updatedAt: new Date().toISOString() };
+  await fs.mkdir(PROJECTS_DIR, { recursive: true });
+  // Write to a temp file first so a crash never leaves a half-written project
+  const tmp = `${file}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(stored, null, 2), 'utf8');
+  await fs.rename(tmp, file);
+  return toSummary(stored);
+}
+
+export async function deleteProject(id) {
+  try {
+    await fs.unlink(projectPath(id));
+  } catch (e) {
+    if (e.code === 'ENOENT') throw notFound(id);
+    throw e;
+  }
+}
@@ -0,0 +1,190 @@
+// Travel distances along the floor: shortest 4-connected paths around
+// blocks and obstructions, from one block's output points to the next
+// block's input points.  Mirrors TravelRouter in client/src/lib/routing.ts
+// so server and client KPIs agree.
+
+export const ROUTE_CELL_M = 1;
+
+// I/O points per module in the unrotated orientation; mirrors ioPoints in
+// MODULE_DEFINITIONS (client/src/lib/types.ts).  [side, offset, kind]
+const IO_POINTS = {
+  pallet_asrs: [['bottom', 0.5, 'inout']],
+  tote_asrs: [['bottom', 0.5, 'inout']],
+  gtp: [['left', 0.5, 'in'], ['right', 0.5, 'out']],
+  picking: [['left', 0.5, 'in'], ['right', 0.5, 'out']],
+  consolidation: [['left', 0.5, 'in'], ['right', 0.5, 'out']],
+  palletizer: [['left', 0.5, 'in'], ['right', 0.5, 'out']],
+  depalletizer: [['left', 0.5, 'in'], ['right', 0.5, 'out']],
+  inbound: [['top', 0.25, 'in'], ['top', 0.75, 'in'], ['bottom', 0.5, 'out']],
+  outbound: [['top', 0.5, 'in'], ['bottom', 0.25, 'out'], ['bottom', 0.75, 'out']],
+  charging: [['left', 0.5, 'inout']],
+  qc: [['left', 0.5, 'in'], ['right', 0.5, 'out']],
+  maintenance: [['bottom', 0.5, 'inout']],
+};
+const SIDES_CLOCKWISE = ['top', 'right', 'bottom', 'left'];
+
+const centre = r => ({ x: r.x + r.w / 2, y: r.y + r.h / 2 });
+const manhattan = (a, b) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+
+// Occupancy raster from the origin to the site's far corner; cells outside
+// it count as blocked
+export function buildGrid(site, obstacles, cellSize) {
+  const cols = Math.ceil((site.x + site.w) / cellSize);
+  const rows = Math.ceil((site.y + site.h) / cellSize);
+  const data = new Uint8Array(cols * rows);
+  const fill = r => {
+    const c0 = Math.max(0, Math.floor(r.x / cellSize));
+    const r0 = Math.max(0, Math.floor(r.y / cellSize));
+    const c1 = Math.min(cols, Math.ceil((r.x + r.w) / cellSize));
+    const r1 = Math.min(rows, Math.ceil((r.y + r.h) / cellSize));
+    for (let y = r0; y < r1; y++) data.fill(1, y * cols + c0, y * cols + Math.max(c0, c1));
+  };
+  if (site.x > 0) fill({ x: 0, y: 0, w: site.x, h: site.y + site.h });
+  if (site.y > 0) fill({ x: 0, y: 0, w: site.x + site.w, h: site.y });
+  obstacles.forEach(fill);
+  const blocked = (c, r) => c < 0 || r < 0 || c >= cols || r >= rows || data[r * cols + c] === 1;
+  return { cols, rows, cellSize, fill, blocked };
+}
+
+// I/O points of a block on its current footprint, rotated clockwise by rot
+export function ioPoints(block) {
+  const rot = block.rot || 0;
+  const w0 = rot % 180 === 0 ? block.w : block.h;
+  const h0 = rot % 180 === 0 ? block.h : block.w;
+  return (IO_POINTS[block.key] || []).map(([side, offset, kind]) => {
+    const along = Math.max(0, Math.min(1, offset));
+    let u = side === 'left' ? 0 : side === 'right' ? w0 : along * w0;
+    let v = side === 'top' ? 0 : side === 'bottom' ? h0 : along * h0;
+    for (let r = 0; r < rot; r += 90) {
+      const size = r % 180 === 0 ? h0 : w0;
+      [u, v] = [size - v, u];
+    }
+    const turned = SIDES_CLOCKWISE[(SIDES_CLOCKWISE.indexOf(side) + rot / 90) % 4];
+    return { x: block.x + u, y: block.y + v, side: turned, kind };
+  });
+}
+
+function accessCells(grid, b) {
+  const cs = grid.cellSize;
+  const c0 = Math.floor(b.x / cs);
+  const r0 = Math.floor(b.y / cs);
+  const c1 = Math.ceil((b.x + b.w) / cs) - 1;
+  const r1 = Math.ceil((b.y + b.h) / cs) - 1;
+  const ring = [];
+  for (let c = c0; c <= c1; c++) ring.push([c, r0 - 1], [c, r1 + 1]);
+  for (let r = r0; r <= r1; r++) ring.push([c0 - 1, r], [c1 + 1, r]);
+  return ring.filter(([c, r]) => !grid.blocked(c, r));
+}
+
+// Free cells a trip can start (from) or end (to) in, each with the point on
+// the block its walk is measured from: the I/O points when the module has
+// them, otherwise any cell around the block, measured from the centre
+function endpoints(grid, b, direction) {
+  const cs = grid.cellSize;
+  const points = ioPoints(b).filter(p => p.kind !== (direction === 'from' ? 'in' : 'out'));
+  if (points.length === 0) {
+    const point = centre(b);
+    return accessCells(grid, b).map(([c, r]) => ({ node: r * grid.cols + c, point }));
+  }
+  const cMin = Math.floor(b.x / cs), cMax = Math.ceil((b.x + b.w) / cs) - 1;
+  const rMin = Math.floor(b.y / cs), rMax = Math.ceil((b.y + b.h) / cs) - 1;
+  const out = [];
+  for (const p of points) {
+    let c = Math.min(Math.max(Math.floor(p.x / cs), cMin), cMax);
+    let r = Math.min(Math.max(Math.floor(p.y / cs), rMin), rMax);
+    if (p.side === 'top') r = rMin - 1;
+    else if (p.side === 'bottom') r = rMax + 1;
+    else if (p.side === 'left') c = cMin - 1;
+    else c = cMax + 1;
+    if (!grid.blocked(c, r)) out.push({ node: r * grid.cols + c, point: { x: p.x, y: p.y } });
+  }
+  return out;
+}
+
+// Small binary min-heap of [priority, node]
+export function createHeap() {
+  const heap = [];
+  const push = (f, node) => {
+    heap.push([f, node]);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const p = (i - 1) >> 1;
+      if (heap[p][0] <= heap[i][0]) break;
+      [heap[p], heap[i]] = [heap[i], heap[p]];
+      i = p;
+    }
+  };
+  const pop = () => {
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1;
+        if (l >= heap.length) break;
+        const c = l + 1 < heap.length && heap[l + 1][0] < heap[l][0] ? l + 1 : l;
+        if (heap[c][0] >= heap[i][0]) break;
+        [heap[c], heap[i]] = [heap[i], heap[c]];
+        i = c;
+      }
+    }
+    return top;
+  };
+  return { push, pop, size: () => heap.length };
+}
+
+// A* from a's outputs to b's inputs, including the walk between each I/O
+// point and its cell
+function route(grid, site, a, b) {
+  const cs = grid.cellSize;
+  const cols = grid.cols;
+  const unreachable = manhattan(centre(a), centre(b)) + site.w + site.h;
+
+  const sources = endpoints(grid, a, 'from');
+  const targets = new Map(endpoints(grid, b, 'to').map(e => [e.node, e.point]));
+  if (targets.size === 0 || sources.length === 0) return unreachable;
+
+  const cellCentre = node => ({ x: ((node % cols) + 0.5) * cs, y: (Math.floor(node / cols) + 0.5) * cs });
+  const goals = [...new Set(targets.values())];
+  const h = node => Math.min(...goals.map(q => manhattan(cellCentre(node), q)));
+  const GOAL = -1;
+  const g = new Float64Array(cols * grid.rows).fill(Infinity);
+  const closed = new Uint8Array(cols * grid.rows);
+  const { push, pop, size } = createHeap();
+
+  for (const { node, point } of sources) {
+    const cost = manhattan(point, cellCentre(node));
+    if (cost < g[node]) {
+      g[node] = cost;
+      push(cost + h(node), node);
+    }
+  }
+
+  while (size() > 0) {
+    const [f, node] = pop();
+    if (node === GOAL) return f;
+    if (closed[node]) continue;
+    closed[node] = 1;
+    const cost = g[node];
+    const goal = targets.get(node);
+    if (goal) push(cost + manhattan(cellCentre(node), goal), GOAL);
+    const c = node % cols;
+    const r = Math.floor(node / cols);
+    for (const [nc, nr] of [[c + 1, r], [c - 1, r], [c, r + 1], [c, r - 1]]) {
+      if (grid.blocked(nc, nr)) continue;
+      const next = nr * cols + nc;
+      if (cost + cs >= g[next]) continue;
+      g[next] = cost + cs;
+      push(cost + cs + h(next), next);
+    }
+  }
+  return unreachable;
+}
+
+// Distance function over a layout; every block is an obstacle
+export function createTravelDistance(blocks, site, obstacles = [], cellSize = ROUTE_CELL_M) {
+  const grid = buildGrid(site, obstacles, cellSize);
+  blocks.forEach(grid.fill);
+  return (a, b) => (a.id === b.id ? 0 : route(grid, site, a, b));
+}
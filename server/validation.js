@@ -0,0 +1,449 @@
+// Rule engine for plan validation.  Every entry under `validation_rules` in
+// rules.yaml names a check registered here; the check measures the plan's
+// geometry and returns per-block findings, and the YAML entry supplies their
+// severity and citation.  More checks plug in through registerRuleCheck.
+
+import { ioPoints } from './routing.js';
+import { computeEgress, egressLimitsFromRules } from './egress.js';
+import { siteRect } from './kpi.js';
+
+const FEET_TO_METERS = 0.3048;
+const INCH_TO_METERS = 0.0254;
+const SEVERITIES = ['error', 'warning', 'info'];
+const STORAGE_KEYS = ['pallet_asrs', 'tote_asrs'];
+const EPS = 1e-6;
+
+const checks = new Map();
+
+// A check gets the validation context and returns
+// [{ blockId?, message, suggestion }], one per offending block or pair
+export function registerRuleCheck(name, check) {
+  checks.set(name, check);
+}
+
+const feet = m => (m / FEET_TO_METERS).toFixed(1);
+const label = b => `${b.key} ${b.id}`;
+
+// Clear distance between two rectangles that face each other along one
+// axis; undefined when they overlap or only meet diagonally
+function facingGap(a, b) {
+  const overlapX = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+  const overlapY = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+  if (overlapY > 0 && overlapX <= 0) return -overlapX;
+  if (overlapX > 0 && overlapY <= 0) return -overlapY;
+  return undefined;
+}
+
+// Distance from a block to the nearest site wall
+function wallGap(b, site) {
+  return Math.min(b.x - site.x, b.y - site.y, site.x + site.w - (b.x + b.w), site.y + site.h - (b.y + b.h));
+}
+
+// Every pair of blocks facing each other closer than `limit`
+function closePairs(blocks, limit) {
+  const pairs = [];
+  for (let i = 0; i < blocks.length; i++) {
+    for (let j = i + 1; j < blocks.length; j++) {
+      const gap = facingGap(blocks[i], blocks[j]);
+      if (gap !== undefined && gap < limit - EPS) pairs.push({ a: blocks[i], b: blocks[j], gap });
+    }
+  }
+  return pairs;
+}
+
+// Aisles must be as wide as the site's forklift class needs
+registerRuleCheck('aisle_width_compliance', ({ blocks, rules, forklift }) => {
+  const requiredFt = rules?.forklift_aisles?.[forklift] || 13.0;
+  const required = requiredFt * FEET_TO_METERS;
+  return blocks
+    .filter(b => b.key === 'aisle' && Math.min(b.w, b.h) < required - EPS)
+    .map(b => {
+      const width = Math.min(b.w, b.h);
+      return {
+        blockId: b.id,
+        message: `${label(b)} is ${feet(width)} ft wide; ${forklift} forklifts need ${requiredFt.toFixed(1)} ft`,
+        suggestion: `Widen it by ${feet(required - width)} ft`,
+      };
+    });
+});
+
+// Storage blocks need flue space where they meet back to back, and room
+// along the walls
+registerRuleCheck('fire_safety_clearances', ({ movable, site, rules }) => {
+  const flueIn = rules?.fire_safety?.flue_space_longitudinal || 3.0;
+  const wallFt = rules?.safety_clearances?.equipment_to_wall || 3.0;
+  const storage = movable.filter(b => STORAGE_KEYS.includes(b.key));
+  const findings = closePairs(storage, flueIn * INCH_TO_METERS).map(({ a, b, gap }) => ({
+    blockId: a.id,
+    message: `${label(a)} and ${label(b)} stand back to back with ${(gap / INCH_TO_METERS).toFixed(1)}" between them`,
+    suggestion: `Leave a ${flueIn}" longitudinal flue space between the racks`,
+  }));
+  for (const b of storage) {
+    const gap = wallGap(b, site);
+    if (gap < wallFt * FEET_TO_METERS - EPS) {
+      findings.push({
+        blockId: b.id,
+        message: `${label(b)} is ${feet(Math.max(0, gap))} ft from the wall`,
+        suggestion: `Keep storage ${wallFt.toFixed(1)} ft off the walls`,
+      });
+    }
+  }
+  return findings;
+});
+
+// Each dock needs a door per pallets_per_door_per_hour: counted among the
+// doors placed on the site when there are any, otherwise along the dock
+// faces of its staging blocks.  Staging must reach staging_depth_factor ft
+// per pallet an hour through each door.
+registerRuleCheck('dock_capacity', ({ movable, dockDoors, rules, throughput }) => {
+  const dock = rules?.dock_design || {};
+  const spacing = (dock.door_spacing || 12.0) * FEET_TO_METERS;
+  const perDoor = dock.pallets_per_door_per_hour || 20;
+  const depthFactor = dock.staging_depth_factor || 2.5;
+  const docks = [
+    { key: 'inbound', kind: 'in', rate: throughput?.palletsInPerH || 0 },
+    { key: 'outbound', kind: 'out', rate: throughput?.palletsOutPerH || 0 },
+  ];
+  const findings = [];
+  for (const { key, kind, rate } of docks) {
+    if (rate <= 0) continue;
+    const needed = Math.ceil(rate / perDoor);
+    // The truck side is where pallets cross the dock: inbound's inputs,
+    // outbound's outputs
+    const faces = movable.filter(b => b.key === key).map(b => {
+      const side = ioPoints(b).find(p => p.kind === kind)?.side || 'top';
+      const across = side === 'top' || side === 'bottom';
+      return { block: b, length: across ? b.w : b.h, depth: across ? b.h : b.w };
+    });
+
+    const placed = dockDoors.filter(d => d.role === key).length;
+    if (placed > 0) {
+      if (placed < needed) {
+        findings.push({
+          message: `The ${key} dock has ${placed} door${placed === 1 ? '' : 's'} but ${needed} are needed for ${Math.round(rate)} pallets/h`,
+          suggestion: `Add ${needed - placed} more at ${(dock.door_spacing || 12.0).toFixed(0)} ft door spacing`,
+        });
+      }
+    } else {
+      const total = faces.reduce((sum, f) => sum + f.length, 0);
+      for (const { block, length } of faces) {
+        const doors = Math.floor(length / spacing + EPS);
+        const share = Math.ceil((rate * length) / total / perDoor);
+        if (doors >= share) continue;
+        findings.push({
+          blockId: block.id,
+          message: `${label(block)} fits ${doors} dock door${doors === 1 ? '' : 's'} but ${share} are needed for ${Math.round((rate * length) / total)} pallets/h`,
+          suggestion: `Lengthen its dock face to ${feet(share * spacing)} ft at ${(dock.door_spacing || 12.0).toFixed(0)} ft door spacing`,
+        });
+      }
+    }
+
+    const depth = depthFactor * (rate / (placed || needed)) * FEET_TO_METERS;
+    for (const { block, depth: actual } of faces) {
+      if (actual >= depth - EPS) continue;
+      findings.push({
+        blockId: block.id,
+        message: `${label(block)} staging is ${feet(actual)} ft deep; ${feet(depth)} ft are needed behind its doors`,
+        suggestion: `Deepen it away from the dock face by ${feet(depth - actual)} ft`,
+      });
+    }
+  }
+  return findings;
+});
+
+// Everyone must reach an exit (an exterior wall while none are placed)
+// within the maximum travel distance, along floor at least as wide as the
+// egress minimum.  Findings are the zones EgressCard lists on the client.
+registerRuleCheck('emergency_egress', ({ movable, site, obstacles, exits, rules }) => {
+  const limits = egressLimitsFromRules(rules);
+  const egress = computeEgress({ movable, site, obstacles, exits, limits });
+  const target = egress.toWalls ? 'an exterior wall' : 'an exit';
+  const at = zone => `${zone.bounds.x.toFixed(0)}, ${zone.bounds.y.toFixed(0)} m`;
+  const area = zone => (zone.cells * egress.cellSize ** 2).toFixed(0);
+  const inches = m => (m / INCH_TO_METERS).toFixed(0);
+  return [
+    ...egress.blockedExits.map(id => ({
+      message: `Exit ${exits.findIndex(e => e.id === id) + 1} is blocked`,
+      suggestion: 'Equipment stands against it; move the equipment or the exit',
+    })),
+    ...egress.farZones.map(zone => ({
+      message: zone.worst === Infinity
+        ? `Floor at ${at(zone)} has no way to ${target}`
+        : `Floor at ${at(zone)} is ${feet(zone.worst)} ft from ${target}`,
+      suggestion: `${area(zone)} m² beyond the ${feet(limits.maxTravelM)} ft limit; add an exit nearer to it or open a shorter path`,
+    })),
+    ...egress.narrowZones.map(zone => ({
+      message: `Passage at ${at(zone)} is ${inches(zone.worst)}" wide`,
+      suggestion: `Egress paths need ${inches(limits.egressWidthM)}"; close it off or widen it`,
+    })),
+  ];
+});
+
+// How much a walkway crossing counts for at each pedestrian density
+const DENSITY_WEIGHTS = { low: 1, med: 2, high: 3 };
+
+// Clear distance between two rectangles; 0 when they touch or overlap
+function rectGap(a, b) {
+  const dx = Math.max(0, Math.max(a.x, b.x) - Math.min(a.x + a.w, b.x + b.w));
+  const dy = Math.max(0, Math.max(a.y, b.y) - Math.min(a.y + a.h, b.y + b.h));
+  return Math.hypot(dx, dy);
+}
+
+// Each segment of a walkway polyline with the corridor it reserves
+function walkwaySegments(polyline, width) {
+  const half = width / 2;
+  return polyline.slice(1).map((to, i) => {
+    const from = polyline[i];
+    const x = Math.min(from[0], to[0]) - half;
+    const y = Math.min(from[1], to[1]) - half;
+    return { from, to, rect: { x, y, w: Math.abs(to[0] - from[0]) + 2 * half, h: Math.abs(to[1] - from[1]) + 2 * half } };
+  });
+}
+
+// Whether the segment from-to passes through the inside of a rectangle
+// (Liang-Barsky clipping)
+function segmentInRect(from, to, r) {
+  const dx = to[0] - from[0];
+  const dy = to[1] - from[1];
+  let t0 = 0;
+  let t1 = 1;
+  for (const [p, q] of [[-dx, from[0] - r.x], [dx, r.x + r.w - from[0]], [-dy, from[1] - r.y], [dy, r.y + r.h - from[1]]]) {
+    if (Math.abs(p) < EPS) {
+      if (q < 0) return false;
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) t0 = Math.max(t0, t);
+    else t1 = Math.min(t1, t);
+    if (t0 > t1) return false;
+  }
+  return Math.hypot((t1 - t0) * dx, (t1 - t0) * dy) > EPS;
+}
+
+// Gaps between equipment or along the walls are either closed off or wide
+// enough to walk through.  Drawn walkways must be wide enough (less when
+// marked), keep clear of equipment and cross as few forklift aisles as they
+// can; crossings count for more at higher pedestrian density.
+registerRuleCheck('pedestrian_safety', ({ plan, blocks, movable, site, rules, pedestrianDensity }) => {
+  const pedestrian = rules?.pedestrian_areas || {};
+  const walkway = (pedestrian.min_walkway_width || 4.0) * FEET_TO_METERS;
+  const findings = closePairs(movable, walkway)
+    .filter(({ gap }) => gap > EPS)
+    .map(({ a, b, gap }) => ({
+      blockId: a.id,
+      message: `${feet(gap)} ft gap between ${label(a)} and ${label(b)} is too narrow to walk through`,
+      suggestion: `Close it or widen it to ${feet(walkway)} ft`,
+    }));
+  for (const b of movable) {
+    const gap = wallGap(b, site);
+    if (gap > EPS && gap < walkway - EPS) {
+      findings.push({
+        blockId: b.id,
+        message: `${feet(gap)} ft gap between ${label(b)} and the wall is too narrow to walk through`,
+        suggestion: `Close it or widen it to ${feet(walkway)} ft`,
+      });
+    }
+  }
+
+  const marked = (pedestrian.marked_walkway_width || 3.0) * FEET_TO_METERS;
+  const clearance = (pedestrian.clearance_from_equipment || 2.0) * FEET_TO_METERS;
+  const weight = DENSITY_WEIGHTS[pedestrianDensity] || DENSITY_WEIGHTS.med;
+  const aisles = blocks.filter(b => b.key === 'aisle');
+  (plan?.walkways || []).forEach((w, index) => {
+    const name = `Walkway ${index + 1}`;
+    const width = w.widthM ?? walkway;
+    const required = w.marked ? marked : walkway;
+    if (width < required - EPS) {
+      findings.push({
+        message: `${name} is ${feet(width)} ft wide; ${w.marked ? 'marked ' : ''}walkways need ${feet(required)} ft`,
+        suggestion: w.marked ? `Widen it to ${feet(required)} ft` : `Widen it to ${feet(required)} ft or mark it`,
+      });
+    }
+    const segments = walkwaySegments(w.polyline || [], width);
+    for (const b of movable) {
+      const gap = Math.min(...segments.map(({ rect }) => rectGap(rect, b)));
+      if (gap >= clearance - EPS) continue;
+      findings.push({
+        blockId: b.id,
+        message: gap > EPS
+          ? `${name} passes ${feet(gap)} ft from ${label(b)}`
+          : `${name} runs through ${label(b)}`,
+        suggestion: `Keep ${feet(clearance)} ft between walkways and equipment`,
+      });
+    }
+    // Segments across an aisle cross forklift traffic
+    const crossings = segments.reduce((sum, { from, to }) => {
+      const across = Math.abs(to[0] - from[0]) >= Math.abs(to[1] - from[1]);
+      return sum + aisles.filter(a => (a.w >= a.h) !== across && segmentInRect(from, to, a)).length;
+    }, 0);
+    if (crossings > 0) {
+      findings.push({
+        message: `${name} crosses forklift aisles ${crossings} time${crossings === 1 ? '' : 's'} (weighted ${crossings * weight} at ${pedestrianDensity} pedestrian density)`,
+        suggestion: 'Mark the crossings or reroute the walkway around the aisles',
+      });
+    }
+  });
+  return findings;
+});
+
+// Truck profiles by forklift class (feet); rules.yaml vehicle_profiles
+// overrides them.  Mirrors client/src/lib/vehicle-profiles.ts.
+const VEHICLE_PROFILES = {
+  WA: { name: 'Counterbalance truck', length: 12.0, width: 3.8, turning_radius: 7.5 },
+  NA: { name: 'Reach truck', length: 8.5, width: 3.6, turning_radius: 5.5 },
+  VNA: { name: 'Turret truck', length: 14.0, width: 5.2, turning_radius: 9.5 },
+};
+
+function overlaps(a, b) {
+  return a.x < b.x + b.w - EPS && b.x < a.x + a.w - EPS && a.y < b.y + b.h - EPS && b.y < a.y + a.h - EPS;
+}
+
+// Distance from a corner to the part of a rectangle in the quadrant
+// [sx, sy] from it; Infinity when none of it lies there
+function quadrantDistance(corner, [sx, sy], r) {
+  const x0 = sx > 0 ? Math.max(r.x, corner.x) : r.x;
+  const x1 = sx > 0 ? r.x + r.w : Math.min(r.x + r.w, corner.x);
+  const y0 = sy > 0 ? Math.max(r.y, corner.y) : r.y;
+  const y1 = sy > 0 ? r.y + r.h : Math.min(r.y + r.h, corner.y);
+  if (x1 - x0 < EPS || y1 - y0 < EPS) return Infinity;
+  return Math.hypot(Math.max(0, x0 - corner.x, corner.x - x1), Math.max(0, y0 - corner.y, corner.y - y1));
+}
+
+// Pivot corners of the right-angle turns between a cross-aisle and a
+// vertical aisle, each with the quadrant the truck swings through
+function aisleTurns(a, b) {
+  const across = r => r.w >= r.h;
+  const [h, v] = across(a) ? [a, b] : [b, a];
+  if (!across(h) || across(v)) return [];
+  const x0 = Math.max(h.x, v.x);
+  const x1 = Math.min(h.x + h.w, v.x + v.w);
+  const y0 = h.y;
+  const y1 = h.y + h.h;
+  if (x1 - x0 < EPS || v.y > y1 + EPS || v.y + v.h < y0 - EPS) return [];
+  const arms = { left: h.x < x0 - EPS, right: h.x + h.w > x1 + EPS, up: v.y < y0 - EPS, down: v.y + v.h > y1 + EPS };
+  const turns = [];
+  for (const dx of [-1, 1]) {
+    for (const dy of [-1, 1]) {
+      if (!(dx < 0 ? arms.left : arms.right) || !(dy < 0 ? arms.up : arms.down)) continue;
+      turns.push({ at: { x: dx < 0 ? x0 : x1, y: dy < 0 ? y0 : y1 }, toward: [-dx, -dy] });
+    }
+  }
+  return turns;
+}
+
+// The loaded truck sweeps the larger of its turning radius and
+// turning_radius_factor x its length; that plus load_clearance must be clear
+// of equipment and walls at every aisle corner, and a dead-end aisle must be
+// that wide for the truck to turn around in it
+registerRuleCheck('turning_radius', ({ blocks, movable, site, obstacles, rules, forklift }) => {
+  const aisleRules = rules?.forklift_aisles || {};
+  // Classes without a profile are checked as counterbalance trucks
+  const truckClass = forklift in VEHICLE_PROFILES ? forklift : 'WA';
+  const profile = { ...VEHICLE_PROFILES[truckClass], ...(rules?.vehicle_profiles?.[truckClass] || {}) };
+  const swept = Math.max(profile.turning_radius, (aisleRules.turning_radius_factor || 1.2) * profile.length) * FEET_TO_METERS;
+  const required = swept + (aisleRules.load_clearance || 1.0) * FEET_TO_METERS;
+  const truck = `${truckClass} ${String(profile.name).toLowerCase()}`;
+  const aisles = blocks.filter(b => b.key === 'aisle');
+  const solid = [...movable, ...obstacles];
+  const at = p => `${p.x.toFixed(0)}, ${p.y.toFixed(0)} m`;
+  const findings = [];
+
+  aisles.forEach((a, i) => {
+    for (const b of aisles.slice(i + 1)) {
+      for (const turn of aisleTurns(a, b)) {
+        let clear = Math.min(
+          turn.toward[0] > 0 ? site.x + site.w - turn.at.x : turn.at.x - site.x,
+          turn.toward[1] > 0 ? site.y + site.h - turn.at.y : turn.at.y - site.y
+        );
+        let nearest;
+        for (const o of solid) {
+          const d = quadrantDistance(turn.at, turn.toward, o);
+          if (d < clear) {
+            clear = d;
+            nearest = o;
+          }
+        }
+        if (clear >= required - EPS) continue;
+        findings.push({
+          blockId: nearest?.id,
+          message: `Corner at ${at(turn.at)} between ${label(a)} and ${label(b)} leaves ${feet(clear)} ft to turn a ${truck}; ${feet(required)} ft needed`,
+          suggestion: nearest?.key ? `Pull ${label(nearest)} back or widen the aisles` : 'Widen the aisles or move the turn away from the wall',
+        });
+      }
+    }
+  });
+
+  for (const aisle of aisles) {
+    const across = aisle.w >= aisle.h;
+    const width = across ? aisle.h : aisle.w;
+    if (width >= required - EPS) continue;
+    const ends = across
+      ? [
+          { edge: { x: aisle.x, y: aisle.y, w: 0, h: aisle.h }, beyond: { x: aisle.x - required, y: aisle.y, w: required, h: aisle.h } },
+          { edge: { x: aisle.x + aisle.w, y: aisle.y, w: 0, h: aisle.h }, beyond: { x: aisle.x + aisle.w, y: aisle.y, w: required, h: aisle.h } },
+        ]
+      : [
+          { edge: { x: aisle.x, y: aisle.y, w: aisle.w, h: 0 }, beyond: { x: aisle.x, y: aisle.y - required, w: aisle.w, h: required } },
+          { edge: { x: aisle.x, y: aisle.y + aisle.h, w: aisle.w, h: 0 }, beyond: { x: aisle.x, y: aisle.y + aisle.h, w: aisle.w, h: required } },
+        ];
+    for (const { edge, beyond } of ends) {
+      // Ends that meet another aisle, or open onto clear floor, are not dead
+      if (aisles.some(o => o !== aisle && rectGap(o, edge) <= EPS)) continue;
+      const inside = beyond.x >= site.x - EPS && beyond.y >= site.y - EPS &&
+        beyond.x + beyond.w <= site.x + site.w + EPS && beyond.y + beyond.h <= site.y + site.h + EPS;
+      if (inside && !solid.some(o => overlaps(o, beyond))) continue;
+      findings.push({
+        blockId: aisle.id,
+        message: `Dead-end of ${label(aisle)} at ${at({ x: edge.x + edge.w / 2, y: edge.y + edge.h / 2 })} is ${feet(width)} ft wide; a ${truck} needs ${feet(required)} ft to turn`,
+        suggestion: 'Connect the aisle through or widen its end so trucks need not reverse out',
+      });
+    }
+  }
+  return findings;
+});
+
+// Runs the configured rules over a plan.  Returns the findings plus, per
+// rule, whether it was checked and how many findings it raised; rules with
+// no registered check are listed as unchecked rather than passed.
+export function validatePlan(plan, rules, { site, throughput } = {}) {
+  const blocks = plan?.blocks || [];
+  const context = {
+    plan,
+    blocks,
+    movable: blocks.filter(b => b.key !== 'aisle'),
+    site: siteRect(site, blocks),
+    obstacles: [...(site?.obstructions || []), ...(site?.columns || [])],
+    exits: site?.exits || [],
+    dockDoors: site?.docks || [],
+    pedestrianDensity: site?.pedestrianDensity || 'med',
+    rules,
+    throughput,
+    forklift: plan?.meta?.forklift || site?.forklift || 'WA',
+  };
+
+  const findings = [];
+  const summary = [];
+  for (const rule of rules?.validation_rules || []) {
+    const type = SEVERITIES.includes(rule.severity) ? rule.severity : 'warning';
+    const check = checks.get(rule.rule);
+    const results = check ? check(context) : [];
+    results.forEach((result, i) => {
+      findings.push({
+        id: `${rule.rule}-${i + 1}`,
+        type,
+        rule: rule.rule,
+        citation: rule.citation,
+        ...result,
+      });
+    });
+    summary.push({
+      rule: rule.rule,
+      description: rule.description || rule.rule,
+      severity: type,
+      citation: rule.citation,
+      checked: !!check,
+      findings: results.length,
+    });
+  }
+  return { findings, rules: summary };
+}